@@ -2,19 +2,56 @@ declare global {
   namespace NodeJS {
     interface ProcessEnv {
       SERVER_PORT?: string;
+      TRUST_PROXY?: string;
       NODE_ENV: 'development' | 'production';
       JWT_SECRET?: string;
+      TOKEN_EXPIRATION?: string;
       COOKIE_EXPIRATION: string;
       DATABASE_URL: string;
       EMAIL_USER: string;
       EMAIL_PASSWORD: string;
+      EMAIL_FROM?: string;
+      EMAIL_TRANSPORT?: 'smtp' | 'mailbox';
+      MAILBOX_DIR?: string;
+      SMTP_HOST?: string;
+      SMTP_PORT?: string;
+      SMTP_SECURE?: string;
+      SMTP_USER?: string;
+      SMTP_PASSWORD?: string;
       BASE_URL: string;
       CLIENT_ORIGIN: string;
+      SERVER_URL?: string;
+      GOOGLE_CLIENT_ID?: string;
+      GOOGLE_CLIENT_SECRET?: string;
+      GOOGLE_OAUTH_URL?: string;
+      GITHUB_CLIENT_ID?: string;
+      GITHUB_CLIENT_SECRET?: string;
+      GITHUB_OAUTH_URL?: string;
+      REQUIRE_EMAIL_VERIFICATION?: string;
       CLOUDINARY_CLOUD_NAME: string;
       CLOUDINARY_API_KEY: string;
       CLOUDINARY_API_SECRET: string;
       GEOCODING_API_KEY: string;
       GEOCODING_API_URL: string;
+      PAYMENT_PROVIDER?: 'razorpay' | 'stripe' | 'fake';
+      RAZORPAY_KEY_ID: string;
+      RAZORPAY_KEY_SECRET: string;
+      RAZORPAY_WEBHOOK_SECRET: string;
+      STRIPE_SECRET_KEY?: string;
+      STRIPE_PUBLISHABLE_KEY?: string;
+      STRIPE_WEBHOOK_SECRET?: string;
+      STRIPE_API_URL?: string;
+      FAKE_PAYMENT_SECRET?: string;
+      TICKET_HOLD_MINUTES?: string;
+      VENUE_HOLD_MINUTES?: string;
+      PENDING_BOOKING_TTL_MINUTES?: string;
+      VENUE_REQUEST_TTL_HOURS?: string;
+      TICKET_SIGNING_SECRET?: string;
+      INVOICE_GST_PERCENT?: string;
+      INVOICE_GSTIN?: string;
+      ENCRYPTION_KEY?: string;
+      TWO_FACTOR_REQUIRED_ROLES?: string;
+      LOGIN_LOCKOUT_MINUTES?: string;
     }
   }
 
@@ -23,6 +60,8 @@ declare global {
       user?: {
         id: string;
         role: string;
+        sessionId?: string;
+        twoFactorEnabled?: boolean;
       };
     }
   }
@@ -0,0 +1,255 @@
+import { Prisma } from "@prisma/client";
+
+type Row = Record<string, any>;
+type Args = Record<string, any>;
+
+// Fields the schema fills in on create, per model
+const DEFAULTS: Record<string, () => Row> = {
+    event: () => ({ isPublic: true, startingPrice: null, bookingCount: 0 }),
+    payment: () => ({ status: "PENDING", refundedAmount: 0, providerPaymentId: null, failureReason: null }),
+    refund: () => ({ status: "PENDING", providerRefundId: null }),
+    ticketBooking: () => ({ status: "PENDING" }),
+    ticketHold: () => ({ status: "ACTIVE", ticketBookingId: null }),
+    ticketTier: () => ({ heldSeats: 0, soldSeats: 0 }),
+    user: () => ({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastUsedStep: null, twoFactorRecoveryCodes: [] }),
+    venueBooking: () => ({ status: "PENDING", eventId: null, request: null }),
+    venueHold: () => ({ status: "ACTIVE", venueBookingId: null }),
+};
+
+// Unique indexes the services rely on to detect conflicts
+const UNIQUE: Record<string, string[][]> = {
+    ticketTier: [["eventId", "seatType"]],
+    venueReservedDay: [["venueId", "day"]],
+    webhookEvent: [["eventId"]],
+};
+
+// To-many relations that can be loaded with include
+const RELATIONS: Record<string, Record<string, { model: string; foreignKey: string }>> = {
+    payment: {
+        ticketBookings: { model: "ticketBooking", foreignKey: "paymentId" },
+        venueBookings: { model: "venueBooking", foreignKey: "paymentId" },
+    },
+};
+
+const comparable = (value: unknown): unknown => {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    // Lists are equal when their items are, e.g. for equals filters on scalar lists
+    return Array.isArray(value) ? JSON.stringify(value.map(comparable)) : value;
+};
+
+const isOperatorObject = (value: unknown): value is Args =>
+    !!value && typeof value === "object" && !(value instanceof Date) && !Array.isArray(value);
+
+const knownError = (code: string, message: string): Prisma.PrismaClientKnownRequestError =>
+    new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: "fake" });
+
+/**
+ * Whether a field value passes a Prisma field filter.
+ */
+const matchesFilter = (value: unknown, filter: unknown): boolean => {
+    if (filter === null) {
+        return value === null || value === undefined;
+    }
+    if (!isOperatorObject(filter)) {
+        return comparable(value) === comparable(filter);
+    }
+
+    return Object.entries(filter).every(([operator, operand]) => {
+        if (operand === undefined) {
+            return true;
+        }
+        const current = comparable(value) as any;
+        switch (operator) {
+            case "equals":
+                return matchesFilter(value, operand);
+            case "not":
+                return !matchesFilter(value, operand);
+            case "in":
+                return (operand as unknown[]).some((option) => comparable(option) === current);
+            case "notIn":
+                return !(operand as unknown[]).some((option) => comparable(option) === current);
+            case "lt":
+                return current !== null && current !== undefined && current < (comparable(operand) as any);
+            case "lte":
+                return current !== null && current !== undefined && current <= (comparable(operand) as any);
+            case "gt":
+                return current !== null && current !== undefined && current > (comparable(operand) as any);
+            case "gte":
+                return current !== null && current !== undefined && current >= (comparable(operand) as any);
+            case "isSet":
+                return (value !== undefined) === operand;
+            default:
+                throw new Error(`Filter ${operator} is not supported by the fake client`);
+        }
+    });
+};
+
+/**
+ * Whether a row passes a Prisma where clause.
+ */
+const matches = (row: Row, where: Args = {}): boolean =>
+    Object.entries(where).every(([key, filter]) => {
+        if (filter === undefined) {
+            return true;
+        }
+        switch (key) {
+            case "AND":
+                return ([] as Args[]).concat(filter).every((clause) => matches(row, clause));
+            case "OR":
+                return (filter as Args[]).some((clause) => matches(row, clause));
+            case "NOT":
+                return !([] as Args[]).concat(filter).some((clause) => matches(row, clause));
+        }
+        // Compound unique keys such as eventId_seatType
+        if (!(key in row) && key.includes("_") && isOperatorObject(filter)) {
+            return matches(row, filter);
+        }
+        return matchesFilter(row[key], filter);
+    });
+
+const applyData = (row: Row, data: Args): void => {
+    for (const [key, value] of Object.entries(data)) {
+        if (value === undefined) {
+            continue;
+        }
+        if (isOperatorObject(value) && "increment" in value) {
+            row[key] += value.increment;
+        } else if (isOperatorObject(value) && "decrement" in value) {
+            row[key] -= value.decrement;
+        } else if (isOperatorObject(value) && "set" in value) {
+            row[key] = value.set;
+        } else {
+            row[key] = value;
+        }
+    }
+    row.updatedAt = new Date();
+};
+
+/**
+ * In-memory stand-in for the Prisma client, covering the queries of the payment and
+ * hold services. Interactive transactions are rolled back when their callback throws.
+ */
+export const createFakePrisma = () => {
+    let tables: Record<string, Row[]> = {};
+    let lastId = 0;
+
+    const table = (model: string): Row[] => (tables[model] ??= []);
+
+    const load = (model: string, row: Row, include?: Args): Row => {
+        const loaded = structuredClone(row);
+        for (const [relation, enabled] of Object.entries(include ?? {})) {
+            const link = RELATIONS[model]?.[relation];
+            if (!enabled || !link) {
+                throw new Error(`Include ${model}.${relation} is not supported by the fake client`);
+            }
+            loaded[relation] = table(link.model)
+                .filter((related) => related[link.foreignKey] === row.id)
+                .map((related) => structuredClone(related));
+        }
+        return loaded;
+    };
+
+    const checkUnique = (model: string, row: Row): void => {
+        for (const fields of UNIQUE[model] ?? []) {
+            const taken = table(model).some(
+                (other) => other !== row && fields.every((field) => comparable(other[field]) === comparable(row[field]))
+            );
+            if (taken) {
+                throw knownError("P2002", `Unique constraint failed on ${model}(${fields.join(", ")})`);
+            }
+        }
+    };
+
+    const delegate = (model: string) => ({
+        findUnique: async ({ where, include }: Args) => {
+            const row = table(model).find((candidate) => matches(candidate, where));
+            return row ? load(model, row, include) : null;
+        },
+        findFirst: async ({ where, include }: Args = {}) => {
+            const row = table(model).find((candidate) => matches(candidate, where));
+            return row ? load(model, row, include) : null;
+        },
+        findMany: async ({ where, include }: Args = {}) =>
+            table(model).filter((row) => matches(row, where)).map((row) => load(model, row, include)),
+        count: async ({ where }: Args = {}) => table(model).filter((row) => matches(row, where)).length,
+        aggregate: async ({ where, _min = {}, _max = {} }: Args) => {
+            const rows = table(model).filter((row) => matches(row, where));
+            const pick = (fields: Args, choose: (values: number[]) => number) =>
+                Object.fromEntries(Object.keys(fields).map((field) => {
+                    const values = rows.map((row) => row[field]).filter((value) => value !== null && value !== undefined);
+                    return [field, values.length > 0 ? choose(values) : null];
+                }));
+            return {
+                _min: pick(_min, (values) => Math.min(...values)),
+                _max: pick(_max, (values) => Math.max(...values)),
+            };
+        },
+        create: async ({ data, include }: Args) => {
+            const now = new Date();
+            const row: Row = { id: (++lastId).toString(16).padStart(24, "0"), ...DEFAULTS[model]?.(), createdAt: now, updatedAt: now };
+            applyData(row, data);
+            checkUnique(model, row);
+            table(model).push(row);
+            return load(model, row, include);
+        },
+        createMany: async ({ data }: Args) => {
+            for (const entry of data as Args[]) {
+                await delegate(model).create({ data: entry });
+            }
+            return { count: data.length };
+        },
+        update: async ({ where, data, include }: Args) => {
+            const row = table(model).find((candidate) => matches(candidate, where));
+            if (!row) {
+                throw knownError("P2025", `No ${model} found to update`);
+            }
+            applyData(row, data);
+            checkUnique(model, row);
+            return load(model, row, include);
+        },
+        updateMany: async ({ where, data }: Args) => {
+            const rows = table(model).filter((row) => matches(row, where));
+            for (const row of rows) {
+                applyData(row, data);
+            }
+            return { count: rows.length };
+        },
+        deleteMany: async ({ where }: Args = {}) => {
+            const before = table(model).length;
+            tables[model] = table(model).filter((row) => !matches(row, where));
+            return { count: before - tables[model].length };
+        },
+    });
+
+    const client: Record<string, any> = {
+        $transaction: async (operations: unknown) => {
+            if (Array.isArray(operations)) {
+                return await Promise.all(operations);
+            }
+
+            const snapshot = structuredClone(tables);
+            try {
+                return await (operations as (tx: unknown) => Promise<unknown>)(proxy);
+            } catch (error) {
+                tables = snapshot;
+                throw error;
+            }
+        },
+        // Drop every row, e.g. between tests
+        $reset: () => {
+            tables = {};
+        },
+        // Rows of a model as stored, for assertions
+        $rows: (model: string): Row[] => table(model),
+    };
+
+    const delegates: Record<string, ReturnType<typeof delegate>> = {};
+    const proxy: any = new Proxy(client, {
+        get: (target, property: string) => target[property] ?? (delegates[property] ??= delegate(property)),
+    });
+    return proxy;
+};
+
+export const fakePrisma = createFakePrisma();
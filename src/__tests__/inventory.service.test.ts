@@ -0,0 +1,160 @@
+import { TicketHold } from "@prisma/client";
+import { InventoryService } from "../services/inventory.service";
+import { fakePrisma } from "./fake-prisma";
+
+jest.mock("../config/prisma.config", () => ({ __esModule: true, default: jest.requireActual("./fake-prisma").fakePrisma }));
+jest.mock("../config/logger.config", () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const USER_ID = "00000000000000000000aaaa";
+
+const createTier = async (totalSeats = 10) => {
+    const event = await fakePrisma.event.create({ data: { title: "Concert", date: new Date(Date.now() + 86400000) } });
+    return await fakePrisma.ticketTier.create({
+        data: { eventId: event.id, seatType: "GENERAL", price: 500, totalSeats, availableSeats: totalSeats },
+    });
+};
+
+const hold = async (eventId: string, quantity: number): Promise<TicketHold> => {
+    const created = await InventoryService.createHold(eventId, "GENERAL", quantity, USER_ID);
+    if ("error" in created) {
+        throw new Error(created.error);
+    }
+    return created;
+};
+
+const expire = (holdId: string) =>
+    fakePrisma.ticketHold.update({ where: { id: holdId }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+const find = (model: string, id: string) => fakePrisma[model].findUnique({ where: { id } });
+
+beforeEach(() => {
+    fakePrisma.$reset();
+});
+
+describe("InventoryService.createHold", () => {
+    it("moves seats from available to held", async () => {
+        const tier = await createTier();
+
+        const created = await hold(tier.eventId, 3);
+
+        expect(created).toMatchObject({ status: "ACTIVE", quantity: 3, tierId: tier.id });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 7, heldSeats: 3 });
+    });
+
+    it("refuses to hold more seats than are available", async () => {
+        const tier = await createTier(4);
+        await hold(tier.eventId, 3);
+
+        const result = await InventoryService.createHold(tier.eventId, "GENERAL", 2, USER_ID);
+
+        expect(result).toEqual({ error: "Not enough seats available" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 1, heldSeats: 3 });
+    });
+
+    it("refuses a quantity that isn't a positive whole number", async () => {
+        const tier = await createTier();
+
+        expect(await InventoryService.createHold(tier.eventId, "GENERAL", 0, USER_ID)).toHaveProperty("error");
+        expect(await InventoryService.createHold(tier.eventId, "GENERAL", 1.5, USER_ID)).toHaveProperty("error");
+    });
+});
+
+describe("InventoryService.confirmHold", () => {
+    it("turns held seats into sold seats once", async () => {
+        const tier = await createTier();
+        const created = await hold(tier.eventId, 2);
+
+        expect(await InventoryService.confirmHold(created.id)).toEqual({ success: true });
+        expect(await InventoryService.confirmHold(created.id)).toEqual({ success: true });
+
+        expect(await find("ticketHold", created.id)).toMatchObject({ status: "CONFIRMED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 8, heldSeats: 0, soldSeats: 2 });
+    });
+
+    it("takes back the seats of a released hold while they are still available", async () => {
+        const tier = await createTier();
+        const created = await hold(tier.eventId, 2);
+        await InventoryService.releaseHold(created.id);
+
+        expect(await InventoryService.confirmHold(created.id)).toEqual({ success: true });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 8, heldSeats: 0, soldSeats: 2 });
+    });
+
+    it("fails and changes nothing when the seats of a released hold were taken", async () => {
+        const tier = await createTier(2);
+        const created = await hold(tier.eventId, 2);
+        await InventoryService.releaseHold(created.id);
+        await hold(tier.eventId, 2);
+
+        const result = await InventoryService.confirmHold(created.id);
+
+        expect(result.success).toBe(false);
+        expect(await find("ticketHold", created.id)).toMatchObject({ status: "RELEASED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 0, heldSeats: 2, soldSeats: 0 });
+    });
+});
+
+describe("InventoryService.releaseHold", () => {
+    it("gives the held seats back once", async () => {
+        const tier = await createTier();
+        const created = await hold(tier.eventId, 2);
+
+        expect(await InventoryService.releaseHold(created.id)).toBe(true);
+        expect(await InventoryService.releaseHold(created.id)).toBe(false);
+
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 10, heldSeats: 0 });
+    });
+
+    it("leaves confirmed holds alone", async () => {
+        const tier = await createTier();
+        const created = await hold(tier.eventId, 2);
+        await InventoryService.confirmHold(created.id);
+
+        expect(await InventoryService.releaseHold(created.id)).toBe(false);
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 8, soldSeats: 2 });
+    });
+});
+
+describe("InventoryService.returnSeats", () => {
+    it("gives the sold seats of a confirmed hold back once", async () => {
+        const tier = await createTier();
+        const created = await hold(tier.eventId, 2);
+        await InventoryService.confirmHold(created.id);
+
+        expect(await InventoryService.returnSeats(created.id)).toBe(true);
+        expect(await InventoryService.returnSeats(created.id)).toBe(false);
+
+        expect(await find("ticketHold", created.id)).toMatchObject({ status: "RELEASED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 10, soldSeats: 0 });
+    });
+
+    it("leaves active holds alone", async () => {
+        const tier = await createTier();
+        const created = await hold(tier.eventId, 2);
+
+        expect(await InventoryService.returnSeats(created.id)).toBe(false);
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 8, heldSeats: 2 });
+    });
+});
+
+describe("InventoryService.releaseExpiredHolds", () => {
+    it("only releases active holds past their time limit", async () => {
+        const tier = await createTier();
+        const expired = await hold(tier.eventId, 1);
+        const active = await hold(tier.eventId, 2);
+        const confirmed = await hold(tier.eventId, 3);
+        await InventoryService.confirmHold(confirmed.id);
+        await expire(expired.id);
+        await expire(confirmed.id);
+
+        expect(await InventoryService.releaseExpiredHolds()).toBe(1);
+
+        expect(await find("ticketHold", expired.id)).toMatchObject({ status: "RELEASED" });
+        expect(await find("ticketHold", active.id)).toMatchObject({ status: "ACTIVE" });
+        expect(await find("ticketHold", confirmed.id)).toMatchObject({ status: "CONFIRMED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 5, heldSeats: 2, soldSeats: 3 });
+    });
+});
@@ -0,0 +1,310 @@
+import paymentProvider from "../config/payment.config";
+import { FakePaymentProvider } from "../providers/fake.provider";
+import { InventoryService } from "../services/inventory.service";
+import { NotificationService } from "../services/notification.service";
+import { PaymentService } from "../services/payment.service";
+import { TicketService } from "../services/ticket.service";
+import { fakePrisma } from "./fake-prisma";
+
+jest.mock("../config/prisma.config", () => ({ __esModule: true, default: jest.requireActual("./fake-prisma").fakePrisma }));
+jest.mock("../config/payment.config", () => {
+    const { FakePaymentProvider } = jest.requireActual("../providers/fake.provider");
+    return { __esModule: true, default: new FakePaymentProvider("test_secret") };
+});
+jest.mock("../config/logger.config", () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock("../services/notification.service", () => ({
+    NotificationService: { bookingConfirmed: jest.fn(), bookingCanceled: jest.fn(), paymentFailed: jest.fn() },
+}));
+jest.mock("../services/ticket.service", () => ({ TicketService: { issueTickets: jest.fn(), voidTickets: jest.fn() } }));
+jest.mock("../services/event.service", () => ({ EventService: { unpublishEvent: jest.fn() } }));
+
+const USER_ID = "00000000000000000000aaaa";
+const fakeProvider = paymentProvider as FakePaymentProvider;
+
+/**
+ * Set up an event with one tier and a pending booking holding some of its seats,
+ * the way a ticket checkout leaves them.
+ */
+const checkoutTickets = async (quantity = 2, totalSeats = 10) => {
+    const event = await fakePrisma.event.create({ data: { title: "Concert", date: new Date(Date.now() + 86400000) } });
+    const tier = await fakePrisma.ticketTier.create({
+        data: { eventId: event.id, seatType: "GENERAL", price: 500, totalSeats, availableSeats: totalSeats },
+    });
+
+    const hold = await InventoryService.createHold(event.id, "GENERAL", quantity, USER_ID);
+    if ("error" in hold) {
+        throw new Error(hold.error);
+    }
+
+    const order = await fakeProvider.createOrder({ amount: 500 * quantity, currency: "INR", receipt: "test" });
+    const payment = await fakePrisma.payment.create({
+        data: { userId: USER_ID, amount: 500 * quantity, paymentMethod: order.provider, providerOrderId: order.orderId },
+    });
+    const booking = await fakePrisma.ticketBooking.create({
+        data: { userId: USER_ID, eventId: event.id, tierId: tier.id, seatType: "GENERAL", ticketCount: quantity, paymentId: payment.id },
+    });
+    await fakePrisma.ticketHold.update({ where: { id: hold.id }, data: { ticketBookingId: booking.id } });
+
+    return { event, tier, hold, order, payment, booking };
+};
+
+const find = (model: string, id: string) => fakePrisma[model].findUnique({ where: { id } });
+
+beforeEach(() => {
+    fakePrisma.$reset();
+    jest.clearAllMocks();
+});
+
+describe("PaymentService.markCaptured", () => {
+    it("turns the held seats into sold seats and confirms the booking", async () => {
+        const { tier, hold, order, payment, booking, event } = await checkoutTickets();
+
+        const result = await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        expect(result.error).toBeUndefined();
+        expect(result.payment).toMatchObject({ status: "COMPLETED", providerPaymentId: "pay_1" });
+        expect(await find("ticketBooking", booking.id)).toMatchObject({ status: "CONFIRMED" });
+        expect(await find("ticketHold", hold.id)).toMatchObject({ status: "CONFIRMED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 8, heldSeats: 0, soldSeats: 2 });
+        expect(await find("event", event.id)).toMatchObject({ bookingCount: 1 });
+        expect(TicketService.issueTickets).toHaveBeenCalledWith(booking.id);
+        expect(NotificationService.bookingConfirmed).toHaveBeenCalledWith(payment.id);
+    });
+
+    it("leaves an already captured payment untouched", async () => {
+        const { tier, order } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        const result = await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        expect(result.alreadyProcessed).toBe(true);
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 8, soldSeats: 2 });
+        expect(TicketService.issueTickets).toHaveBeenCalledTimes(1);
+    });
+
+    it("refunds a capture that arrives after the booking was canceled", async () => {
+        const { tier, hold, order, payment, booking } = await checkoutTickets();
+        await fakePrisma.ticketBooking.update({ where: { id: booking.id }, data: { status: "CANCELED" } });
+        await InventoryService.releaseHold(hold.id);
+
+        const result = await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        expect(result.error).toMatch(/refunded/);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "REFUNDED", refundedAmount: 1000 });
+        expect(await find("ticketBooking", booking.id)).toMatchObject({ status: "CANCELED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 10, heldSeats: 0, soldSeats: 0 });
+        expect(fakePrisma.$rows("refund")).toEqual([
+            expect.objectContaining({ paymentId: payment.id, amount: 1000, status: "PROCESSED", ticketBookingId: booking.id }),
+        ]);
+        expect(TicketService.issueTickets).not.toHaveBeenCalled();
+    });
+
+    it("refunds a capture whose expired seats were taken by someone else", async () => {
+        const { tier, hold, order, payment, booking } = await checkoutTickets(2, 2);
+        await fakePrisma.ticketHold.update({ where: { id: hold.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+        await InventoryService.releaseExpiredHolds();
+        await InventoryService.createHold(tier.eventId, "GENERAL", 2, "00000000000000000000bbbb");
+
+        const result = await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        expect(result.error).toMatch(/refunded/);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "REFUNDED" });
+        expect(await find("ticketBooking", booking.id)).toMatchObject({ status: "CANCELED" });
+        expect(await find("ticketTier", tier.id)).toMatchObject({ availableSeats: 0, heldSeats: 2, soldSeats: 0 });
+    });
+
+    it("keeps the payment unfulfilled when its refund fails", async () => {
+        const { hold, order, payment, booking } = await checkoutTickets();
+        await fakePrisma.ticketBooking.update({ where: { id: booking.id }, data: { status: "CANCELED" } });
+        await InventoryService.releaseHold(hold.id);
+        jest.spyOn(fakeProvider, "refund").mockRejectedValueOnce(new Error("Provider unavailable"));
+
+        const result = await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        expect(result.error).toMatch(/will be refunded/);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "UNFULFILLED", providerPaymentId: "pay_1" });
+        expect(fakePrisma.$rows("refund")).toEqual([expect.objectContaining({ status: "FAILED", amount: 1000 })]);
+    });
+
+    it("refunds the payment of an order that was replaced by a newer checkout", async () => {
+        const order = await fakeProvider.createOrder({ amount: 3000, currency: "INR", receipt: "test" });
+        const payment = await fakePrisma.payment.create({
+            data: { userId: USER_ID, amount: 3000, paymentMethod: order.provider, providerOrderId: order.orderId, status: "FAILED" },
+        });
+
+        const result = await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        expect(result.error).toMatch(/refunded/);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "REFUNDED", refundedAmount: 3000 });
+    });
+});
+
+describe("PaymentService.confirmPayment", () => {
+    it("captures an order confirmed with the provider's signature", async () => {
+        const { order, payment } = await checkoutTickets();
+
+        const result = await PaymentService.confirmPayment(USER_ID, order.checkout as any);
+
+        expect(result.payment).toMatchObject({ id: payment.id, status: "COMPLETED" });
+    });
+
+    it("rejects a confirmation with a wrong signature", async () => {
+        const { order, payment } = await checkoutTickets();
+
+        const result = await PaymentService.confirmPayment(USER_ID, { ...(order.checkout as any), signature: "forged" });
+
+        expect(result.error).toBe("Invalid signature");
+        expect(await find("payment", payment.id)).toMatchObject({ status: "PENDING" });
+    });
+});
+
+describe("PaymentService.markFailed", () => {
+    it("fails a pending payment but still accepts a later capture", async () => {
+        const { order, payment, hold } = await checkoutTickets();
+
+        const failed = await PaymentService.markFailed(order.orderId, "pay_1", "Card declined");
+        expect(failed.payment).toMatchObject({ status: "FAILED" });
+        expect(await find("ticketHold", hold.id)).toMatchObject({ status: "ACTIVE" });
+        expect(NotificationService.paymentFailed).toHaveBeenCalledWith(payment.id);
+
+        const captured = await PaymentService.markCaptured(order.orderId, "pay_2");
+        expect(captured.payment).toMatchObject({ status: "COMPLETED", providerPaymentId: "pay_2", failureReason: null });
+    });
+
+    it("doesn't fail a payment that was already captured", async () => {
+        const { order, payment } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        const result = await PaymentService.markFailed(order.orderId, "pay_2");
+
+        expect(result.alreadyProcessed).toBe(true);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "COMPLETED" });
+    });
+});
+
+describe("PaymentService.refundPayment", () => {
+    const capturedPayment = () =>
+        fakePrisma.payment.create({
+            data: { userId: USER_ID, amount: 1000, paymentMethod: "FAKE", providerOrderId: "order_1", providerPaymentId: "pay_1", status: "COMPLETED" },
+        });
+
+    it("keeps a partially refunded payment completed until the rest is refunded", async () => {
+        const payment = await capturedPayment();
+
+        await PaymentService.refundPayment(payment.id, 400, "Partial refund", {});
+        expect(await find("payment", payment.id)).toMatchObject({ status: "COMPLETED", refundedAmount: 400 });
+
+        await PaymentService.refundPayment(payment.id, 600, "Rest of the refund", {});
+        expect(await find("payment", payment.id)).toMatchObject({ status: "REFUNDED", refundedAmount: 1000 });
+    });
+
+    it("refuses to refund more than what is left", async () => {
+        const payment = await capturedPayment();
+        await PaymentService.refundPayment(payment.id, 400, "Partial refund", {});
+
+        const result = await PaymentService.refundPayment(payment.id, 700, "Too much", {});
+
+        expect(result).toEqual({ error: "Invalid refund amount" });
+    });
+
+    it("refuses to refund a payment that wasn't captured", async () => {
+        const { payment } = await checkoutTickets();
+
+        const result = await PaymentService.refundPayment(payment.id, 100, "Not captured", {});
+
+        expect(result).toEqual({ error: "Payment has not been captured" });
+    });
+});
+
+describe("PaymentService.markRefunded", () => {
+    it("marks a payment refunded from the provider dashboard as refunded", async () => {
+        const { order, payment } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        const result = await PaymentService.markRefunded("pay_1", "rfnd_1", 1000);
+
+        expect(result.payment).toMatchObject({ status: "REFUNDED", refundedAmount: 1000 });
+        expect(await find("payment", payment.id)).toMatchObject({ status: "REFUNDED" });
+        expect(fakePrisma.$rows("refund")).toEqual([
+            expect.objectContaining({ amount: 1000, status: "PROCESSED", providerRefundId: "rfnd_1" }),
+        ]);
+    });
+
+    it("keeps a payment partially refunded from the provider dashboard completed", async () => {
+        const { order, payment } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+
+        await PaymentService.markRefunded("pay_1", "rfnd_1", 300);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "COMPLETED", refundedAmount: 300 });
+
+        await PaymentService.markRefunded("pay_1", "rfnd_2", 700);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "REFUNDED", refundedAmount: 1000 });
+    });
+
+    it("only processes the ledger entry of a partial refund issued through the API", async () => {
+        const { order, payment } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+        await fakePrisma.refund.create({
+            data: { paymentId: payment.id, userId: USER_ID, amount: 100, reason: "Partial", providerRefundId: "rfnd_1" },
+        });
+
+        await PaymentService.markRefunded("pay_1", "rfnd_1", 100);
+
+        expect(await find("payment", payment.id)).toMatchObject({ status: "COMPLETED" });
+        expect(fakePrisma.$rows("refund")).toEqual([expect.objectContaining({ status: "PROCESSED" })]);
+    });
+
+    it("leaves a partial refund the provider already processed untouched when its webhook arrives", async () => {
+        const { order, payment } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+        const refund = await PaymentService.refundPayment(payment.id, 400, "Partial refund", {});
+        if ("error" in refund) {
+            throw new Error(refund.error);
+        }
+
+        const result = await PaymentService.markRefunded("pay_1", refund.providerRefundId!, 400);
+
+        expect(result.alreadyProcessed).toBe(true);
+        expect(await find("payment", payment.id)).toMatchObject({ status: "COMPLETED", refundedAmount: 400 });
+        expect(fakePrisma.$rows("refund")).toHaveLength(1);
+    });
+
+    it("counts a partial refund once when its webhook arrives before the ledger entry", async () => {
+        const { order, payment } = await checkoutTickets();
+        await PaymentService.markCaptured(order.orderId, "pay_1");
+        jest.spyOn(fakeProvider, "refund").mockImplementationOnce(async () => {
+            await PaymentService.markRefunded("pay_1", "rfnd_1", 400);
+            return { refundId: "rfnd_1", status: "PROCESSED" };
+        });
+
+        await PaymentService.refundPayment(payment.id, 400, "Partial refund", {});
+
+        expect(await find("payment", payment.id)).toMatchObject({ status: "COMPLETED", refundedAmount: 400 });
+        expect(fakePrisma.$rows("refund")).toEqual([
+            expect.objectContaining({ amount: 400, reason: "Partial refund", providerRefundId: "rfnd_1" }),
+        ]);
+    });
+});
+
+describe("PaymentService.handleWebhookEvent", () => {
+    it("ignores a capture without a payment id", async () => {
+        const { order, payment } = await checkoutTickets();
+
+        const result = await PaymentService.handleWebhookEvent({ id: "evt_1", type: "payment.captured", orderId: order.orderId });
+
+        expect(result.handled).toBe(false);
+        expect(result.error).toBeDefined();
+        expect(await find("payment", payment.id)).toMatchObject({ status: "PENDING" });
+    });
+
+    it("skips a redelivered event", async () => {
+        const { order } = await checkoutTickets();
+        const event = { id: "evt_1", type: "payment.captured" as const, orderId: order.orderId, paymentId: "pay_1" };
+
+        expect(await PaymentService.handleWebhookEvent(event)).toEqual({ handled: true });
+        expect(await PaymentService.handleWebhookEvent(event)).toEqual({ handled: false, duplicate: true });
+    });
+});
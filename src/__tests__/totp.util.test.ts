@@ -0,0 +1,41 @@
+import { hotp, verifyTotp } from "../utils/totp.util";
+
+// Shared secret of the RFC 4226 and RFC 6238 test vectors, raw and base32 encoded
+const RFC_KEY = Buffer.from("12345678901234567890", "ascii");
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const at = (seconds: number): Date => new Date(seconds * 1000);
+
+describe("hotp", () => {
+    it("matches the RFC 4226 test vectors", () => {
+        const expected = ["755224", "287082", "359152", "969429", "338314", "254676", "287922", "162583", "399871", "520489"];
+
+        expect(expected.map((_, counter) => hotp(RFC_KEY, counter))).toEqual(expected);
+    });
+});
+
+describe("verifyTotp", () => {
+    // RFC 6238 SHA-1 vectors, cut to the six digits the app uses
+    it.each([
+        [59, "287082", 1],
+        [1111111109, "081804", 37037036],
+        [1111111111, "050471", 37037037],
+        [1234567890, "005924", 41152263],
+        [2000000000, "279037", 66666666],
+        [20000000000, "353130", 666666666],
+    ])("accepts the RFC 6238 code at %i seconds", (seconds, code, step) => {
+        expect(verifyTotp(RFC_SECRET, code, at(seconds))).toBe(step);
+    });
+
+    it("allows one time step of clock drift either way", () => {
+        expect(verifyTotp(RFC_SECRET, "081804", at(1111111109 + 30))).toBe(37037036);
+        expect(verifyTotp(RFC_SECRET, "081804", at(1111111109 - 30))).toBe(37037036);
+        expect(verifyTotp(RFC_SECRET, "081804", at(1111111109 + 60))).toBeNull();
+    });
+
+    it("ignores spaces and refuses codes that aren't six digits", () => {
+        expect(verifyTotp(RFC_SECRET, "081 804", at(1111111109))).toBe(37037036);
+        expect(verifyTotp(RFC_SECRET, "07081804", at(1111111109))).toBeNull();
+        expect(verifyTotp(RFC_SECRET, "abcdef", at(1111111109))).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+import { User } from "@prisma/client";
+import { TwoFactorService } from "../services/two-factor.service";
+import { encryptSecret } from "../utils/crypto.util";
+import { hotp } from "../utils/totp.util";
+import { fakePrisma } from "./fake-prisma";
+
+jest.mock("../config/prisma.config", () => ({ __esModule: true, default: jest.requireActual("./fake-prisma").fakePrisma }));
+jest.mock("../services/session.service", () => ({ SessionService: { revokeAll: jest.fn() } }));
+
+const KEY = Buffer.from("12345678901234567890", "ascii");
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// Time step of now and the code of a step, as the authenticator app shows them
+const currentStep = (): number => Math.floor(Date.now() / 1000 / 30);
+const codeAt = (step: number): string => hotp(KEY, step);
+
+/**
+ * Create a user in the middle of enrolling, with the secret stored but 2FA still off.
+ */
+const enrollingUser = async (): Promise<User> =>
+    await fakePrisma.user.create({
+        data: { name: "Asha", email: "asha@example.com", role: "USER", twoFactorSecret: encryptSecret(SECRET) },
+    });
+
+/**
+ * Create a user with 2FA enabled, along with their recovery codes.
+ */
+const enabledUser = async (): Promise<{ user: User; recoveryCodes: string[] }> => {
+    const { id } = await enrollingUser();
+    const enabled = await TwoFactorService.enable(id, codeAt(currentStep() - 1));
+    if ("error" in enabled) {
+        throw new Error(enabled.error);
+    }
+    return { user: await find(id), recoveryCodes: enabled.recoveryCodes };
+};
+
+// The service reads the user once per request, so each attempt gets a fresh copy
+const find = (id: string): Promise<User> => fakePrisma.user.findUnique({ where: { id } });
+
+beforeEach(() => {
+    fakePrisma.$reset();
+});
+
+describe("TwoFactorService.verifyLogin", () => {
+    it("accepts a code from the authenticator app once", async () => {
+        const { user } = await enabledUser();
+        const code = codeAt(currentStep());
+
+        expect(await TwoFactorService.verifyLogin(await find(user.id), code)).toBe(true);
+        expect(await TwoFactorService.verifyLogin(await find(user.id), code)).toBe(false);
+    });
+
+    it("refuses a code from an earlier time step than the last one used", async () => {
+        const { user } = await enabledUser();
+
+        expect(await TwoFactorService.verifyLogin(await find(user.id), codeAt(currentStep() + 1))).toBe(true);
+        expect(await TwoFactorService.verifyLogin(await find(user.id), codeAt(currentStep()))).toBe(false);
+    });
+
+    it("refuses the code of a time step that was used to enable 2FA", async () => {
+        const { user } = await enabledUser();
+
+        expect(await TwoFactorService.verifyLogin(await find(user.id), codeAt(currentStep() - 1))).toBe(false);
+    });
+
+    it("accepts a recovery code once", async () => {
+        const { user, recoveryCodes } = await enabledUser();
+
+        expect(await TwoFactorService.verifyLogin(await find(user.id), recoveryCodes[0])).toBe(true);
+        expect(await TwoFactorService.verifyLogin(await find(user.id), recoveryCodes[0])).toBe(false);
+        expect((await find(user.id)).twoFactorRecoveryCodes).toHaveLength(recoveryCodes.length - 1);
+    });
+
+    it("lets only one of two concurrent logins use the same recovery code", async () => {
+        const { user, recoveryCodes } = await enabledUser();
+        const loaded = await find(user.id);
+
+        const results = await Promise.all([
+            TwoFactorService.verifyLogin(loaded, recoveryCodes[0]),
+            TwoFactorService.verifyLogin(loaded, recoveryCodes[0]),
+        ]);
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it("accepts a recovery code regardless of case and dashes", async () => {
+        const { user, recoveryCodes } = await enabledUser();
+
+        expect(await TwoFactorService.verifyLogin(await find(user.id), recoveryCodes[1].replace("-", "").toUpperCase())).toBe(true);
+    });
+});
+
+describe("TwoFactorService.regenerateRecoveryCodes", () => {
+    it("doesn't accept a recovery code in place of a code from the app", async () => {
+        const { user, recoveryCodes } = await enabledUser();
+
+        const result = await TwoFactorService.regenerateRecoveryCodes(user.id, recoveryCodes[0]);
+
+        expect(result).toEqual({ error: "Invalid verification code" });
+        expect((await find(user.id)).twoFactorRecoveryCodes).toHaveLength(recoveryCodes.length);
+    });
+});
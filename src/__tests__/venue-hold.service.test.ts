@@ -0,0 +1,180 @@
+import { VenueHold } from "@prisma/client";
+import { DAY_MS } from "../utils/date.util";
+import { VenueHoldService } from "../services/venue-hold.service";
+import { fakePrisma } from "./fake-prisma";
+
+jest.mock("../config/prisma.config", () => ({ __esModule: true, default: jest.requireActual("./fake-prisma").fakePrisma }));
+jest.mock("../config/logger.config", () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const VENUE_ID = "00000000000000000000cccc";
+const USER_ID = "00000000000000000000aaaa";
+
+// Days from a fixed point in the future, at noon UTC
+const day = (offset: number): Date => new Date(Date.UTC(2030, 0, 10, 12) + offset * DAY_MS);
+
+const hold = async (startOffset: number, endOffset: number): Promise<VenueHold> => {
+    const created = await VenueHoldService.createHold(VENUE_ID, USER_ID, day(startOffset), day(endOffset));
+    if ("error" in created) {
+        throw new Error(created.error);
+    }
+    return created;
+};
+
+// Lets a hold run out without releasing it, as if the expiry job hadn't run yet
+const expire = async (holdId: string) => {
+    const expiresAt = new Date(Date.now() - 1000);
+    await fakePrisma.venueHold.update({ where: { id: holdId }, data: { expiresAt } });
+    await fakePrisma.venueReservedDay.updateMany({ where: { holdId }, data: { expiresAt } });
+};
+
+const find = (id: string) => fakePrisma.venueHold.findUnique({ where: { id } });
+const reservedDays = (holdId: string) => fakePrisma.$rows("venueReservedDay").filter((row: any) => row.holdId === holdId);
+
+beforeEach(() => {
+    fakePrisma.$reset();
+});
+
+describe("VenueHoldService.createHold", () => {
+    it("reserves every day of the period", async () => {
+        const created = await hold(0, 2);
+
+        expect(created).toMatchObject({ status: "ACTIVE", venueId: VENUE_ID });
+        expect(reservedDays(created.id)).toHaveLength(3);
+    });
+
+    it("refuses a period that overlaps another hold and keeps nothing of it", async () => {
+        await hold(0, 2);
+
+        const result = await VenueHoldService.createHold(VENUE_ID, USER_ID, day(2), day(4));
+
+        expect(result).toEqual({ error: "Venue is not available for the selected time slot" });
+        expect(fakePrisma.$rows("venueHold")).toHaveLength(1);
+        expect(fakePrisma.$rows("venueReservedDay")).toHaveLength(3);
+    });
+
+    it("takes the days of a hold that ran out", async () => {
+        const first = await hold(0, 2);
+        await expire(first.id);
+
+        const second = await hold(1, 3);
+
+        expect(reservedDays(second.id)).toHaveLength(3);
+        expect(reservedDays(first.id)).toHaveLength(1);
+    });
+
+    it("refuses a period that ends before it starts", async () => {
+        const result = await VenueHoldService.createHold(VENUE_ID, USER_ID, day(2), day(0));
+
+        expect(result).toEqual({ error: "Start date must be before end date" });
+    });
+
+    it("refuses a period longer than a booking can be", async () => {
+        const result = await VenueHoldService.createHold(VENUE_ID, USER_ID, day(0), day(366));
+
+        expect(result).toEqual({ error: "Bookings can cover at most 366 days" });
+        expect(fakePrisma.$rows("venueReservedDay")).toHaveLength(0);
+    });
+});
+
+describe("VenueHoldService.confirmHold", () => {
+    it("keeps the days for good once", async () => {
+        const created = await hold(0, 1);
+
+        expect(await VenueHoldService.confirmHold(created.id)).toEqual({ success: true });
+        expect(await VenueHoldService.confirmHold(created.id)).toEqual({ success: true });
+
+        expect(await find(created.id)).toMatchObject({ status: "CONFIRMED" });
+        expect(reservedDays(created.id)).toEqual([
+            expect.objectContaining({ expiresAt: null }),
+            expect.objectContaining({ expiresAt: null }),
+        ]);
+    });
+
+    it("takes back the days of a hold that ran out while they are still free", async () => {
+        const created = await hold(0, 1);
+        await expire(created.id);
+
+        expect(await VenueHoldService.confirmHold(created.id)).toEqual({ success: true });
+        expect(reservedDays(created.id)).toHaveLength(2);
+    });
+
+    it("fails and changes nothing when the days of a hold that ran out were taken", async () => {
+        const created = await hold(0, 1);
+        await expire(created.id);
+        const other = await hold(1, 2);
+
+        const result = await VenueHoldService.confirmHold(created.id);
+
+        expect(result).toEqual({ success: false, error: "Hold expired and the dates are no longer available" });
+        expect(await find(created.id)).toMatchObject({ status: "ACTIVE" });
+        expect(reservedDays(other.id)).toHaveLength(2);
+    });
+});
+
+describe("VenueHoldService.extendHold", () => {
+    it("moves the end of an active hold and of its days", async () => {
+        const created = await hold(0, 1);
+        const expiresAt = new Date(Date.now() + 2 * DAY_MS);
+
+        expect(await VenueHoldService.extendHold(created.id, expiresAt)).toBe(true);
+
+        expect(await find(created.id)).toMatchObject({ expiresAt });
+        expect(reservedDays(created.id).every((row: any) => row.expiresAt.getTime() === expiresAt.getTime())).toBe(true);
+    });
+
+    it("refuses to extend a hold that already ran out", async () => {
+        const created = await hold(0, 1);
+        await expire(created.id);
+
+        expect(await VenueHoldService.extendHold(created.id, new Date(Date.now() + DAY_MS))).toBe(false);
+    });
+});
+
+describe("VenueHoldService.releaseHold", () => {
+    it("frees the days of an active or confirmed hold once", async () => {
+        const active = await hold(0, 1);
+        const confirmed = await hold(3, 4);
+        await VenueHoldService.confirmHold(confirmed.id);
+
+        expect(await VenueHoldService.releaseHold(active.id)).toBe(true);
+        expect(await VenueHoldService.releaseHold(confirmed.id)).toBe(true);
+        expect(await VenueHoldService.releaseHold(active.id)).toBe(false);
+
+        expect(fakePrisma.$rows("venueReservedDay")).toHaveLength(0);
+    });
+});
+
+describe("VenueHoldService.releaseExpiredHolds", () => {
+    it("only releases active holds past their time limit", async () => {
+        const expired = await hold(0, 1);
+        const active = await hold(3, 4);
+        await expire(expired.id);
+
+        expect(await VenueHoldService.releaseExpiredHolds()).toBe(1);
+
+        expect(await find(expired.id)).toMatchObject({ status: "RELEASED" });
+        expect(await find(active.id)).toMatchObject({ status: "ACTIVE" });
+        expect(reservedDays(active.id)).toHaveLength(2);
+    });
+
+    it("skips holds that were paid or extended after they were listed", async () => {
+        const paid = await hold(0, 1);
+        const extended = await hold(3, 4);
+        await expire(paid.id);
+        await expire(extended.id);
+        const listed = await fakePrisma.venueHold.findMany({ where: {} });
+
+        await VenueHoldService.confirmHold(paid.id);
+        await fakePrisma.venueHold.update({ where: { id: extended.id }, data: { expiresAt: new Date(Date.now() + DAY_MS) } });
+        jest.spyOn(fakePrisma.venueHold, "findMany").mockResolvedValueOnce(listed);
+
+        expect(await VenueHoldService.releaseExpiredHolds()).toBe(0);
+
+        expect(await find(paid.id)).toMatchObject({ status: "CONFIRMED" });
+        expect(await find(extended.id)).toMatchObject({ status: "ACTIVE" });
+        expect(fakePrisma.$rows("venueReservedDay")).toHaveLength(4);
+    });
+});
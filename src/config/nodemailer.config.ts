@@ -1,26 +1,67 @@
 // config/nodemailer.config.ts
+import dotenv from "dotenv";
+import fs from "fs/promises";
 import nodemailer from "nodemailer";
+import StreamTransport from "nodemailer/lib/stream-transport";
+import path from "path";
+import logger from "./logger.config";
 
-const transporter = nodemailer.createTransport({
-    service: "gmail",
-    auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASSWORD,
-    },
-});
+dotenv.config();
 
-export const sendEmail = async (to: string, subject: string, text: string, html: string) => {
+export type EmailAttachment = {
+    filename: string;
+    content: Buffer;
+    contentType?: string;
+};
+
+// "mailbox" writes messages to MAILBOX_DIR as .eml files instead of sending them
+const emailTransport = process.env.EMAIL_TRANSPORT === "mailbox" ? "mailbox" : "smtp";
+const mailboxDir = path.resolve(process.env.MAILBOX_DIR || "mailbox");
+
+const transporter =
+    emailTransport === "mailbox"
+        ? nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" })
+        : nodemailer.createTransport({
+            host: process.env.SMTP_HOST || "smtp.gmail.com",
+            port: Number(process.env.SMTP_PORT || 465),
+            secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : Number(process.env.SMTP_PORT || 465) === 465,
+            auth: {
+                user: process.env.SMTP_USER || process.env.EMAIL_USER,
+                pass: process.env.SMTP_PASSWORD || process.env.EMAIL_PASSWORD,
+            },
+        });
+
+/**
+ * Send an email through the configured transport.
+ * @returns Message id assigned by the transport
+ */
+export const sendEmail = async (
+    to: string,
+    subject: string,
+    text: string,
+    html: string,
+    attachments: EmailAttachment[] = []
+): Promise<string> => {
     try {
-        await transporter.sendMail({
-            from: process.env.EMAIL_USER,
+        const info = await transporter.sendMail({
+            from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
             to,
             subject,
             text,
             html,
+            attachments,
         });
-        console.log("Email sent successfully");
+
+        if (emailTransport === "mailbox") {
+            await fs.mkdir(mailboxDir, { recursive: true });
+            const filename = `${Date.now()}-${info.messageId.replace(/[^a-zA-Z0-9.@-]/g, "")}.eml`;
+            await fs.writeFile(path.join(mailboxDir, filename), (info as StreamTransport.SentMessageInfo).message as Buffer);
+        }
+
+        logger.info(`Email "${subject}" sent to ${to}`);
+        return info.messageId;
     } catch (error) {
-        console.error("Error sending email:", error);
+        logger.error(`Error sending email: ${error instanceof Error ? error.message : error}`);
         throw new Error("Failed to send email");
     }
-};
\ No newline at end of file
+};
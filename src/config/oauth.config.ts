@@ -0,0 +1,46 @@
+import dotenv from "dotenv";
+import { GitHubOAuthProvider } from "../providers/github.provider";
+import { GoogleOAuthProvider } from "../providers/google.provider";
+import { OAuthProvider } from "../providers/oauth.provider";
+
+dotenv.config();
+
+const createOAuthProviders = (): Record<string, OAuthProvider> => {
+    const providers: Record<string, OAuthProvider> = {};
+
+    if (process.env.GOOGLE_CLIENT_ID) {
+        providers.google = new GoogleOAuthProvider(
+            process.env.GOOGLE_CLIENT_ID,
+            process.env.GOOGLE_CLIENT_SECRET!,
+            process.env.GOOGLE_OAUTH_URL,
+        );
+    }
+    if (process.env.GITHUB_CLIENT_ID) {
+        providers.github = new GitHubOAuthProvider(
+            process.env.GITHUB_CLIENT_ID,
+            process.env.GITHUB_CLIENT_SECRET!,
+            process.env.GITHUB_OAUTH_URL,
+        );
+    }
+
+    return providers;
+};
+
+const oauthProviders = createOAuthProviders();
+
+/**
+ * Get a configured OAuth provider by the name used in the URL, e.g. "google".
+ * @param name - Provider name
+ * @returns The provider, or null if it is unknown or not configured
+ */
+export const getOAuthProvider = (name: string): OAuthProvider | null => {
+    return Object.prototype.hasOwnProperty.call(oauthProviders, name) ? oauthProviders[name] : null;
+};
+
+/**
+ * Callback URL registered with the providers, e.g. http://localhost:3000/api/auth/oauth/google/callback.
+ * @param name - Provider name
+ * @returns Callback URL
+ */
+export const getOAuthRedirectUri = (name: string): string =>
+    `${process.env.SERVER_URL || `http://localhost:${process.env.SERVER_PORT || 3000}`}/api/auth/oauth/${name}/callback`;
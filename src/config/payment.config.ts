@@ -0,0 +1,40 @@
+import dotenv from "dotenv";
+import logger from "./logger.config";
+import { FakePaymentProvider } from "../providers/fake.provider";
+import { PaymentProvider } from "../providers/payment.provider";
+import { RazorpayProvider } from "../providers/razorpay.provider";
+import { StripeProvider } from "../providers/stripe.provider";
+
+dotenv.config();
+
+const createPaymentProvider = (): PaymentProvider => {
+    switch ((process.env.PAYMENT_PROVIDER || "razorpay").toLowerCase()) {
+        case "stripe":
+            return new StripeProvider(
+                process.env.STRIPE_SECRET_KEY!,
+                process.env.STRIPE_PUBLISHABLE_KEY!,
+                process.env.STRIPE_WEBHOOK_SECRET!,
+                process.env.STRIPE_API_URL,
+            );
+        case "fake":
+            // The fake provider confirms payments without charging anyone
+            if (process.env.NODE_ENV === "production") {
+                throw new Error("The fake payment provider can't be used in production");
+            }
+            if (!process.env.FAKE_PAYMENT_SECRET) {
+                throw new Error("FAKE_PAYMENT_SECRET must be set to use the fake payment provider");
+            }
+            return new FakePaymentProvider(process.env.FAKE_PAYMENT_SECRET);
+        default:
+            return new RazorpayProvider(
+                process.env.RAZORPAY_KEY_ID!,
+                process.env.RAZORPAY_KEY_SECRET!,
+                process.env.RAZORPAY_WEBHOOK_SECRET!,
+            );
+    }
+};
+
+const paymentProvider = createPaymentProvider();
+logger.info(`Using ${paymentProvider.name} payment provider`);
+
+export default paymentProvider;
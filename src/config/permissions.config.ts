@@ -0,0 +1,117 @@
+// config/permissions.config.ts
+import { UserRole } from "@prisma/client";
+
+export type Permission =
+    | "events:create"
+    | "events:update"
+    | "events:delete"
+    | "events:check-in"
+    | "events:view-organizer"
+    | "tickets:book"
+    | "venues:create"
+    | "venues:update"
+    | "venues:delete"
+    | "venues:book"
+    | "bookings:view"
+    | "bookings:cancel"
+    | "users:manage";
+
+/**
+ * "any" grants the permission on every resource, "own" only on resources the user
+ * owns (events they organize, venues they own, bookings they made).
+ */
+export type PermissionScope = "any" | "own";
+
+const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+    ADMIN: {
+        "events:create": "any",
+        "events:update": "any",
+        "events:delete": "any",
+        "events:check-in": "any",
+        "events:view-organizer": "any",
+        "tickets:book": "own",
+        "venues:create": "any",
+        "venues:update": "any",
+        "venues:delete": "any",
+        "bookings:view": "any",
+        "bookings:cancel": "any",
+        "users:manage": "any",
+    },
+    ORGANIZER: {
+        "events:create": "own",
+        "events:update": "own",
+        "events:delete": "own",
+        "events:check-in": "own",
+        "events:view-organizer": "own",
+        "tickets:book": "own",
+        "venues:book": "own",
+        "bookings:view": "own",
+        "bookings:cancel": "own",
+    },
+    VENUE_OWNER: {
+        "venues:create": "own",
+        "venues:update": "own",
+        "venues:delete": "own",
+        "tickets:book": "own",
+        "venues:book": "own",
+        "bookings:view": "own",
+        "bookings:cancel": "own",
+    },
+    USER: {
+        // Events created through a venue booking belong to the user who booked it
+        "events:update": "own",
+        "events:check-in": "own",
+        "events:view-organizer": "own",
+        "tickets:book": "own",
+        "venues:book": "own",
+        "bookings:view": "own",
+        "bookings:cancel": "own",
+    },
+};
+
+/**
+ * Look up how far a role's permission reaches.
+ * @param role - User role
+ * @param permission - Permission to check
+ * @returns Scope of the permission, or null if the role doesn't have it
+ */
+export const getPermissionScope = (role: string, permission: Permission): PermissionScope | null => {
+    return ROLE_PERMISSIONS[role as UserRole]?.[permission] ?? null;
+};
+
+/**
+ * Check whether a role has a permission, on at least its own resources.
+ * @param role - User role
+ * @param permission - Permission to check
+ * @returns Whether the role has the permission
+ */
+export const hasPermission = (role: string, permission: Permission): boolean => {
+    return getPermissionScope(role, permission) !== null;
+};
+
+/**
+ * Check whether a user may act on a specific resource.
+ * @param user - Logged in user
+ * @param permission - Permission to check
+ * @param ownerId - Owner of the resource (organizer, venue owner or booker), if any
+ * @returns Whether the user has the permission on the resource
+ */
+export const canAccess = (
+    user: { id: string; role: string },
+    permission: Permission,
+    ownerId: string | null | undefined
+): boolean => {
+    const scope = getPermissionScope(user.role, permission);
+    return scope === "any" || (scope === "own" && !!ownerId && ownerId === user.id);
+};
+
+/**
+ * Whether accounts of a role must use two-factor authentication. Roles are listed in
+ * TWO_FACTOR_REQUIRED_ROLES (comma separated), by default only ADMIN.
+ * @param role - User role
+ * @returns Whether the role requires two-factor authentication
+ */
+export const isTwoFactorRequired = (role: string): boolean => {
+    const roles = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "ADMIN").split(",").map((value) => value.trim().toUpperCase());
+    return roles.includes(role);
+};
@@ -0,0 +1,125 @@
+import { UserRole } from "@prisma/client";
+import { Request, Response } from "express";
+import { ApiResponse } from "../../types";
+import logger from "../config/logger.config";
+import { UserService } from "../services/user.service";
+import { isValidObjectId } from "../utils/other.util";
+
+const USER_ROLES: string[] = Object.values(UserRole);
+
+const AdminController = {
+    /**
+     * List users, optionally filtered by role.
+     * @param req - Request containing the role filter and pagination in the query
+     * @param res - Response to send the paginated users
+     * @returns Response with users or error
+     */
+    listUsers: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { role, page = 1, limit = 20 } = req.query;
+
+            const parsedRole = role ? (role as string).toUpperCase() : undefined;
+            const parsedPage = parseInt(page as string, 10);
+            const parsedLimit = parseInt(limit as string, 10);
+
+            if (
+                (parsedRole && !USER_ROLES.includes(parsedRole)) ||
+                !(parsedPage > 0) ||
+                !(parsedLimit > 0 && parsedLimit <= 100)
+            ) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Invalid user filters",
+                };
+                return res.status(400).json(response);
+            }
+
+            const result = await UserService.listUsers(parsedRole as UserRole | undefined, parsedPage, parsedLimit);
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Users fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Assign a role to a user.
+     * @param req - Request containing the user ID and the new role
+     * @param res - Response to send the updated user
+     * @returns Response with the updated user or error
+     */
+    updateUserRole: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { userId } = req.params;
+
+            if (!isValidObjectId(userId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "User not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await UserService.updateRole(req.user!.id, userId, req.body.role);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "User not found" ? 404 : 400).json(response);
+            }
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "User role updated successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+};
+
+export default AdminController;
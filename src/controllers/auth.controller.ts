@@ -1,8 +1,86 @@
-import { Request, Response } from "express";
+import { CookieOptions, Request, Response } from "express";
 import { AuthService } from "../services/auth.service";
+import { getSessionLifetime, SessionService, SessionSummary } from "../services/session.service";
+import { TwoFactorService, TwoFactorSetup } from "../services/two-factor.service";
 import logger from "../config/logger.config";
+import { getOAuthProvider, getOAuthRedirectUri } from "../config/oauth.config";
+import { generateOpaqueToken, safeCompareSignature } from "../utils/crypto.util";
+import { getClientInfo } from "../utils/other.util";
 import { ApiResponse } from "../../types";
 
+const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+// The refresh token cookie is only sent to the auth routes and can't be read by scripts
+const refreshTokenCookieOptions: CookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+    path: "/api/auth",
+};
+
+const OAUTH_STATE_COOKIE = "oauthState";
+const OAUTH_STATE_LIFETIME_MS = 10 * 60 * 1000;
+
+// Lax so that the cookie is sent when the provider redirects back to the callback
+const oauthStateCookieOptions: CookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/api/auth/oauth",
+};
+
+/**
+ * Whether the client asked for the refresh token in the response body, with the
+ * X-Refresh-Token-Delivery: body header. Only clients that can't use cookies need it;
+ * browsers get it as an HTTP-only cookie that scripts can't read.
+ */
+const wantsRefreshTokenInBody = (req: Request): boolean => req.get("x-refresh-token-delivery") === "body";
+
+/**
+ * Send a new session to the client. The refresh token is set as an HTTP-only cookie
+ * and only returned in the body when the client opts in.
+ */
+const sendSession = (
+    req: Request,
+    res: Response,
+    session: { loggedInUser: object; token: string; refreshToken: string },
+    message: string
+) => {
+    const { loggedInUser, token, refreshToken } = session;
+    const response: ApiResponse<{ user: object; token: string; refreshToken?: string }> = {
+        timestamp: Date.now(),
+        success: true,
+        data: { user: loggedInUser, token, ...(wantsRefreshTokenInBody(req) ? { refreshToken } : {}) },
+        message,
+        error: "",
+    };
+
+    return res
+        .cookie(REFRESH_TOKEN_COOKIE, refreshToken, { ...refreshTokenCookieOptions, maxAge: getSessionLifetime() })
+        .status(200)
+        .json(response);
+};
+
+/**
+ * Send a failed login. Attempts refused by the brute-force protection get a 429 with
+ * the time to wait in the Retry-After header.
+ */
+const sendLoginError = (res: Response, result: { error: string; retryAfter?: number }) => {
+    logger.error(result.error);
+    const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: "",
+        error: result.error,
+    };
+
+    if (result.retryAfter) {
+        return res.set("Retry-After", String(result.retryAfter)).status(429).json(response);
+    }
+    return res.status(401).json(response);
+};
+
 const AuthController = {
     /**
      * Registers a new user.
@@ -47,14 +125,14 @@ const AuthController = {
 
     /**
      * Registers a new user.
-     * @param req - Request containing the user's name, email, password, and role
+     * @param req - Request containing the user's name, email and password
      * @param res - Response to send the result
      * @returns Response with success or error
      */
     register: async (req: Request, res: Response): Promise<any> => {
         try {
-            const { name, email, password, role, preferences } = req.body;
-            const result = await AuthService.register(name, email, password, role, preferences);
+            const { name, email, password, preferences } = req.body;
+            const result = await AuthService.register(name, email, password, preferences);
 
             const response: ApiResponse<null> = {
                 timestamp: Date.now(),
@@ -87,33 +165,411 @@ const AuthController = {
     },
 
     /**
-     * Authenticates a user and returns a JWT token.
+     * Authenticates a user and returns an access token. The refresh token is set as an
+     * HTTP-only cookie and also returned for clients that can't use cookies.
+     * Users with two-factor authentication get a challenge token instead, to be sent
+     * with their code to /login/2fa.
      * @param req - Request containing the user's email and password
-     * @param res - Response to send the token or error
-     * @returns Response with token or error
+     * @param res - Response to send the tokens or error
+     * @returns Response with tokens or error
      */
     login: async (req: Request, res: Response): Promise<any> => {
         try {
             const { email, password } = req.body;
-            const { loggedInUser, token, error } = await AuthService.login(email, password);
+            const result = await AuthService.login(email, password, getClientInfo(req));
+
+            if (result.error !== null) {
+                return sendLoginError(res, result);
+            }
+
+            if ("challengeToken" in result) {
+                const response: ApiResponse<{ twoFactorRequired: true; challengeToken: string }> = {
+                    timestamp: Date.now(),
+                    success: true,
+                    data: { twoFactorRequired: true, challengeToken: result.challengeToken },
+                    message: "Two-factor authentication required",
+                    error: "",
+                };
+                return res.status(200).json(response);
+            }
+
+            logger.info("Login successful");
+            sendSession(req, res, result, "Login successful");
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
 
             const response: ApiResponse<null> = {
                 timestamp: Date.now(),
-                success: !error,
+                success: false,
                 data: null,
-                message: error ? "" : "Login successful",
-                error: error || "",
+                message: "",
+                error: "Server error",
             };
 
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Starts signing in with an OAuth provider by redirecting to its consent page.
+     * A random state is kept in a short-lived cookie and checked on the callback.
+     * @param req - Request containing the provider name
+     * @param res - Response redirecting to the provider
+     * @returns Redirect or error
+     */
+    oauthLogin: async (req: Request, res: Response): Promise<any> => {
+        const providerName = req.params.provider;
+        const provider = getOAuthProvider(providerName);
+
+        if (!provider) {
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Unsupported sign-in provider",
+            };
+            return res.status(404).json(response);
+        }
+
+        const state = generateOpaqueToken(24);
+
+        res
+            .cookie(OAUTH_STATE_COOKIE, state, { ...oauthStateCookieOptions, maxAge: OAUTH_STATE_LIFETIME_MS })
+            .redirect(provider.getAuthorizationUrl(state, getOAuthRedirectUri(providerName)));
+    },
+
+    /**
+     * Completes signing in with an OAuth provider. The refresh token is set as an
+     * HTTP-only cookie and the user is sent back to the client, which gets an access
+     * token from /refresh. Users with two-factor authentication are sent back with a
+     * challenge token instead. Errors are passed to the client in the error query parameter.
+     * @param req - Request containing the authorization code and state from the provider
+     * @param res - Response redirecting to the client
+     * @returns Redirect to the client
+     */
+    oauthCallback: async (req: Request, res: Response): Promise<any> => {
+        const providerName = req.params.provider;
+        const provider = getOAuthProvider(providerName);
+        const clientUrl = `${process.env.CLIENT_ORIGIN}/oauth/callback`;
+        const fail = (error: string) => {
+            logger.error(error);
+            return res
+                .clearCookie(OAUTH_STATE_COOKIE, oauthStateCookieOptions)
+                .redirect(`${clientUrl}?${new URLSearchParams({ error }).toString()}`);
+        };
+
+        try {
+            const { code, state, error } = req.query;
+
+            if (!provider) {
+                return fail("Unsupported sign-in provider");
+            }
             if (error) {
-                logger.error(error);
-                return res.status(401).json(response);
+                return fail("Sign-in was canceled");
+            }
+            if (typeof code !== "string" || typeof state !== "string" || !state ||
+                !safeCompareSignature(req.cookies?.[OAUTH_STATE_COOKIE] || "", state)) {
+                return fail("Invalid or expired sign-in request");
+            }
+
+            const profile = await provider.getProfile(code, getOAuthRedirectUri(providerName));
+            const result = await AuthService.oauthLogin(provider, profile, getClientInfo(req));
+
+            if (result.error !== null) {
+                return fail(result.error);
+            }
+
+            // The client completes the login with the challenge token and a 2FA code
+            if ("challengeToken" in result) {
+                return res
+                    .clearCookie(OAUTH_STATE_COOKIE, oauthStateCookieOptions)
+                    .redirect(`${clientUrl}?${new URLSearchParams({ challengeToken: result.challengeToken }).toString()}`);
+            }
+
+            logger.info(`Login with ${provider.name} successful`);
+            res
+                .clearCookie(OAUTH_STATE_COOKIE, oauthStateCookieOptions)
+                .cookie(REFRESH_TOKEN_COOKIE, result.refreshToken, { ...refreshTokenCookieOptions, maxAge: getSessionLifetime() })
+                .redirect(clientUrl);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+            return fail("Sign-in failed, please try again");
+        }
+    },
+
+    /**
+     * Completes the login of a user with two-factor authentication.
+     * @param req - Request containing the challenge token and a TOTP or recovery code
+     * @param res - Response to send the tokens or error
+     * @returns Response with tokens or error
+     */
+    verifyTwoFactorLogin: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { challengeToken, code } = req.body;
+            const result = await AuthService.verifyTwoFactorLogin(challengeToken, code, getClientInfo(req));
+
+            if (result.error !== null) {
+                return sendLoginError(res, result);
             }
 
             logger.info("Login successful");
+            sendSession(req, res, result, "Login successful");
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Starts enrolling the logged in user in two-factor authentication.
+     * @param req - Request of the logged in user
+     * @param res - Response to send the secret and its QR code
+     * @returns Response with the secret, otpauth URL and QR code, or error
+     */
+    setupTwoFactor: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const result = await TwoFactorService.setup(req.user!.id);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(400).json(response);
+            }
+
+            const response: ApiResponse<TwoFactorSetup> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Scan the QR code with your authenticator app and confirm a code to enable two-factor authentication",
+                error: "",
+            };
+
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Enables two-factor authentication once the user confirms a code from their app.
+     * Other sessions of the user are logged out.
+     * @param req - Request containing a code from the authenticator app
+     * @param res - Response to send the recovery codes
+     * @returns Response with recovery codes or error
+     */
+    enableTwoFactor: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const result = await TwoFactorService.enable(req.user!.id, req.body.code, req.user!.sessionId);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(400).json(response);
+            }
+
+            const response: ApiResponse<{ recoveryCodes: string[] }> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Two-factor authentication enabled. Store your recovery codes somewhere safe",
+                error: "",
+            };
+
+            logger.info("Two-factor authentication enabled");
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Disables two-factor authentication, unless the user's role requires it.
+     * @param req - Request containing a code from the authenticator app or a recovery code
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    disableTwoFactor: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const result = await TwoFactorService.disable(req.user!.id, req.body.code);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(400).json(response);
+            }
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: "Two-factor authentication disabled",
+                error: "",
+            };
+
+            logger.info("Two-factor authentication disabled");
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Replaces the recovery codes of the logged in user.
+     * @param req - Request containing a code from the authenticator app
+     * @param res - Response to send the new recovery codes
+     * @returns Response with recovery codes or error
+     */
+    regenerateRecoveryCodes: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const result = await TwoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(400).json(response);
+            }
+
+            const response: ApiResponse<{ recoveryCodes: string[] }> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Recovery codes regenerated",
+                error: "",
+            };
+
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Exchanges a refresh token for a new access token, rotating the refresh token.
+     * @param req - Request carrying the refresh token in a cookie or the body
+     * @param res - Response to send the new tokens
+     * @returns Response with tokens or error
+     */
+    refresh: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE] || req.body?.refreshToken;
+
+            if (!refreshToken) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Refresh token is required",
+                };
+                return res.status(401).json(response);
+            }
+
+            const result = await SessionService.refresh(refreshToken, getClientInfo(req));
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res
+                    .clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions)
+                    .status(401)
+                    .json(response);
+            }
+
+            const response: ApiResponse<{ token: string; refreshToken?: string }> = {
+                timestamp: Date.now(),
+                success: true,
+                data: {
+                    token: result.accessToken,
+                    ...(wantsRefreshTokenInBody(req) ? { refreshToken: result.refreshToken } : {}),
+                },
+                message: "Token refreshed successfully",
+                error: "",
+            };
+
             res
+                .cookie(REFRESH_TOKEN_COOKIE, result.refreshToken, { ...refreshTokenCookieOptions, maxAge: getSessionLifetime() })
                 .status(200)
-                .json({ ...response, data: { user: loggedInUser, token } });
+                .json(response);
         } catch (err) {
             logger.error(err instanceof Error ? err.message : "Server error");
 
@@ -130,16 +586,17 @@ const AuthController = {
     },
 
     /**
-     * Logs out a user by deleting the refresh token.
-     * @param req - Request containing the user's ID
+     * Logs out a user by revoking the current session.
+     * @param req - Request containing the user's ID and session
      * @param res - Response to send the result
      * @returns Response with success or error
      */
     logout: async (req: Request, res: Response): Promise<any> => {
         try {
             const userId = req.user?.id;
+            const sessionId = req.user?.sessionId;
 
-            if (!userId) {
+            if (!userId || !sessionId) {
                 const response: ApiResponse<null> = {
                     timestamp: Date.now(),
                     success: false,
@@ -150,7 +607,7 @@ const AuthController = {
                 return res.status(400).json(response);
             }
 
-            const { success, error } = await AuthService.logout(userId);
+            const { success, error } = await AuthService.logout(userId, sessionId);
 
             const response: ApiResponse<null> = {
                 timestamp: Date.now(),
@@ -167,6 +624,7 @@ const AuthController = {
 
             logger.info("Logged out successfully");
             res
+                .clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions)
                 .status(200)
                 .json(response);
         } catch (err) {
@@ -185,21 +643,132 @@ const AuthController = {
     },
 
     /**
- * Handles forgot password requests.
- * @param req - Request containing the user's email
- * @param res - Response to send the result
- * @returns Response with success or error
- */
-    forgotPassword: async (req: Request, res: Response): Promise<any> => {
+     * Logs a user out of every device.
+     * @param req - Request containing the user's ID
+     * @param res - Response to send the result
+     * @returns Response with the number of ended sessions
+     */
+    logoutAll: async (req: Request, res: Response): Promise<any> => {
         try {
-            const { email } = req.body;
-            const { success, error } = await AuthService.forgotPassword(email);
+            const { revoked } = await AuthService.logoutAll(req.user!.id);
+
+            const response: ApiResponse<{ revoked: number }> = {
+                timestamp: Date.now(),
+                success: true,
+                data: { revoked },
+                message: "Logged out of all devices",
+                error: "",
+            };
+
+            logger.info("Logged out of all devices");
+            res
+                .clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions)
+                .status(200)
+                .json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Lists the active sessions of the logged in user.
+     * @param req - Request containing the user's ID and session
+     * @param res - Response to send the sessions
+     * @returns Response with sessions or error
+     */
+    getSessions: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const sessions = await SessionService.listSessions(req.user!.id, req.user!.sessionId);
+
+            const response: ApiResponse<SessionSummary[]> = {
+                timestamp: Date.now(),
+                success: true,
+                data: sessions,
+                message: "Sessions fetched successfully",
+                error: "",
+            };
+
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Ends one of the logged in user's sessions, e.g. a device they no longer use.
+     * @param req - Request containing the session ID
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    revokeSession: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const revoked = await SessionService.revoke(req.user!.id, req.params.sessionId);
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: revoked,
+                data: null,
+                message: revoked ? "Session revoked successfully" : "",
+                error: revoked ? "" : "Session not found",
+            };
+
+            if (!revoked) {
+                logger.error("Session not found");
+                return res.status(404).json(response);
+            }
+
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Unlocks an account that was locked after too many failed logins.
+     * @param req - Request containing the unlock token
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    unlockAccount: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { token } = req.body;
+            const { success, error } = await AuthService.unlockAccount(token, getClientInfo(req));
 
             const response: ApiResponse<null> = {
                 timestamp: Date.now(),
                 success: !!success,
                 data: null,
-                message: success ? "Password reset email sent" : "",
+                message: success ? "Account unlocked successfully" : "",
                 error: error || "",
             };
 
@@ -208,7 +777,123 @@ const AuthController = {
                 return res.status(400).json(response);
             }
 
-            logger.info("Password reset email sent. Please check your email.");
+            logger.info("Account unlocked successfully");
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Verifies a user's email address.
+     * @param req - Request containing the verification token
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    verifyEmail: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { token } = req.body;
+            const { success, error } = await AuthService.verifyEmail(token);
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: !!success,
+                data: null,
+                message: success ? "Email verified successfully" : "",
+                error: error || "",
+            };
+
+            if (error) {
+                logger.error(error);
+                return res.status(400).json(response);
+            }
+
+            logger.info("Email verified successfully");
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Sends a new email verification link.
+     * @param req - Request containing the user's email
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    resendVerificationEmail: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { email } = req.body;
+            const { success, error } = await AuthService.resendVerificationEmail(email);
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: !!success,
+                data: null,
+                message: success ? "If the account exists and isn't verified yet, a verification email is on its way" : "",
+                error: error || "",
+            };
+
+            if (error) {
+                logger.error(error);
+                return res.status(429).json(response);
+            }
+
+            res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            res.status(500).json(response);
+        }
+    },
+
+    /**
+ * Handles forgot password requests.
+ * @param req - Request containing the user's email
+ * @param res - Response to send the result
+ * @returns Response with success or error
+ */
+    forgotPassword: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { email } = req.body;
+            await AuthService.forgotPassword(email);
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: "If an account uses this email, a password reset link has been sent to it",
+                error: "",
+            };
+
             res.status(200).json(response);
         } catch (err) {
             logger.error(err instanceof Error ? err.message : "Server error");
@@ -0,0 +1,207 @@
+import { BookingStatus } from "@prisma/client";
+import { Request, Response } from "express";
+import { ApiResponse } from "../../types";
+import logger from "../config/logger.config";
+import { BookingService, BookingSummary, BookingType } from "../services/booking.service";
+import { DocumentService, PdfDocument } from "../services/document.service";
+import { isValidObjectId } from "../utils/other.util";
+
+const BOOKING_STATUSES: string[] = Object.values(BookingStatus);
+const BOOKING_TYPES = ["TICKET", "VENUE"];
+
+/**
+ * Send a generated PDF as a download, or the error that prevented generating it.
+ */
+const sendPdf = (res: Response, result: PdfDocument | { error: string }) => {
+    if ('error' in result) {
+        const response: ApiResponse<null> = {
+            timestamp: Date.now(),
+            success: false,
+            data: null,
+            message: "",
+            error: result.error,
+        };
+        logger.error(result.error);
+        return res.status(result.error === "Booking not found" ? 404 : 409).json(response);
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${result.filename}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.status(200).send(result.content);
+};
+
+const BookingController = {
+    /**
+     * Get the bookings of the logged in user.
+     * @param req - Request containing filters and pagination in the query
+     * @param res - Response to send the paginated bookings
+     * @returns Response with bookings or error
+     */
+    getMyBookings: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { status, type, when, page = 1, limit = 10 } = req.query;
+
+            const parsedStatus = status ? (status as string).toUpperCase() : undefined;
+            const parsedType = type ? (type as string).toUpperCase() : undefined;
+            const parsedPage = parseInt(page as string, 10);
+            const parsedLimit = parseInt(limit as string, 10);
+
+            if (
+                (parsedStatus && !BOOKING_STATUSES.includes(parsedStatus)) ||
+                (parsedType && !BOOKING_TYPES.includes(parsedType)) ||
+                (when && when !== "upcoming" && when !== "past") ||
+                !(parsedPage > 0) ||
+                !(parsedLimit > 0 && parsedLimit <= 50)
+            ) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Invalid booking filters",
+                };
+                return res.status(400).json(response);
+            }
+
+            const result = await BookingService.getUserBookings(
+                req.user!.id,
+                {
+                    status: parsedStatus as BookingStatus | undefined,
+                    type: parsedType as BookingType | undefined,
+                    when: when as "upcoming" | "past" | undefined,
+                },
+                parsedPage,
+                parsedLimit
+            );
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Bookings fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Get a booking by ID. Only the booker or an admin can view it.
+     * @param req - Request containing the booking ID
+     * @param res - Response with booking data
+     * @returns Response with booking data or error
+     */
+    getBookingById: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const bookingId = req.params.bookingId;
+            const booking = isValidObjectId(bookingId) ? await BookingService.getBookingById(bookingId) : null;
+
+            if (!booking) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Booking not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const response: ApiResponse<BookingSummary> = {
+                timestamp: Date.now(),
+                success: true,
+                data: booking,
+                message: "Booking fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Download the e-tickets of a ticket booking as a PDF.
+     * @param req - Request containing the booking ID
+     * @param res - Response with the PDF
+     * @returns PDF download or error
+     */
+    downloadTickets: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const bookingId = req.params.bookingId;
+            const result = isValidObjectId(bookingId)
+                ? await DocumentService.getTicketsPdf(bookingId, req.user!)
+                : { error: "Booking not found" };
+
+            return sendPdf(res, result);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Download the tax invoice of a venue booking as a PDF.
+     * @param req - Request containing the booking ID
+     * @param res - Response with the PDF
+     * @returns PDF download or error
+     */
+    downloadInvoice: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const bookingId = req.params.bookingId;
+            const result = isValidObjectId(bookingId)
+                ? await DocumentService.getVenueInvoicePdf(bookingId, req.user!)
+                : { error: "Booking not found" };
+
+            return sendPdf(res, result);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+};
+
+export default BookingController;
@@ -1,7 +1,9 @@
 import { Request, Response } from "express";
 import { ApiResponse, Event } from "../../types";
 import logger from "../config/logger.config";
-import { EventService } from "../services/event.service";
+import { EventSearchResult, EventService } from "../services/event.service";
+import { RecommendationService, RecommendedEvent } from "../services/recommendation.service";
+import { searchEventsSchema } from "../validations/event.validation";
 import path from "path";
 
 const EventController = {
@@ -13,7 +15,7 @@ const EventController = {
      */
     createEvent: async (req: Request, res: Response): Promise<any> => {
         try {
-            const { title, description, category, date, isPublic, venueId, ticketPrices } = req.body;
+            const { title, description, category, date, isPublic, venueId, ticketPrices, ticketFees, cancellationPolicy } = req.body;
             const organizerId = req.user?.id;
 
             const image = req.file;
@@ -46,6 +48,8 @@ const EventController = {
                 ticketPrices,
                 venueId,
                 imageUrl,
+                ticketFees,
+                cancellationPolicy,
             );
 
             if ('error' in result) {
@@ -254,6 +258,128 @@ const EventController = {
         }
     },
 
+    /**
+     * Search public events by keyword with filters, sorting and cursor pagination.
+     * @param req - Request containing the search, filters, sort order and cursor in the query
+     * @param res - Response to send the page of events
+     * @returns Response with events and the next cursor or error
+     */
+    searchEvents: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const parsed = searchEventsSchema.safeParse(req.query);
+
+            if (!parsed.success) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "Validation failed",
+                    error: parsed.error.errors[0]?.message || "Invalid search filters",
+                };
+                return res.status(400).json(response);
+            }
+
+            const result = await EventService.searchEvents(parsed.data);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(400).json(response);
+            }
+
+            const response: ApiResponse<{ events: EventSearchResult[]; nextCursor: string | null }> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Events fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Get upcoming public events ranked for the logged in user, each with an
+     * explanation of why it was suggested.
+     * @param req - Request containing the user's location, search radius and limit in the query
+     * @param res - Response to send the recommended events
+     * @returns Response with recommended events or error
+     */
+    getRecommendedEvents: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { latitude, longitude, radius, limit = 10 } = req.query;
+
+            const parsedLatitude = latitude !== undefined ? parseFloat(latitude as string) : undefined;
+            const parsedLongitude = longitude !== undefined ? parseFloat(longitude as string) : undefined;
+            const parsedRadius = radius !== undefined ? parseFloat(radius as string) : undefined;
+            const parsedLimit = parseInt(limit as string, 10);
+
+            if (
+                (parsedLatitude === undefined) !== (parsedLongitude === undefined) ||
+                (parsedLatitude !== undefined && !(parsedLatitude >= -90 && parsedLatitude <= 90)) ||
+                (parsedLongitude !== undefined && !(parsedLongitude >= -180 && parsedLongitude <= 180)) ||
+                (parsedRadius !== undefined && !(parsedRadius > 0)) ||
+                !(parsedLimit > 0 && parsedLimit <= 50)
+            ) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Invalid recommendation filters",
+                };
+                return res.status(400).json(response);
+            }
+
+            const events = await RecommendationService.getRecommendedEvents(req.user!.id, {
+                latitude: parsedLatitude,
+                longitude: parsedLongitude,
+                radius: parsedRadius,
+                limit: parsedLimit,
+            });
+
+            const response: ApiResponse<RecommendedEvent[]> = {
+                timestamp: Date.now(),
+                success: true,
+                data: events,
+                message: "Recommended events fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
     /**
      * Update an event.
      * @param req - Request containing event data
@@ -310,6 +436,7 @@ const EventController = {
     deleteEvent: async (req: Request, res: Response): Promise<any> => {
         try {
             const eventId = req.params.eventId;
+
             const result = await EventService.deleteEvent(eventId);
 
             if (!result.success) {
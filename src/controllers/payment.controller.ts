@@ -0,0 +1,65 @@
+import { Request, Response } from "express";
+import { ApiResponse } from "../../types";
+import logger from "../config/logger.config";
+import paymentProvider from "../config/payment.config";
+import { PaymentService } from "../services/payment.service";
+
+const PaymentController = {
+    /**
+     * Handle a webhook delivery from the payment provider.
+     * @param req - Request containing the raw webhook body and signature headers
+     * @param res - Response acknowledging the delivery
+     * @returns Response with success or error
+     */
+    webhook: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from("");
+
+            if (!paymentProvider.verifyWebhook(rawBody, req.headers)) {
+                logger.error(`Invalid ${paymentProvider.name} webhook signature`);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Invalid signature",
+                };
+                return res.status(400).json(response);
+            }
+
+            const event = paymentProvider.parseWebhookEvent(rawBody, req.headers);
+            const result = await PaymentService.handleWebhookEvent(event);
+
+            // Errors that a redelivery cannot fix are logged and acknowledged so that
+            // the provider stops retrying
+            if (result.error) {
+                logger.error(`Webhook ${event.type} (${event.id}) not applied: ${result.error}`);
+            }
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: result.duplicate ? "Webhook already processed" : "Webhook received",
+                error: result.error || "",
+            };
+
+            logger.info(`Webhook ${event.type} (${event.id}) received`);
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+};
+
+export default PaymentController;
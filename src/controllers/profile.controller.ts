@@ -0,0 +1,273 @@
+import { Request, Response } from "express";
+import path from "path";
+import { ApiResponse } from "../../types";
+import logger from "../config/logger.config";
+import { Profile, UserService } from "../services/user.service";
+import { getClientInfo } from "../utils/other.util";
+
+const ProfileController = {
+    /**
+     * Get the profile and preferences of the logged in user.
+     * @param req - Request from the logged in user
+     * @param res - Response to send the profile
+     * @returns Response with the profile or error
+     */
+    getProfile: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const result = await UserService.getProfile(req.user!.id);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(404).json(response);
+            }
+
+            const response: ApiResponse<Profile> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Profile fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Update the name, email and preferences of the logged in user.
+     * A new email address has to be verified before it replaces the current one.
+     * @param req - Request containing the fields to change
+     * @param res - Response to send the updated profile
+     * @returns Response with the updated profile or error
+     */
+    updateProfile: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { name, email, preferences } = req.body;
+            const result = await UserService.updateProfile(req.user!.id, { name, email, preferences });
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "User not found" ? 404 : 400).json(response);
+            }
+
+            const response: ApiResponse<Profile> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: result.pendingEmail
+                    ? "Profile updated. Check your new email address to confirm the change"
+                    : "Profile updated successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Change the password of the logged in user. Other sessions are logged out.
+     * @param req - Request containing the current and new passwords
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    changePassword: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { currentPassword, newPassword } = req.body;
+            const result = await UserService.changePassword(
+                req.user!.id,
+                currentPassword,
+                newPassword,
+                getClientInfo(req),
+                req.user!.sessionId
+            );
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "User not found" ? 404 : 400).json(response);
+            }
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: "Password changed successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Replace the avatar of the logged in user.
+     * @param req - Request containing the image file
+     * @param res - Response to send the updated profile
+     * @returns Response with the updated profile or error
+     */
+    updateAvatar: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const image = req.file;
+
+            if (!image) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Avatar image is required",
+                };
+                return res.status(400).json(response);
+            }
+
+            const imagePath = path.join(__dirname, "../public/uploads", image.filename);
+            const result = await UserService.updateAvatar(req.user!.id, imagePath);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(404).json(response);
+            }
+
+            const response: ApiResponse<Profile> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Avatar updated successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Delete the account of the logged in user. Past bookings are kept but no longer
+     * point to anything identifying the user.
+     * @param req - Request containing the user's password and 2FA code
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    deleteAccount: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const result = await UserService.deleteAccount(
+                req.user!.id,
+                { password: req.body.password, code: req.body.code, sessionId: req.user!.sessionId },
+                getClientInfo(req)
+            );
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                const status = result.error === "User not found" ? 404
+                    : result.error === "Password is incorrect" || result.error === "Invalid verification code" ? 400
+                    : result.error === "Please log in again before deleting your account" ? 401
+                    : 409;
+                return res.status(status).json(response);
+            }
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: "Account deleted successfully",
+                error: "",
+            };
+
+            logger.info("Account deleted");
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+};
+
+export default ProfileController;
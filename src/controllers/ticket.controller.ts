@@ -0,0 +1,220 @@
+import { Ticket } from "@prisma/client";
+import { Request, Response } from "express";
+import { ApiResponse } from "../../types";
+import logger from "../config/logger.config";
+import { canAccess } from "../config/permissions.config";
+import prisma from "../config/prisma.config";
+import { CheckInStats, TicketService, TicketWithToken } from "../services/ticket.service";
+import { isValidObjectId } from "../utils/other.util";
+
+const TicketController = {
+    /**
+     * Get the e-tickets of a booking.
+     * @param req - Request containing the booking ID
+     * @param res - Response with the tickets and their signed tokens
+     * @returns Response with tickets or error
+     */
+    getBookingTickets: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const bookingId = req.params.bookingId;
+            const booking = isValidObjectId(bookingId)
+                ? await prisma.ticketBooking.findUnique({ where: { id: bookingId } })
+                : null;
+
+            if (!booking) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Booking not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const tickets = await TicketService.getBookingTickets(bookingId);
+
+            const response: ApiResponse<TicketWithToken[]> = {
+                timestamp: Date.now(),
+                success: true,
+                data: tickets,
+                message: "Tickets fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Render the QR code of a ticket as PNG (default) or SVG.
+     * @param req - Request containing the ticket ID and the format query parameter
+     * @param res - Response with the QR code image
+     * @returns QR code image or error
+     */
+    getTicketQrCode: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const ticketId = req.params.ticketId;
+            const format = req.query.format === "svg" ? "svg" : "png";
+            const ticket = isValidObjectId(ticketId) ? await TicketService.getTicketById(ticketId) : null;
+
+            // Tickets of other users are reported as missing rather than forbidden
+            if (!ticket || !canAccess(req.user!, "bookings:view", ticket.userId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Ticket not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const qrCode = await TicketService.renderQrCode(ticket.token, format);
+
+            res.setHeader("Content-Type", format === "svg" ? "image/svg+xml" : "image/png");
+            res.setHeader("Cache-Control", "private, no-store");
+            return res.status(200).send(qrCode);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Check a ticket in at the door of an event. Organizer or admin only.
+     * @param req - Request containing the event ID and the scanned token
+     * @param res - Response with the checked in ticket or error
+     * @returns Response with ticket or error
+     */
+    checkIn: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const eventId = req.params.eventId;
+            const { token } = req.body;
+
+            const event = isValidObjectId(eventId)
+                ? await prisma.event.findUnique({ where: { id: eventId } })
+                : null;
+
+            if (!event) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Event not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await TicketService.checkIn(eventId, token, req.user!.id);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                logger.error(result.error);
+                return res.status(result.error.startsWith("Ticket was already checked in") ? 409 : 400).json(response);
+            }
+
+            const response: ApiResponse<Ticket> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Ticket checked in successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Get live check-in counts of an event per seat tier. Organizer or admin only.
+     * @param req - Request containing the event ID
+     * @param res - Response with the check-in counts
+     * @returns Response with check-in counts or error
+     */
+    getCheckInStats: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const eventId = req.params.eventId;
+            const event = isValidObjectId(eventId)
+                ? await prisma.event.findUnique({ where: { id: eventId } })
+                : null;
+
+            if (!event) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Event not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const stats = await TicketService.getCheckInStats(eventId);
+
+            const response: ApiResponse<CheckInStats> = {
+                timestamp: Date.now(),
+                success: true,
+                data: stats,
+                message: "Check-in stats fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+};
+
+export default TicketController;
@@ -1,189 +1,255 @@
+import {Payment, TicketBooking} from '@prisma/client';
 import {Request, Response} from 'express';
-import Razorpay from 'razorpay';
-import crypto from 'crypto';
 import prisma from '../config/prisma.config';
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID!,
-  key_secret: process.env.RAZORPAY_KEY_SECRET!,
-});
-
-export const createOrder = async (req: Request, res: Response) => {
+import {ApiResponse} from '../../types';
+import logger from '../config/logger.config';
+import paymentProvider from '../config/payment.config';
+import {CancellationService} from '../services/cancellation.service';
+import {InventoryService} from '../services/inventory.service';
+import {ProviderOrder} from '../providers/payment.provider';
+import {PaymentService} from '../services/payment.service';
+import {calculateTicketPrice, PriceBreakdown} from '../utils/pricing.util';
+
+export const createOrder = async (req: Request, res: Response): Promise<any> => {
   try {
-    console.log('Request body:', req.body);
-    const {eventId, numberOfTickets, amount} = req.body;
+    const {eventId, seatType, quantity, amount} = req.body;
+    const ticketCount = Number(quantity);
     const userId = req.user?.id;
 
     if (!userId) {
-      return res.status(401).json({error: 'User not authenticated'});
+      const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: '',
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
     }
 
-    console.log('Looking for event:', eventId);
     const event = await prisma.event.findUnique({
       where: {id: eventId},
     });
 
     if (!event) {
-      console.log('Event not found');
-      return res.status(404).json({error: 'Event not found'});
+      const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: '',
+        error: 'Event not found',
+      };
+      return res.status(404).json(response);
     }
 
-    const options = {
-      amount: Math.round(amount * 100), // amount in paise, ensure it's a whole number
-      currency: 'INR',
-      receipt: `receipt_${Date.now()}`,
-    };
+    const tier = await InventoryService.getTier(eventId, seatType);
+    if (!tier) {
+      const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: '',
+        error: 'Invalid seat type',
+      };
+      return res.status(400).json(response);
+    }
 
-    console.log('Creating Razorpay order:', options);
-    const order = await razorpay.orders.create(options);
-    console.log('Razorpay order created:', order);
+    // The charged amount is always computed here; a client supplied amount is
+    // only used to detect a stale price on the frontend
+    const breakdown = calculateTicketPrice(tier, ticketCount, event.ticketFees);
+    if (amount !== undefined && Math.abs(Number(amount) - breakdown.total) >= 0.01) {
+      const response: ApiResponse<PriceBreakdown> = {
+        timestamp: Date.now(),
+        success: false,
+        data: breakdown,
+        message: '',
+        error: 'Amount does not match the current ticket price',
+      };
+      return res.status(400).json(response);
+    }
+
+    // Reserve the seats before talking to the payment provider so that two buyers can
+    // never pay for the same last seat
+    const hold = await InventoryService.createHold(eventId, seatType, ticketCount, userId);
+
+    if ('error' in hold) {
+      const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: '',
+        error: hold.error,
+      };
+      return res.status(409).json(response);
+    }
+
+    let order: ProviderOrder;
+    try {
+      order = await paymentProvider.createOrder({
+        amount: breakdown.total,
+        currency: breakdown.currency,
+        receipt: `receipt_${Date.now()}`,
+        notes: {eventId, seatType},
+      });
+      logger.info(`${order.provider} order ${order.orderId} created`);
+    } catch (error) {
+      await InventoryService.releaseHold(hold.id);
+      throw error;
+    }
 
     // Create the payment and ticket booking in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // First create the payment
-      console.log('Creating payment record');
+    await prisma.$transaction(async (tx) => {
       const payment = await tx.payment.create({
         data: {
           userId,
-          amount: parseFloat(amount.toString()),
+          amount: breakdown.total,
           status: 'PENDING',
-          paymentMethod: 'RAZORPAY',
+          paymentMethod: order.provider,
+          providerOrderId: order.orderId,
         },
       });
-      console.log('Payment record created:', payment);
 
-      // Then create the ticket booking
-      console.log('Creating ticket booking');
       const ticketBooking = await tx.ticketBooking.create({
         data: {
           eventId,
           userId,
-          ticketCount: numberOfTickets,
-          seatType: 'REGULAR',
+          ticketCount: hold.quantity,
+          seatType,
+          tierId: hold.tierId,
           status: 'PENDING',
           paymentId: payment.id,
         },
       });
-      console.log('Ticket booking created:', ticketBooking);
 
-      return { payment, ticketBooking };
+      // Attach the hold to the booking so it can be confirmed on payment
+      await tx.ticketHold.update({
+        where: {id: hold.id},
+        data: {ticketBookingId: ticketBooking.id},
+      });
     });
 
-    console.log('Transaction completed successfully:', result);
-    res.json({ orderId: order.id });
-
-    res.json({orderId: order.id});
+    const response: ApiResponse<{
+      orderId: string;
+      amount: number;
+      currency: string;
+      provider: string;
+      checkout: Record<string, unknown>;
+      breakdown: PriceBreakdown;
+      holdExpiresAt: Date;
+    }> = {
+      timestamp: Date.now(),
+      success: true,
+      data: {
+        orderId: order.orderId,
+        amount: breakdown.total,
+        currency: breakdown.currency,
+        provider: order.provider,
+        checkout: order.checkout,
+        breakdown,
+        holdExpiresAt: hold.expiresAt,
+      },
+      message: 'Order created successfully',
+      error: '',
+    };
+    res.status(201).json(response);
   } catch (error) {
-    console.error('Create order error:', error);
-    res.status(500).json({error: 'Failed to create order'});
+    logger.error(`Create order error: ${error instanceof Error ? error.message : error}`);
+    const response: ApiResponse<null> = {
+      timestamp: Date.now(),
+      success: false,
+      data: null,
+      message: '',
+      error: 'Failed to create order',
+    };
+    res.status(500).json(response);
   }
 };
 
-export const verifyPayment = async (req: Request, res: Response) => {
+export const verifyPayment = async (req: Request, res: Response): Promise<any> => {
   try {
-    const {
-      razorpay_order_id,
-      razorpay_payment_id,
-      razorpay_signature,
-    } = req.body;
-
-    const sign = razorpay_order_id + '|' + razorpay_payment_id;
-    const expectedSign = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-      .update(sign)
-      .digest('hex');
-
-    if (razorpay_signature !== expectedSign) {
-      return res.status(400).json({error: 'Invalid signature'});
+    // Razorpay checkout field names are still accepted for older clients
+    const orderId = req.body.orderId ?? req.body.razorpay_order_id;
+    const paymentId = req.body.paymentId ?? req.body.razorpay_payment_id;
+    const signature = req.body.signature ?? req.body.razorpay_signature;
+
+    const result = await PaymentService.confirmPayment(req.user!.id, {orderId, paymentId, signature});
+    if (result.error) {
+      const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: '',
+        error: result.error,
+      };
+      const status = result.error === 'Invalid signature' ? 400 : result.error === 'Payment not found' ? 404 : 409;
+      return res.status(status).json(response);
     }
 
-    // Update ticket booking and payment status
-    const payment = await prisma.payment.findFirst({
-      where: { paymentMethod: 'RAZORPAY' },
-      orderBy: { createdAt: 'desc' },
-      include: { ticketBookings: true }
+    const payment = result.payment!;
+    const ticketBookings = await prisma.ticketBooking.findMany({
+      where: {paymentId: payment.id},
     });
 
-    if (!payment) {
-      return res.status(404).json({error: 'Payment not found'});
-    }
-
-    await prisma.payment.update({
-      where: { id: payment.id },
-      data: { status: 'COMPLETED' }
-    });
-
-    const ticketBooking = await prisma.ticketBooking.update({
-      where: { id: payment.ticketBookings[0].id },
-      data: { status: 'CONFIRMED' }
-    });
-
-    res.json({success: true, ticketBooking});
+    const response: ApiResponse<{payment: Payment; ticketBookings: TicketBooking[]}> = {
+      timestamp: Date.now(),
+      success: true,
+      data: {payment, ticketBookings},
+      message: 'Payment verified successfully',
+      error: '',
+    };
+    res.status(200).json(response);
   } catch (error) {
-    console.error('Payment verification error:', error);
-    res.status(500).json({error: 'Payment verification failed'});
+    logger.error(`Payment verification error: ${error instanceof Error ? error.message : error}`);
+    const response: ApiResponse<null> = {
+      timestamp: Date.now(),
+      success: false,
+      data: null,
+      message: '',
+      error: 'Payment verification failed',
+    };
+    res.status(500).json(response);
   }
 };
-import { PrismaClient } from "@prisma/client";
-const prisma = new PrismaClient();
 
-export const bookTicket = async (req: Request, res: Response): Promise<void> => {
+export const cancelTicketBooking = async (req: Request, res: Response): Promise<any> => {
   try {
-    const { userId, eventId, seatType, ticketCount, paymentMethod } = req.body;
-
-    const event = await prisma.event.findUnique({ where: { id: eventId } });
-    if (!event) {
-      res.status(404).json({ error: "Event not found" });
-      return;
-    }
-
-    const ticketPrices = event.ticketPrices as {
-      seatType: string;
-      price: number;
-      availableSeats: number;
-    }[];
-
-    const ticket = ticketPrices.find((t) => t.seatType === seatType);
-    if (!ticket) {
-      res.status(400).json({ error: "Invalid seat type" });
-      return;
+    const result = await CancellationService.cancelTicketBooking(
+      req.params.bookingId,
+      req.user!,
+      req.body?.reason,
+    );
+
+    if ('error' in result) {
+      const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: '',
+        error: result.error,
+      };
+      return res.status(result.error === 'Booking not found' ? 404 : 400).json(response);
     }
 
-    if (ticket.availableSeats < ticketCount) {
-      res.status(400).json({ error: "Not enough seats available" });
-      return;
-    }
-
-    const totalAmount = ticket.price * ticketCount;
-
-    const payment = await prisma.payment.create({
-      data: {
-        userId,
-        amount: totalAmount,
-        paymentMethod,
-        status: "PENDING",
-      },
-    });
-
-    const booking = await prisma.ticketBooking.create({
-      data: {
-        userId,
-        eventId,
-        seatType,
-        ticketCount,
-        paymentId: payment.id,
-        status: "PENDING",
-      },
-    });
-
-    // Update available seats
-    ticket.availableSeats -= ticketCount;
-    await prisma.event.update({
-      where: { id: eventId },
-      data: { ticketPrices },
-    });
-
-    res.json({ success: true, booking, payment });
-  } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    const response: ApiResponse<typeof result> = {
+      timestamp: Date.now(),
+      success: true,
+      data: result,
+      message: result.refund.error
+        ? 'Booking canceled, but the refund could not be issued yet'
+        : 'Booking canceled successfully',
+      error: '',
+    };
+    logger.info(`Ticket booking ${req.params.bookingId} canceled`);
+    res.status(200).json(response);
+  } catch (error) {
+    logger.error(`Cancel booking error: ${error instanceof Error ? error.message : error}`);
+    const response: ApiResponse<null> = {
+      timestamp: Date.now(),
+      success: false,
+      data: null,
+      message: '',
+      error: 'Failed to cancel booking',
+    };
+    res.status(500).json(response);
   }
 };
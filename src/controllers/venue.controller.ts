@@ -3,8 +3,19 @@ import { Request, Response } from "express";
 import path from "path";
 import { ApiResponse } from "../../types";
 import logger from "../config/logger.config";
+import { ProviderOrder } from "../providers/payment.provider";
+import { AddOnService } from "../services/add-on.service";
+import { AvailabilityService } from "../services/availability.service";
+import { CancellationService } from "../services/cancellation.service";
+import { VenueBookingRequest, VenueRequestService } from "../services/venue-request.service";
 import { VenueService } from "../services/venue.service";
-import { mapServiceToValue } from "../utils/service-tier.util";
+import { DAY_MS } from "../utils/date.util";
+import { isValidObjectId } from "../utils/other.util";
+import { VenueQuote } from "../utils/pricing.util";
+import { venueCalendarSchema } from "../validations/venue.validation";
+
+// Days shown when the calendar is fetched without an end date
+const DEFAULT_CALENDAR_DAYS = 30;
 
 const VenueController = {
     /**
@@ -24,7 +35,9 @@ const VenueController = {
                 amenities,
                 rules,
                 termsAndConditions,
-                contactInfo 
+                contactInfo,
+                cancellationPolicy,
+                pricing
             } = req.body;
             const image = req.file;
 
@@ -42,7 +55,14 @@ const VenueController = {
                 parsedCapacity,
                 parsedPricePerDay,
                 description,
-                imageUrl
+                imageUrl,
+                amenities,
+                rules,
+                termsAndConditions,
+                contactInfo,
+                cancellationPolicy,
+                req.user?.id,
+                pricing
             );
 
             if ('error' in result) {
@@ -219,6 +239,7 @@ const VenueController = {
     deleteVenue: async (req: Request, res: Response): Promise<any> => {
         try {
             const venueId = req.params.venueId;
+
             const result = await VenueService.deleteVenue(venueId);
 
             if (!result.success) {
@@ -319,7 +340,9 @@ const VenueController = {
                 startDate,
                 endDate,
                 guests,
-                services
+                addOns,
+                amount,
+                message
             } = req.body;
 
             if (!req.user) {
@@ -338,20 +361,8 @@ const VenueController = {
             const parsedStartDate = new Date(startDate);
             const parsedEndDate = new Date(endDate);
             const parsedGuests = parseInt(guests);
-            const parsedServices = typeof services === 'string' ? JSON.parse(services) : services;
             const isPublic = eventType === 'public';
 
-            if (!parsedServices || typeof parsedServices !== "object" || !("catering" in parsedServices) || !("decoration" in parsedServices) || !("photography" in parsedServices) || !("music" in parsedServices)) {
-                const response: ApiResponse<null> = {
-                    timestamp: Date.now(),
-                    success: false,
-                    data: null,
-                    message: "",
-                    error: "Services must include catering, decoration, photography, and music",
-                };
-                return res.status(400).json(response);
-            }
-
             const image = req.file;
 
             let imageUrl = undefined;
@@ -372,21 +383,31 @@ const VenueController = {
                 return res.status(404).json(response);
             }
 
-            const days = Math.ceil(
-                (parsedEndDate.getTime() - parsedStartDate.getTime()) / (1000 * 60 * 60 * 24)
-            ) + 1;
-            const venueCost = days * venue.pricePerDay;
+            const priced = await VenueService.getQuote(venue, parsedStartDate, parsedEndDate, parsedGuests, addOns);
+            if ('error' in priced) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: priced.error,
+                };
+                return res.status(400).json(response);
+            }
 
-            // Map service tiers to numeric costs
-            const serviceCosts = {
-                catering: mapServiceToValue(parsedServices.catering, "catering"),
-                decoration: mapServiceToValue(parsedServices.decoration, "decoration"),
-                photography: mapServiceToValue(parsedServices.photography, "photography"),
-                music: mapServiceToValue(parsedServices.music, "music"),
-            };
-            const servicesCost = serviceCosts.catering + serviceCosts.decoration +
-                serviceCosts.photography + serviceCosts.music;
-            const totalCost = venueCost + servicesCost;
+            // The charged amount is always the quote; a client supplied amount is
+            // only used to detect a stale price on the frontend
+            const { quote } = priced;
+            if (amount !== undefined && Math.abs(Number(amount) - quote.total) >= 0.01) {
+                const response: ApiResponse<VenueQuote> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: quote,
+                    message: "",
+                    error: "Amount does not match the current venue price",
+                };
+                return res.status(400).json(response);
+            }
 
             const result = await VenueService.createBooking({
                 venueId,
@@ -394,8 +415,10 @@ const VenueController = {
                 startDate: parsedStartDate,
                 endDate: parsedEndDate,
                 guests: parsedGuests,
-                services: serviceCosts,
-                totalCost,
+                addOns: priced.addOns,
+                totalCost: quote.total,
+                priceLines: [...quote.lines, ...quote.services],
+                requestMessage: typeof message === "string" ? message.trim().slice(0, 1000) : undefined,
                 eventDetails: {
                     name: eventName,
                     description: eventDescription,
@@ -417,11 +440,13 @@ const VenueController = {
                 return res.status(400).json(response);
             }
 
-            const response: ApiResponse<VenueBooking> = {
+            const response: ApiResponse<{ booking: VenueBooking; order: ProviderOrder | null; holdExpiresAt: Date }> = {
                 timestamp: Date.now(),
                 success: true,
-                data: result as VenueBooking,
-                message: "Venue booking created successfully",
+                data: result,
+                message: result.order
+                    ? "Venue booking created. Complete the payment to confirm it"
+                    : "Booking request sent. You can pay once the venue approves it",
                 error: "",
             };
 
@@ -442,6 +467,926 @@ const VenueController = {
         }
     },
 
+    /**
+     * Confirm the payment of a pending venue booking.
+     * @param req - Request containing the booking ID and payment confirmation
+     * @param res - Response to send the confirmed booking or error
+     * @returns Response with confirmed booking or error
+     */
+    confirmBookingPayment: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const bookingId = req.params.bookingId;
+            const { orderId, paymentId, signature } = req.body;
+
+            const result = await VenueService.confirmBookingPayment(bookingId, req.user!.id, {
+                orderId,
+                paymentId,
+                signature,
+            });
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                logger.error(result.error);
+                return res.status(result.error === "Booking not found" ? 404 : 400).json(response);
+            }
+
+            const response: ApiResponse<VenueBooking> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Venue booking confirmed successfully",
+                error: "",
+            };
+
+            logger.info("Venue booking confirmed successfully");
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Cancel a venue booking and refund it according to the venue's policy.
+     * @param req - Request containing the booking ID and an optional reason
+     * @param res - Response to send the canceled booking and refund or error
+     * @returns Response with canceled booking or error
+     */
+    cancelBooking: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const bookingId = req.params.bookingId;
+            const result = await CancellationService.cancelVenueBooking(bookingId, req.user!, req.body?.reason);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                logger.error(result.error);
+                return res.status(result.error === "Booking not found" ? 404 : 400).json(response);
+            }
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: result.refund.error
+                    ? "Venue booking canceled, but the refund could not be issued yet"
+                    : "Venue booking canceled successfully",
+                error: "",
+            };
+
+            logger.info("Venue booking canceled successfully");
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Get the itemized price of a venue booking, exactly as createBooking would charge it.
+     * @param req - Request containing the venue ID, and the dates, guests and add-ons in the body
+     * @param res - Response to send the quote
+     * @returns Response with the quote or error
+     */
+    getQuote: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+            const { startDate, endDate, guests, addOns } = req.body;
+
+            const venue = isValidObjectId(venueId) ? await VenueService.getVenueById(venueId) : null;
+            if (!venue) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await VenueService.getQuote(
+                venue,
+                new Date(startDate),
+                new Date(endDate),
+                Number(guests),
+                addOns
+            );
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(400).json(response);
+            }
+
+            const response: ApiResponse<VenueQuote> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result.quote,
+                message: "Venue quote calculated successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Get the day-by-day availability of a venue for a date picker.
+     * @param req - Request containing the venue ID, and the first and last day in the query
+     * @param res - Response to send the calendar
+     * @returns Response with the status of each day or error
+     */
+    getCalendar: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+
+            if (!isValidObjectId(venueId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const parsed = venueCalendarSchema.safeParse(req.query);
+            if (!parsed.success) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: parsed.error.errors[0]?.message || "Invalid dates",
+                };
+                return res.status(400).json(response);
+            }
+
+            const from = parsed.data.from || new Date();
+            const to = parsed.data.to || new Date(from.getTime() + (DEFAULT_CALENDAR_DAYS - 1) * DAY_MS);
+            const result = await AvailabilityService.getCalendar(venueId, from, to);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Venue not found" ? 404 : 400).json(response);
+            }
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Venue calendar fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * List the current and upcoming blackout and maintenance periods of a venue.
+     * @param req - Request containing the venue ID
+     * @param res - Response to send the closures
+     * @returns Response with closures or error
+     */
+    listClosures: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+
+            if (!isValidObjectId(venueId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const closures = await AvailabilityService.listClosures(venueId);
+
+            const response: ApiResponse<typeof closures> = {
+                timestamp: Date.now(),
+                success: true,
+                data: closures,
+                message: "Venue closures fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Close a venue for a blackout or maintenance period.
+     * @param req - Request containing the venue ID, and the type, period and reason of the closure
+     * @param res - Response to send the created closure
+     * @returns Response with the closure or error
+     */
+    createClosure: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+            const { type, startDate, endDate, reason } = req.body;
+
+            if (!isValidObjectId(venueId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await AvailabilityService.createClosure(
+                venueId,
+                { type, startDate: new Date(startDate), endDate: new Date(endDate), reason },
+                req.user!.id
+            );
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Venue not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Venue closure added successfully",
+                error: "",
+            };
+
+            return res.status(201).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Remove a blackout or maintenance period of a venue.
+     * @param req - Request containing the venue and closure IDs
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    deleteClosure: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId, closureId } = req.params;
+
+            if (!isValidObjectId(venueId) || !isValidObjectId(closureId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Closure not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await AvailabilityService.deleteClosure(venueId, closureId);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(404).json(response);
+            }
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: "Venue closure removed successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * List the add-on services a venue offers with its bookings. On the route for
+     * venue managers, add-ons that are currently unavailable are listed too.
+     * @param req - Request containing the venue ID
+     * @param res - Response to send the add-ons
+     * @returns Response with add-ons or error
+     */
+    listAddOns: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+
+            if (!isValidObjectId(venueId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            // Only authenticated on the route for venue managers
+            const addOns = await AddOnService.listAddOns(venueId, !!req.user);
+
+            const response: ApiResponse<typeof addOns> = {
+                timestamp: Date.now(),
+                success: true,
+                data: addOns,
+                message: "Venue add-ons fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Add a service to the add-on catalog of a venue.
+     * @param req - Request containing the venue ID, and the name, description, pricing and tiers of the add-on
+     * @param res - Response to send the created add-on
+     * @returns Response with the add-on or error
+     */
+    createAddOn: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+            const { name, description, pricing, tiers, isAvailable } = req.body;
+
+            if (!isValidObjectId(venueId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await AddOnService.createAddOn(venueId, { name, description, pricing, tiers, isAvailable });
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Venue not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Venue add-on added successfully",
+                error: "",
+            };
+
+            return res.status(201).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Change an add-on of a venue, e.g. its prices or whether it is available.
+     * @param req - Request containing the venue and add-on IDs, and the fields to change
+     * @param res - Response to send the updated add-on
+     * @returns Response with the add-on or error
+     */
+    updateAddOn: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId, addOnId } = req.params;
+            const { name, description, pricing, tiers, isAvailable } = req.body;
+
+            if (!isValidObjectId(venueId) || !isValidObjectId(addOnId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Add-on not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await AddOnService.updateAddOn(venueId, addOnId, { name, description, pricing, tiers, isAvailable });
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Add-on not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<typeof result> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Venue add-on updated successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Remove an add-on from the catalog of a venue. Existing bookings keep it.
+     * @param req - Request containing the venue and add-on IDs
+     * @param res - Response to send the result
+     * @returns Response with success or error
+     */
+    deleteAddOn: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId, addOnId } = req.params;
+
+            if (!isValidObjectId(venueId) || !isValidObjectId(addOnId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Add-on not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await AddOnService.deleteAddOn(venueId, addOnId);
+
+            if ('error' in result) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(404).json(response);
+            }
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: true,
+                data: null,
+                message: "Venue add-on removed successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * List the booking requests of a venue that wait for an answer or a payment.
+     * @param req - Request containing the venue ID
+     * @param res - Response to send the requests
+     * @returns Response with requests or error
+     */
+    listBookingRequests: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { venueId } = req.params;
+
+            if (!isValidObjectId(venueId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Venue not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const requests = await VenueRequestService.listRequests(venueId);
+
+            const response: ApiResponse<VenueBookingRequest[]> = {
+                timestamp: Date.now(),
+                success: true,
+                data: requests,
+                message: "Booking requests fetched successfully",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Approve a booking request so that the guest can pay it.
+     * @param req - Request containing the booking ID and an optional message to the guest
+     * @param res - Response to send the approved booking
+     * @returns Response with the booking or error
+     */
+    approveBookingRequest: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { bookingId } = req.params;
+
+            if (!isValidObjectId(bookingId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Booking request not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await VenueRequestService.approve(bookingId, req.user!.id, req.body.message);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Booking request not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<VenueBooking> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Booking request approved",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Decline a booking request and free its dates.
+     * @param req - Request containing the booking ID and an optional message to the guest
+     * @param res - Response to send the declined booking
+     * @returns Response with the booking or error
+     */
+    rejectBookingRequest: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { bookingId } = req.params;
+
+            if (!isValidObjectId(bookingId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Booking request not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await VenueRequestService.reject(bookingId, req.user!.id, req.body.message);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Booking request not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<VenueBooking> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Booking request declined",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Offer the guest of a booking request a different total.
+     * @param req - Request containing the booking ID, the offered amount and an optional message
+     * @param res - Response to send the booking with the offer
+     * @returns Response with the booking or error
+     */
+    counterOfferBookingRequest: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { bookingId } = req.params;
+
+            if (!isValidObjectId(bookingId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Booking request not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await VenueRequestService.counterOffer(bookingId, req.user!.id, Number(req.body.amount), req.body.message);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Booking request not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<VenueBooking> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Counter-offer sent",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
+
+    /**
+     * Get the order to pay an approved booking request, or to accept a counter-offer.
+     * @param req - Request containing the booking ID
+     * @param res - Response to send the booking and the order
+     * @returns Response with the order or error
+     */
+    checkoutBookingRequest: async (req: Request, res: Response): Promise<any> => {
+        try {
+            const { bookingId } = req.params;
+
+            if (!isValidObjectId(bookingId)) {
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Booking request not found",
+                };
+                return res.status(404).json(response);
+            }
+
+            const result = await VenueRequestService.checkout(bookingId, req.user!.id);
+
+            if ('error' in result) {
+                logger.error(result.error);
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: result.error,
+                };
+                return res.status(result.error === "Booking request not found" ? 404 : 409).json(response);
+            }
+
+            const response: ApiResponse<{ booking: VenueBooking; order: ProviderOrder }> = {
+                timestamp: Date.now(),
+                success: true,
+                data: result,
+                message: "Complete the payment to confirm the booking",
+                error: "",
+            };
+
+            return res.status(200).json(response);
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+
+            return res.status(500).json(response);
+        }
+    },
 };
 
-export default VenueController;
\ No newline at end of file
+export default VenueController;
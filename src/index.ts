@@ -1,3 +1,4 @@
+import cookieParser from "cookie-parser";
 import cors from "cors";
 import dotenv from "dotenv";
 import express from "express";
@@ -7,21 +8,42 @@ import authRoutes from "./routes/auth.routes";
 import eventRoutes from "./routes/events.routes";
 import venueRoutes from "./routes/venues.routes";
 import ticketRoutes from "./routes/ticketBookingRoutes";
+import paymentRoutes from "./routes/payments.routes";
+import meRoutes from "./routes/me.routes";
+import bookingRoutes from "./routes/bookings.routes";
+import adminRoutes from "./routes/admin.routes";
+import { registerJobs } from "./jobs";
+import { SchedulerService } from "./services/scheduler.service";
 import path from "path";
 
 const app = express();
 dotenv.config();
 const PORT = process.env.SERVER_PORT || 3000;
 
+// Behind a reverse proxy, req.ip must come from X-Forwarded-For for per-IP rate limits and lockouts
+if (process.env.TRUST_PROXY) {
+    const trustProxy = process.env.TRUST_PROXY;
+    app.set("trust proxy", trustProxy === "true" ? true : Number(trustProxy) || trustProxy);
+}
+
+// Credentialed requests must name the web client, a wildcard would let any site use the session
+if (!process.env.CLIENT_ORIGIN) {
+    throw new Error("CLIENT_ORIGIN must be set to the URL of the web client");
+}
+
 const corsOptions = {
-    origin: process.env.CLIENT_ORIGIN || "*",
-    credentials: false,
+    origin: process.env.CLIENT_ORIGIN,
+    // Lets the browser send the refresh token cookie
+    credentials: true,
     optionsSuccessStatus: 200,
 };
 
 app.use(cors(corsOptions));
+// Mounted before the JSON parser because webhooks need the raw request body
+app.use("/api/payments", paymentRoutes);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
 app.use('/uploads', express.static(path.join(__dirname, 'public/uploads')));
 
 app.use(rateLimiter);
@@ -29,12 +51,22 @@ app.use("/api/auth", authRoutes);
 app.use("/api/events", eventRoutes);
 app.use("/api/venues", venueRoutes);
 app.use("/api/tickets", ticketRoutes);
+app.use("/api/me", meRoutes);
+app.use("/api/bookings", bookingRoutes);
+app.use("/api/admin", adminRoutes);
 
 app.get("/health", (_, res) => {
     logger.info("Health check endpoint was called.");
     res.status(200).json({ message: "Server is running!" });
 });
 
+// Background jobs: hold sweeper, email delivery, reminders and cleanups
+registerJobs()
+    .then(() => SchedulerService.start())
+    .catch((err) => {
+        logger.error(`Error starting the job scheduler: ${err instanceof Error ? err.message : err}`);
+    });
+
 app.listen(PORT, () => {
     console.log(`Server listening on: http://localhost:${PORT}`);
 });
\ No newline at end of file
@@ -0,0 +1,25 @@
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+
+/**
+ * Mark accounts created before email verification existed as verified since they
+ * were created. Their documents have no emailVerified field at all, which Prisma
+ * filters can't match, so this runs as a raw update. Safe to run on every start.
+ */
+export const backfillEmailVerified = async (): Promise<void> => {
+    const result = await prisma.$runCommandRaw({
+        update: "User",
+        updates: [
+            {
+                q: { emailVerified: { $exists: false } },
+                u: [{ $set: { emailVerified: true, emailVerifiedAt: "$createdAt" } }],
+                multi: true,
+            },
+        ],
+    });
+
+    const count = Number(result.nModified ?? 0);
+    if (count > 0) {
+        logger.info(`Marked ${count} existing accounts as verified`);
+    }
+};
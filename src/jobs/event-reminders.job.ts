@@ -0,0 +1,47 @@
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { NotificationService } from "../services/notification.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Remind attendees of confirmed bookings 24 hours and 1 hour before their event.
+ * Each reminder is claimed by stamping its flag first, so it goes out at most once
+ * even if the job overlaps with another instance.
+ */
+export const sendEventReminders = async (): Promise<void> => {
+    const now = new Date();
+    const windows = [
+        { field: "reminder24hSentAt" as const, from: new Date(now.getTime() + HOUR_MS), to: new Date(now.getTime() + 24 * HOUR_MS) },
+        { field: "reminder1hSentAt" as const, from: now, to: new Date(now.getTime() + HOUR_MS) },
+    ];
+
+    let sent = 0;
+    for (const window of windows) {
+        const bookings = await prisma.ticketBooking.findMany({
+            where: {
+                status: "CONFIRMED",
+                OR: [{ [window.field]: null }, { [window.field]: { isSet: false } }],
+                event: { is: { date: { gt: window.from, lte: window.to } } },
+            },
+            select: { id: true },
+        });
+
+        for (const booking of bookings) {
+            const { count } = await prisma.ticketBooking.updateMany({
+                where: { id: booking.id, OR: [{ [window.field]: null }, { [window.field]: { isSet: false } }] },
+                data: { [window.field]: new Date() },
+            });
+            if (count === 0) {
+                continue;
+            }
+
+            await NotificationService.eventReminder(booking.id);
+            sent++;
+        }
+    }
+
+    if (sent > 0) {
+        logger.info(`Queued ${sent} event reminders`);
+    }
+};
@@ -0,0 +1,82 @@
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { EventService } from "../services/event.service";
+import { InventoryService } from "../services/inventory.service";
+import { VenueHoldService } from "../services/venue-hold.service";
+
+const DEFAULT_PENDING_BOOKING_TTL_MINUTES = 30;
+const EXPIRY_REASON = "Payment window expired";
+
+/**
+ * Cancel bookings whose checkout was abandoned, so that their seats and dates are
+ * freed and their payments stop showing as pending.
+ */
+export const expirePendingBookings = async (): Promise<void> => {
+    const ttlMinutes = Number(process.env.PENDING_BOOKING_TTL_MINUTES) || DEFAULT_PENDING_BOOKING_TTL_MINUTES;
+    const cutoff = new Date(Date.now() - ttlMinutes * 60 * 1000);
+
+    const ticketBookings = await prisma.ticketBooking.findMany({
+        where: { status: "PENDING", createdAt: { lt: cutoff } },
+        select: { id: true, paymentId: true },
+    });
+
+    let expired = 0;
+    for (const booking of ticketBookings) {
+        const { count } = await prisma.ticketBooking.updateMany({
+            where: { id: booking.id, status: "PENDING" },
+            data: { status: "CANCELED" },
+        });
+        if (count === 0) {
+            continue;
+        }
+
+        const holds = await prisma.ticketHold.findMany({ where: { ticketBookingId: booking.id, status: "ACTIVE" } });
+        for (const hold of holds) {
+            await InventoryService.releaseHold(hold.id);
+        }
+
+        await prisma.payment.updateMany({
+            where: { id: booking.paymentId, status: "PENDING" },
+            data: { status: "FAILED", failureReason: EXPIRY_REASON },
+        });
+        expired++;
+    }
+
+    const venueBookings = await prisma.venueBooking.findMany({
+        where: { status: "PENDING", createdAt: { lt: cutoff } },
+        select: { id: true, paymentId: true, eventId: true, request: true },
+    });
+
+    for (const booking of venueBookings) {
+        // Booking requests run until their own deadline, see VenueRequestService.expireRequests
+        if (booking.request) {
+            continue;
+        }
+
+        const { count } = await prisma.venueBooking.updateMany({
+            where: { id: booking.id, status: "PENDING" },
+            data: { status: "CANCELED" },
+        });
+        if (count === 0) {
+            continue;
+        }
+
+        const holds = await prisma.venueHold.findMany({ where: { venueBookingId: booking.id, status: "ACTIVE" } });
+        for (const hold of holds) {
+            await VenueHoldService.releaseHold(hold.id);
+        }
+        await EventService.unpublishEvent(booking.eventId);
+
+        if (booking.paymentId) {
+            await prisma.payment.updateMany({
+                where: { id: booking.paymentId, status: "PENDING" },
+                data: { status: "FAILED", failureReason: EXPIRY_REASON },
+            });
+        }
+        expired++;
+    }
+
+    if (expired > 0) {
+        logger.info(`Expired ${expired} abandoned bookings`);
+    }
+};
@@ -0,0 +1,43 @@
+import { EmailService } from "../services/email.service";
+import { InventoryService } from "../services/inventory.service";
+import { LoginThrottleService } from "../services/login-throttle.service";
+import { SchedulerService } from "../services/scheduler.service";
+import { SessionService } from "../services/session.service";
+import { VenueHoldService } from "../services/venue-hold.service";
+import { VenueRequestService } from "../services/venue-request.service";
+import { backfillEmailVerified } from "./backfill-email-verified.job";
+import { sendEventReminders } from "./event-reminders.job";
+import { expirePendingBookings } from "./expire-pending-bookings.job";
+import { purgeExpiredResetTokens } from "./purge-reset-tokens.job";
+
+// Recurring jobs: name, cron expression (seconds field optional) and handler
+const RECURRING_JOBS: { name: string; cron: string; handler: () => Promise<unknown> }[] = [
+    // Return seats of abandoned checkouts to the pool
+    { name: "release-expired-holds", cron: "* * * * *", handler: InventoryService.releaseExpiredHolds },
+    { name: "release-expired-venue-holds", cron: "* * * * *", handler: VenueHoldService.releaseExpiredHolds },
+    { name: "process-email-queue", cron: "*/30 * * * * *", handler: () => EmailService.processQueue() },
+    { name: "purge-email-outbox", cron: "45 3 * * *", handler: EmailService.purgeOutbox },
+    { name: "send-event-reminders", cron: "*/5 * * * *", handler: sendEventReminders },
+    { name: "expire-pending-bookings", cron: "*/10 * * * *", handler: expirePendingBookings },
+    // Cancel booking requests the venue owner didn't answer or the guest didn't pay in time
+    { name: "expire-venue-requests", cron: "*/10 * * * *", handler: VenueRequestService.expireRequests },
+    { name: "purge-reset-tokens", cron: "0 * * * *", handler: purgeExpiredResetTokens },
+    { name: "purge-sessions", cron: "30 3 * * *", handler: SessionService.purgeSessions },
+    { name: "purge-login-throttles", cron: "15 * * * *", handler: LoginThrottleService.purgeExpired },
+];
+
+/**
+ * Backfill data older releases didn't write, register the job handlers and make
+ * sure every recurring job is scheduled.
+ */
+export const registerJobs = async (): Promise<void> => {
+    // Accounts from before email verification would otherwise be locked out of checkout
+    await backfillEmailVerified();
+
+    for (const job of RECURRING_JOBS) {
+        SchedulerService.registerHandler(job.name, async () => {
+            await job.handler();
+        });
+        await SchedulerService.scheduleRecurring(job.name, job.cron, job.name);
+    }
+};
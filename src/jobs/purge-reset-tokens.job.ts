@@ -0,0 +1,16 @@
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+
+/**
+ * Clear password reset tokens that can no longer be used.
+ */
+export const purgeExpiredResetTokens = async (): Promise<void> => {
+    const { count } = await prisma.user.updateMany({
+        where: { resetTokenExpiry: { lt: new Date() } },
+        data: { resetToken: null, resetTokenExpiry: null },
+    });
+
+    if (count > 0) {
+        logger.info(`Purged ${count} expired password reset tokens`);
+    }
+};
@@ -1,9 +1,12 @@
 import { NextFunction, Request, Response } from "express";
-import { verifyToken } from "../utils/jwt.util";
+import { AccessTokenPayload, verifyToken } from "../utils/jwt.util";
 import logger from "../config/logger.config";
 import { ApiResponse } from "../../types";
+import { SessionService } from "../services/session.service";
+import prisma from "../config/prisma.config";
+import { hasPermission, isTwoFactorRequired, Permission } from "../config/permissions.config";
 
-export const authenticate = (req: Request, res: Response, next: NextFunction): any => {
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<any> => {
     try {
         const token = req.header("Authorization")?.replace("Bearer ", "");
         if (!token) {
@@ -18,8 +21,24 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): a
             return res.status(401).json(response);
         }
 
-        const decoded = verifyToken(token) as { id: string; role: string };
-        req.user = decoded;
+        const decoded = verifyToken(token) as AccessTokenPayload;
+
+        // Access tokens stay valid only as long as the session they were issued for
+        const session = decoded.sid ? await SessionService.getActiveSession(decoded.sid) : null;
+        if (!session || session.userId !== decoded.id) {
+            logger.error("Session has been revoked");
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Session has expired",
+            };
+            return res.status(401).json(response);
+        }
+
+        // The role is read from the database so that role changes apply immediately
+        req.user = { id: decoded.id, role: session.role, sessionId: decoded.sid, twoFactorEnabled: session.twoFactorEnabled };
         next();
     } catch (err) {
         logger.error("Invalid token", err);
@@ -34,9 +53,41 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): a
     }
 };
 
-export const authorize = (roles: string[]) => {
+/**
+ * Whether the user's role requires two-factor authentication and they haven't enabled it.
+ * Such users can still log in to set it up, but their permissions are withheld until then.
+ */
+export const isTwoFactorSetupMissing = (user: { role: string; twoFactorEnabled?: boolean }): boolean =>
+    isTwoFactorRequired(user.role) && !user.twoFactorEnabled;
+
+/**
+ * Refuse a request because the user still has to enable two-factor authentication.
+ */
+export const sendTwoFactorRequired = (res: Response) => {
+    logger.error("Two-factor authentication is not enabled");
+    const response: ApiResponse<null> = {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: "",
+        error: "Enable two-factor authentication to continue",
+    };
+    return res.status(403).json(response);
+};
+
+/**
+ * Require the logged in user's role to have a permission. Permissions scoped to the
+ * user's own resources pass here; routes acting on a specific resource use the
+ * ownership middleware instead.
+ * @param permission - Permission from the role permission map
+ */
+export const authorize = (permission: Permission) => {
     return (req: Request, res: Response, next: NextFunction): any => {
-        if (!roles.includes(req.user?.role!)) {
+        if (req.user && isTwoFactorSetupMissing(req.user)) {
+            return sendTwoFactorRequired(res);
+        }
+
+        if (!req.user || !hasPermission(req.user.role, permission)) {
             logger.error("Forbidden: Access Denied");
             const response: ApiResponse<null> = {
                 timestamp: Date.now(),
@@ -50,3 +101,44 @@ export const authorize = (roles: string[]) => {
         next();
     };
 };
+
+/**
+ * Require the logged in user to have verified their email address.
+ * Can be turned off with REQUIRE_EMAIL_VERIFICATION=false.
+ */
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+    if (process.env.REQUIRE_EMAIL_VERIFICATION === "false") {
+        return next();
+    }
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: req.user?.id },
+            select: { emailVerified: true },
+        });
+
+        if (!user?.emailVerified) {
+            logger.error("Email address is not verified");
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Please verify your email address first",
+            };
+            return res.status(403).json(response);
+        }
+
+        next();
+    } catch (err) {
+        logger.error(err instanceof Error ? err.message : "Server error");
+        const response: ApiResponse<null> = {
+            timestamp: Date.now(),
+            success: false,
+            data: null,
+            message: "",
+            error: "Server error",
+        };
+        return res.status(500).json(response);
+    }
+};
@@ -0,0 +1,137 @@
+import { NextFunction, Request, Response } from "express";
+import { ApiResponse } from "../../types";
+import logger from "../config/logger.config";
+import { canAccess, Permission } from "../config/permissions.config";
+import prisma from "../config/prisma.config";
+import { isValidObjectId } from "../utils/other.util";
+import { isTwoFactorSetupMissing, sendTwoFactorRequired } from "./auth.middleware";
+
+/**
+ * Find the owner of the resource a request targets.
+ * Resolves to undefined when the resource doesn't exist, and to null when it has no owner.
+ */
+type OwnerResolver = (req: Request) => Promise<string | null | undefined>;
+
+/**
+ * Require the logged in user to have a permission on the resource of the request:
+ * on any resource if their role's scope is "any", otherwise only on resources they own.
+ * Missing resources are passed through so that the handler can answer with a 404.
+ * @param permission - Permission from the role permission map
+ * @param resolveOwner - Finds the owner of the requested resource
+ */
+const authorizeOwner = (permission: Permission, resolveOwner: OwnerResolver) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+        if (req.user && isTwoFactorSetupMissing(req.user)) {
+            return sendTwoFactorRequired(res);
+        }
+
+        try {
+            const ownerId = req.user ? await resolveOwner(req) : null;
+            if (ownerId === undefined) {
+                return next();
+            }
+
+            if (!req.user || !canAccess(req.user, permission, ownerId)) {
+                logger.error("Forbidden: Access Denied");
+                const response: ApiResponse<null> = {
+                    timestamp: Date.now(),
+                    success: false,
+                    data: null,
+                    message: "",
+                    error: "Forbidden: Access Denied",
+                };
+                return res.status(403).json(response);
+            }
+
+            next();
+        } catch (err) {
+            logger.error(err instanceof Error ? err.message : "Server error");
+            const response: ApiResponse<null> = {
+                timestamp: Date.now(),
+                success: false,
+                data: null,
+                message: "",
+                error: "Server error",
+            };
+            return res.status(500).json(response);
+        }
+    };
+};
+
+/**
+ * Require the user to organize the event in the eventId parameter, or to have the permission on any event.
+ * @param permission - Event permission
+ */
+export const authorizeEvent = (permission: Permission) =>
+    authorizeOwner(permission, async (req) => {
+        const { eventId } = req.params;
+        if (!isValidObjectId(eventId)) {
+            return undefined;
+        }
+
+        const event = await prisma.event.findUnique({ where: { id: eventId }, select: { organizerId: true } });
+        return event ? event.organizerId : undefined;
+    });
+
+/**
+ * Require the organizerId parameter to be the user themself, or the user to have the permission on any organizer.
+ * @param permission - Event permission
+ */
+export const authorizeOrganizer = (permission: Permission) =>
+    authorizeOwner(permission, async (req) => req.params.organizerId);
+
+/**
+ * Require the user to own the venue in the venueId parameter, or to have the permission on any venue.
+ * Venues created before venue owners existed have no owner and can only be managed with "any" scope.
+ * @param permission - Venue permission
+ */
+export const authorizeVenue = (permission: Permission) =>
+    authorizeOwner(permission, async (req) => {
+        const { venueId } = req.params;
+        if (!isValidObjectId(venueId)) {
+            return undefined;
+        }
+
+        const venue = await prisma.venue.findUnique({ where: { id: venueId }, select: { ownerId: true } });
+        return venue ? venue.ownerId : undefined;
+    });
+
+/**
+ * Require the user to have made the ticket or venue booking in the bookingId parameter,
+ * or to have the permission on any booking.
+ * @param permission - Booking permission
+ */
+export const authorizeBooking = (permission: Permission) =>
+    authorizeOwner(permission, async (req) => {
+        const { bookingId } = req.params;
+        if (!isValidObjectId(bookingId)) {
+            return undefined;
+        }
+
+        const ticketBooking = await prisma.ticketBooking.findUnique({ where: { id: bookingId }, select: { userId: true } });
+        if (ticketBooking) {
+            return ticketBooking.userId;
+        }
+
+        const venueBooking = await prisma.venueBooking.findUnique({ where: { id: bookingId }, select: { userId: true } });
+        return venueBooking ? venueBooking.userId : undefined;
+    });
+
+/**
+ * Require the user to own the venue of the venue booking in the bookingId parameter,
+ * or to have the permission on any venue.
+ * @param permission - Venue permission
+ */
+export const authorizeBookingVenue = (permission: Permission) =>
+    authorizeOwner(permission, async (req) => {
+        const { bookingId } = req.params;
+        if (!isValidObjectId(bookingId)) {
+            return undefined;
+        }
+
+        const booking = await prisma.venueBooking.findUnique({
+            where: { id: bookingId },
+            select: { venue: { select: { ownerId: true } } },
+        });
+        return booking ? booking.venue.ownerId : undefined;
+    });
@@ -14,4 +14,64 @@ const rateLimiter = rateLimit({
     },
 });
 
+// Stricter limit for endpoints that send emails
+export const emailRateLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: "",
+        error: "Too many requests. Please try again later.",
+    },
+});
+
+// Dedicated limit for password reset requests
+export const passwordResetRateLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: "",
+        error: "Too many password reset requests. Please try again later.",
+    },
+});
+
+// Limits probing which email addresses have an account
+export const accountLookupRateLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 20,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: "",
+        error: "Too many requests. Please try again later.",
+    },
+});
+
+// Limits guessing of two-factor codes
+export const twoFactorRateLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: {
+        timestamp: Date.now(),
+        success: false,
+        data: null,
+        message: "",
+        error: "Too many attempts. Please try again later.",
+    },
+});
+
 export default rateLimiter;
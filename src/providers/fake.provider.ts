@@ -0,0 +1,82 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { hmacSha256, safeCompareSignature } from "../utils/crypto.util";
+import {
+    CreateOrderParams,
+    getHeader,
+    PaymentConfirmation,
+    PaymentProvider,
+    PaymentWebhookEvent,
+    ProviderOrder,
+    ProviderRefund,
+} from "./payment.provider";
+
+/**
+ * In-process payment provider for development and tests.
+ * Orders are kept in memory and every order comes with a pre-signed payment, so
+ * the client can confirm it straight away without any network access.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = "FAKE";
+    private readonly orders = new Map<string, ProviderOrder>();
+
+    constructor(private readonly secret: string) { }
+
+    /**
+     * Sign a payment for an order the way the client would receive it.
+     * @param orderId - Order id
+     * @param paymentId - Payment id
+     * @returns Signature accepted by verifyPayment
+     */
+    sign(orderId: string, paymentId: string): string {
+        return hmacSha256(this.secret, orderId + "|" + paymentId);
+    }
+
+    async createOrder(params: CreateOrderParams): Promise<ProviderOrder> {
+        const orderId = `fake_order_${crypto.randomBytes(8).toString("hex")}`;
+        const paymentId = `fake_pay_${crypto.randomBytes(8).toString("hex")}`;
+
+        const order: ProviderOrder = {
+            orderId,
+            amount: params.amount,
+            currency: params.currency,
+            provider: this.name,
+            checkout: { orderId, paymentId, signature: this.sign(orderId, paymentId) },
+        };
+
+        this.orders.set(orderId, order);
+        return order;
+    }
+
+    async verifyPayment(confirmation: PaymentConfirmation): Promise<boolean> {
+        if (!this.orders.has(confirmation.orderId)) {
+            return false;
+        }
+        return safeCompareSignature(
+            this.sign(confirmation.orderId, confirmation.paymentId),
+            confirmation.signature || ""
+        );
+    }
+
+    async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+        return { refundId: `fake_rfnd_${crypto.randomBytes(8).toString("hex")}`, status: "PROCESSED" };
+    }
+
+    verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+        return safeCompareSignature(hmacSha256(this.secret, rawBody), getHeader(headers, "x-fake-signature"));
+    }
+
+    parseWebhookEvent(rawBody: Buffer): PaymentWebhookEvent {
+        // The fake provider already sends provider independent events
+        const body = JSON.parse(rawBody.toString("utf8"));
+        return {
+            id: body.id,
+            type: body.type,
+            orderId: body.orderId,
+            paymentId: body.paymentId,
+            refundId: body.refundId,
+            amount: body.amount,
+            reason: body.reason,
+        };
+    }
+}
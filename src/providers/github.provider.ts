@@ -0,0 +1,71 @@
+import axios from "axios";
+import { OAuthProfile, OAuthProvider } from "./oauth.provider";
+
+const GITHUB_URL = "https://github.com";
+const GITHUB_API_URL = "https://api.github.com";
+
+type GitHubEmail = {
+    email: string;
+    primary: boolean;
+    verified: boolean;
+};
+
+/**
+ * Sign in with GitHub using the OAuth app authorization code flow.
+ * When a base URL is given (e.g. a local mock server), both the web and the API
+ * endpoints are served from it: /login/oauth/authorize, /login/oauth/access_token,
+ * /user and /user/emails.
+ */
+export class GitHubOAuthProvider implements OAuthProvider {
+    readonly name = "GITHUB";
+
+    private readonly webUrl: string;
+    private readonly apiUrl: string;
+
+    constructor(
+        private readonly clientId: string,
+        private readonly clientSecret: string,
+        baseUrl?: string,
+    ) {
+        this.webUrl = baseUrl || GITHUB_URL;
+        this.apiUrl = baseUrl || GITHUB_API_URL;
+    }
+
+    getAuthorizationUrl(state: string, redirectUri: string): string {
+        const params = new URLSearchParams({
+            client_id: this.clientId,
+            redirect_uri: redirectUri,
+            scope: "read:user user:email",
+            state,
+        });
+        return `${this.webUrl}/login/oauth/authorize?${params.toString()}`;
+    }
+
+    async getProfile(code: string, redirectUri: string): Promise<OAuthProfile> {
+        const { data: token } = await axios.post(
+            `${this.webUrl}/login/oauth/access_token`,
+            { client_id: this.clientId, client_secret: this.clientSecret, code, redirect_uri: redirectUri },
+            { headers: { Accept: "application/json" } }
+        );
+        // GitHub answers failed exchanges with a 200 and an error field
+        if (!token.access_token) {
+            throw new Error(`GitHub token exchange failed: ${token.error || "no access token"}`);
+        }
+
+        const headers = { Authorization: `Bearer ${token.access_token}`, Accept: "application/vnd.github+json" };
+        const [{ data: user }, { data: emails }] = await Promise.all([
+            axios.get(`${this.apiUrl}/user`, { headers }),
+            axios.get<GitHubEmail[]>(`${this.apiUrl}/user/emails`, { headers }),
+        ]);
+
+        // The public profile email may be hidden or unverified; use the verified primary address
+        const primary = emails.find((email) => email.primary && email.verified);
+
+        return {
+            providerAccountId: String(user.id),
+            email: primary?.email || null,
+            emailVerified: !!primary,
+            name: user.name || user.login,
+        };
+    }
+}
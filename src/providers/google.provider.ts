@@ -0,0 +1,66 @@
+import axios from "axios";
+import { OAuthProfile, OAuthProvider } from "./oauth.provider";
+
+const GOOGLE_AUTHORIZE_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const GOOGLE_USERINFO_URL = "https://openidconnect.googleapis.com/v1/userinfo";
+
+/**
+ * Sign in with Google using the OAuth2 authorization code flow and the OpenID Connect userinfo endpoint.
+ * When a base URL is given (e.g. a local mock server), every endpoint is served from it:
+ * /authorize, /token and /userinfo.
+ */
+export class GoogleOAuthProvider implements OAuthProvider {
+    readonly name = "GOOGLE";
+
+    private readonly authorizeUrl: string;
+    private readonly tokenUrl: string;
+    private readonly userInfoUrl: string;
+
+    constructor(
+        private readonly clientId: string,
+        private readonly clientSecret: string,
+        baseUrl?: string,
+    ) {
+        this.authorizeUrl = baseUrl ? `${baseUrl}/authorize` : GOOGLE_AUTHORIZE_URL;
+        this.tokenUrl = baseUrl ? `${baseUrl}/token` : GOOGLE_TOKEN_URL;
+        this.userInfoUrl = baseUrl ? `${baseUrl}/userinfo` : GOOGLE_USERINFO_URL;
+    }
+
+    getAuthorizationUrl(state: string, redirectUri: string): string {
+        const params = new URLSearchParams({
+            client_id: this.clientId,
+            redirect_uri: redirectUri,
+            response_type: "code",
+            scope: "openid email profile",
+            state,
+            prompt: "select_account",
+        });
+        return `${this.authorizeUrl}?${params.toString()}`;
+    }
+
+    async getProfile(code: string, redirectUri: string): Promise<OAuthProfile> {
+        const form = new URLSearchParams({
+            code,
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+            redirect_uri: redirectUri,
+            grant_type: "authorization_code",
+        });
+
+        const { data: token } = await axios.post(this.tokenUrl, form.toString(), {
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        });
+
+        const { data: profile } = await axios.get(this.userInfoUrl, {
+            headers: { Authorization: `Bearer ${token.access_token}` },
+        });
+
+        return {
+            providerAccountId: String(profile.sub),
+            email: profile.email || null,
+            emailVerified: profile.email_verified === true || profile.email_verified === "true",
+            name: profile.name || profile.email || "Google user",
+        };
+    }
+}
@@ -0,0 +1,28 @@
+export type OAuthProfile = {
+    providerAccountId: string;
+    email: string | null;
+    // Whether the provider confirmed that the user owns the email address
+    emailVerified: boolean;
+    name: string;
+};
+
+export interface OAuthProvider {
+    /** Name stored on the linked accounts of this provider. */
+    readonly name: "GOOGLE" | "GITHUB";
+
+    /**
+     * Build the URL the user is sent to in order to sign in with the provider.
+     * @param state - Opaque value returned to the callback, checked against the state cookie
+     * @param redirectUri - Callback URL the provider redirects to with the authorization code
+     * @returns Authorization URL
+     */
+    getAuthorizationUrl(state: string, redirectUri: string): string;
+
+    /**
+     * Exchange an authorization code for an access token and fetch the user's profile.
+     * @param code - Authorization code from the callback
+     * @param redirectUri - Callback URL used to obtain the code
+     * @returns Profile of the signed in user
+     */
+    getProfile(code: string, redirectUri: string): Promise<OAuthProfile>;
+}
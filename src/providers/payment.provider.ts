@@ -0,0 +1,93 @@
+import { IncomingHttpHeaders } from "http";
+
+export type CreateOrderParams = {
+    amount: number; // In major currency units, e.g. rupees
+    currency: string;
+    receipt: string;
+    notes?: Record<string, string>;
+};
+
+export type ProviderOrder = {
+    orderId: string;
+    amount: number;
+    currency: string;
+    provider: string;
+    // Provider specific values the client needs to open its checkout
+    checkout: Record<string, unknown>;
+};
+
+export type PaymentConfirmation = {
+    orderId: string;
+    paymentId: string;
+    signature?: string;
+};
+
+export type PaymentWebhookEvent = {
+    id: string;
+    type: "payment.captured" | "payment.failed" | "refund.processed" | "ignored";
+    orderId?: string;
+    paymentId?: string;
+    refundId?: string;
+    // Refunded amount in the currency's major unit
+    amount?: number;
+    reason?: string;
+};
+
+export type ProviderRefund = {
+    refundId: string;
+    status: "PENDING" | "PROCESSED";
+};
+
+export interface PaymentProvider {
+    /** Name stored as the payment method of created payments. */
+    readonly name: string;
+
+    /**
+     * Create an order the client can pay for.
+     * @param params - Amount, currency and receipt of the order
+     * @returns The created order
+     */
+    createOrder(params: CreateOrderParams): Promise<ProviderOrder>;
+
+    /**
+     * Check that a payment reported by the client really happened.
+     * @param confirmation - Order id, payment id and signature sent by the client
+     * @returns Whether the payment is genuine
+     */
+    verifyPayment(confirmation: PaymentConfirmation): Promise<boolean>;
+
+    /**
+     * Refund a captured payment, fully or partially.
+     * @param paymentId - Provider payment id
+     * @param amount - Amount to refund in major currency units
+     * @returns The refund as accepted by the provider
+     */
+    refund(paymentId: string, amount: number): Promise<ProviderRefund>;
+
+    /**
+     * Check the signature of a webhook delivery.
+     * @param rawBody - Exact bytes of the request body
+     * @param headers - Request headers
+     * @returns Whether the delivery was sent by the provider
+     */
+    verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+
+    /**
+     * Map a webhook delivery to a provider independent event.
+     * @param rawBody - Exact bytes of the request body
+     * @param headers - Request headers
+     * @returns Normalized webhook event
+     */
+    parseWebhookEvent(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+}
+
+/**
+ * Read a single header value.
+ * @param headers - Request headers
+ * @param name - Lower-case header name
+ * @returns Header value or an empty string
+ */
+export const getHeader = (headers: IncomingHttpHeaders, name: string): string => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value || "";
+};
@@ -0,0 +1,98 @@
+import { IncomingHttpHeaders } from "http";
+import Razorpay from "razorpay";
+import { hmacSha256, safeCompareSignature } from "../utils/crypto.util";
+import {
+    CreateOrderParams,
+    getHeader,
+    PaymentConfirmation,
+    PaymentProvider,
+    PaymentWebhookEvent,
+    ProviderOrder,
+    ProviderRefund,
+} from "./payment.provider";
+
+export class RazorpayProvider implements PaymentProvider {
+    readonly name = "RAZORPAY";
+    private client?: Razorpay;
+
+    constructor(
+        private readonly keyId: string,
+        private readonly keySecret: string,
+        private readonly webhookSecret: string,
+    ) { }
+
+    // Created lazily so that the server can start without Razorpay credentials
+    private getClient(): Razorpay {
+        if (!this.client) {
+            this.client = new Razorpay({ key_id: this.keyId, key_secret: this.keySecret });
+        }
+        return this.client;
+    }
+
+    async createOrder(params: CreateOrderParams): Promise<ProviderOrder> {
+        const order = await this.getClient().orders.create({
+            amount: Math.round(params.amount * 100), // amount in paise, ensure it's a whole number
+            currency: params.currency,
+            receipt: params.receipt,
+            notes: params.notes,
+        });
+
+        return {
+            orderId: order.id,
+            amount: params.amount,
+            currency: params.currency,
+            provider: this.name,
+            checkout: { keyId: this.keyId, orderId: order.id, amount: order.amount },
+        };
+    }
+
+    async verifyPayment(confirmation: PaymentConfirmation): Promise<boolean> {
+        const expectedSign = hmacSha256(
+            this.keySecret,
+            confirmation.orderId + "|" + confirmation.paymentId
+        );
+        return safeCompareSignature(expectedSign, confirmation.signature || "");
+    }
+
+    async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+        const refund = await this.getClient().payments.refund(paymentId, {
+            amount: Math.round(amount * 100),
+        });
+        return { refundId: refund.id, status: refund.status === "processed" ? "PROCESSED" : "PENDING" };
+    }
+
+    verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+        const expectedSignature = hmacSha256(this.webhookSecret, rawBody);
+        return safeCompareSignature(expectedSignature, getHeader(headers, "x-razorpay-signature"));
+    }
+
+    parseWebhookEvent(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+        const body = JSON.parse(rawBody.toString("utf8"));
+        const id = getHeader(headers, "x-razorpay-event-id");
+        const payment = body?.payload?.payment?.entity;
+        const refund = body?.payload?.refund?.entity;
+
+        switch (body?.event) {
+            case "payment.captured":
+                return { id, type: "payment.captured", orderId: payment?.order_id, paymentId: payment?.id };
+            case "payment.failed":
+                return {
+                    id,
+                    type: "payment.failed",
+                    orderId: payment?.order_id,
+                    paymentId: payment?.id,
+                    reason: payment?.error_description,
+                };
+            case "refund.processed":
+                return {
+                    id,
+                    type: "refund.processed",
+                    paymentId: refund?.payment_id,
+                    refundId: refund?.id,
+                    amount: typeof refund?.amount === "number" ? refund.amount / 100 : undefined,
+                };
+            default:
+                return { id, type: "ignored" };
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import axios from "axios";
+import { IncomingHttpHeaders } from "http";
+import { hmacSha256, safeCompareSignature } from "../utils/crypto.util";
+import {
+    CreateOrderParams,
+    getHeader,
+    PaymentConfirmation,
+    PaymentProvider,
+    PaymentWebhookEvent,
+    ProviderOrder,
+    ProviderRefund,
+} from "./payment.provider";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Payment provider for Stripe style PaymentIntent APIs.
+ * The PaymentIntent id is used both as the order id and as the payment id.
+ */
+export class StripeProvider implements PaymentProvider {
+    readonly name = "STRIPE";
+
+    constructor(
+        private readonly secretKey: string,
+        private readonly publishableKey: string,
+        private readonly webhookSecret: string,
+        private readonly apiUrl: string = STRIPE_API_URL,
+    ) { }
+
+    async createOrder(params: CreateOrderParams): Promise<ProviderOrder> {
+        const form = new URLSearchParams({
+            amount: Math.round(params.amount * 100).toString(),
+            currency: params.currency.toLowerCase(),
+            description: params.receipt,
+            "metadata[receipt]": params.receipt,
+        });
+        for (const [key, value] of Object.entries(params.notes || {})) {
+            form.append(`metadata[${key}]`, value);
+        }
+
+        const { data } = await axios.post(`${this.apiUrl}/payment_intents`, form.toString(), {
+            headers: {
+                Authorization: `Bearer ${this.secretKey}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+        });
+
+        return {
+            orderId: data.id,
+            amount: params.amount,
+            currency: params.currency,
+            provider: this.name,
+            checkout: { publishableKey: this.publishableKey, clientSecret: data.client_secret },
+        };
+    }
+
+    async verifyPayment(confirmation: PaymentConfirmation): Promise<boolean> {
+        // Stripe does not sign client confirmations, so ask the API instead
+        const { data } = await axios.get(`${this.apiUrl}/payment_intents/${confirmation.orderId}`, {
+            headers: { Authorization: `Bearer ${this.secretKey}` },
+        });
+        return data.status === "succeeded";
+    }
+
+    async refund(paymentId: string, amount: number): Promise<ProviderRefund> {
+        const form = new URLSearchParams({
+            payment_intent: paymentId,
+            amount: Math.round(amount * 100).toString(),
+        });
+
+        const { data } = await axios.post(`${this.apiUrl}/refunds`, form.toString(), {
+            headers: {
+                Authorization: `Bearer ${this.secretKey}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+        });
+        return { refundId: data.id, status: data.status === "succeeded" ? "PROCESSED" : "PENDING" };
+    }
+
+    verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+        const parts = getHeader(headers, "stripe-signature").split(",");
+        const timestamp = parts.find((part) => part.startsWith("t="))?.slice(2) || "";
+        const signatures = parts.filter((part) => part.startsWith("v1=")).map((part) => part.slice(3));
+
+        if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+            return false;
+        }
+
+        const expectedSignature = hmacSha256(this.webhookSecret, `${timestamp}.${rawBody.toString("utf8")}`);
+        return signatures.some((signature) => safeCompareSignature(expectedSignature, signature));
+    }
+
+    parseWebhookEvent(rawBody: Buffer): PaymentWebhookEvent {
+        const body = JSON.parse(rawBody.toString("utf8"));
+        const object = body?.data?.object;
+        // Refunds of a charge are listed newest first
+        const refund = object?.refunds?.data?.[0];
+
+        switch (body?.type) {
+            case "payment_intent.succeeded":
+                return { id: body.id, type: "payment.captured", orderId: object?.id, paymentId: object?.id };
+            case "payment_intent.payment_failed":
+                return {
+                    id: body.id,
+                    type: "payment.failed",
+                    orderId: object?.id,
+                    paymentId: object?.id,
+                    reason: object?.last_payment_error?.message,
+                };
+            case "charge.refunded":
+                return {
+                    id: body.id,
+                    type: "refund.processed",
+                    paymentId: object?.payment_intent,
+                    refundId: refund?.id,
+                    amount: typeof refund?.amount === "number" ? refund.amount / 100 : undefined,
+                };
+            default:
+                return { id: body?.id || "", type: "ignored" };
+        }
+    }
+}
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import AdminController from "../controllers/admin.controller";
+import { authenticate, authorize } from "../middlewares/auth.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import { updateRoleSchema } from "../validations/auth.validation";
+
+const adminRouter = Router();
+
+adminRouter.get("/users", authenticate, authorize("users:manage"), AdminController.listUsers);
+adminRouter.patch("/users/:userId/role", authenticate, authorize("users:manage"), validate(updateRoleSchema), AdminController.updateUserRole);
+
+export default adminRouter;
@@ -2,15 +2,30 @@ import { Router } from "express";
 import AuthController from "../controllers/auth.controller";
 import { authenticate } from "../middlewares/auth.middleware";
 import { validate } from "../middlewares/validate.middleware";
-import { checkUserSchema, forgotPasswordSchema, loginSchema, registerSchema, resetPasswordSchema } from "../validations/auth.validation";
+import { accountLookupRateLimiter, emailRateLimiter, passwordResetRateLimiter, twoFactorRateLimiter } from "../middlewares/rateLimiter.middleware";
+import { checkUserSchema, forgotPasswordSchema, loginSchema, registerSchema, resendVerificationSchema, resetPasswordSchema, twoFactorCodeSchema, twoFactorLoginSchema, unlockAccountSchema, verifyEmailSchema } from "../validations/auth.validation";
 
 const authRouter = Router();
 
-authRouter.post("/check-user", validate(checkUserSchema), AuthController.checkExistingUser);
+authRouter.post("/check-user", accountLookupRateLimiter, validate(checkUserSchema), AuthController.checkExistingUser);
 authRouter.post("/register", validate(registerSchema), AuthController.register);
+authRouter.post("/verify-email", validate(verifyEmailSchema), AuthController.verifyEmail);
+authRouter.post("/resend-verification", emailRateLimiter, validate(resendVerificationSchema), AuthController.resendVerificationEmail);
 authRouter.post("/login", validate(loginSchema), AuthController.login);
+authRouter.post("/login/2fa", twoFactorRateLimiter, validate(twoFactorLoginSchema), AuthController.verifyTwoFactorLogin);
+authRouter.get("/oauth/:provider", AuthController.oauthLogin);
+authRouter.get("/oauth/:provider/callback", AuthController.oauthCallback);
+authRouter.post("/refresh", AuthController.refresh);
 authRouter.post("/logout", authenticate, AuthController.logout);
-authRouter.post("/forgot-password", validate(forgotPasswordSchema), AuthController.forgotPassword);
+authRouter.post("/logout-all", authenticate, AuthController.logoutAll);
+authRouter.get("/sessions", authenticate, AuthController.getSessions);
+authRouter.delete("/sessions/:sessionId", authenticate, AuthController.revokeSession);
+authRouter.post("/2fa/setup", authenticate, AuthController.setupTwoFactor);
+authRouter.post("/2fa/enable", authenticate, twoFactorRateLimiter, validate(twoFactorCodeSchema), AuthController.enableTwoFactor);
+authRouter.post("/2fa/disable", authenticate, twoFactorRateLimiter, validate(twoFactorCodeSchema), AuthController.disableTwoFactor);
+authRouter.post("/2fa/recovery-codes", authenticate, twoFactorRateLimiter, validate(twoFactorCodeSchema), AuthController.regenerateRecoveryCodes);
+authRouter.post("/forgot-password", passwordResetRateLimiter, validate(forgotPasswordSchema), AuthController.forgotPassword);
 authRouter.post("/reset-password", validate(resetPasswordSchema), AuthController.resetPassword);
+authRouter.post("/unlock-account", validate(unlockAccountSchema), AuthController.unlockAccount);
 
 export default authRouter;
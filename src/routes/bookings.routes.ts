@@ -0,0 +1,14 @@
+import { Router } from "express";
+import BookingController from "../controllers/booking.controller";
+import TicketController from "../controllers/ticket.controller";
+import { authenticate } from "../middlewares/auth.middleware";
+import { authorizeBooking } from "../middlewares/ownership.middleware";
+
+const bookingRouter = Router();
+
+bookingRouter.get("/:bookingId", authenticate, authorizeBooking("bookings:view"), BookingController.getBookingById);
+bookingRouter.get("/:bookingId/tickets", authenticate, authorizeBooking("bookings:view"), TicketController.getBookingTickets);
+bookingRouter.get("/:bookingId/tickets/pdf", authenticate, authorizeBooking("bookings:view"), BookingController.downloadTickets);
+bookingRouter.get("/:bookingId/invoice", authenticate, authorizeBooking("bookings:view"), BookingController.downloadInvoice);
+
+export default bookingRouter;
@@ -1,18 +1,24 @@
 import { Router } from "express";
 import EventController from "../controllers/event.controller";
+import TicketController from "../controllers/ticket.controller";
 import { authenticate, authorize } from "../middlewares/auth.middleware";
+import { authorizeEvent, authorizeOrganizer } from "../middlewares/ownership.middleware";
 import { upload } from "../config/multer.config";
 
 const eventRouter = Router();
 
-eventRouter.post("/", authenticate, authorize(['USER']), upload.single("image"), EventController.createEvent);
-eventRouter.post("/", authenticate, authorize(['USER']), upload.single("image"), EventController.createEvent);
+eventRouter.post("/", authenticate, authorize("events:create"), upload.single("image"), EventController.createEvent);
+eventRouter.post("/", authenticate, authorize("events:create"), upload.single("image"), EventController.createEvent);
 eventRouter.get("/", authenticate, EventController.getAllEvents);
 eventRouter.get("/public", EventController.getAllPublicEvents);
-eventRouter.get("/public/upcoming", authenticate, authorize(['USER']), EventController.getUpcomingPublicEvents);
-eventRouter.get("/organizer/:organizerId", authenticate, authorize(['ADMIN', 'USER']), EventController.getEventsByOrganizer);
+eventRouter.get("/public/upcoming", authenticate, authorize("tickets:book"), EventController.getUpcomingPublicEvents);
+eventRouter.get("/search", EventController.searchEvents);
+eventRouter.get("/recommended", authenticate, EventController.getRecommendedEvents);
+eventRouter.get("/organizer/:organizerId", authenticate, authorizeOrganizer("events:view-organizer"), EventController.getEventsByOrganizer);
 eventRouter.get("/:eventId", EventController.getEventById);
-eventRouter.put("/:eventId", authenticate, EventController.updateEvent);
-eventRouter.delete("/:eventId", authenticate, authorize(['ADMIN']), EventController.deleteEvent);
+eventRouter.post("/:eventId/check-in", authenticate, authorizeEvent("events:check-in"), TicketController.checkIn);
+eventRouter.get("/:eventId/check-in/stats", authenticate, authorizeEvent("events:check-in"), TicketController.getCheckInStats);
+eventRouter.put("/:eventId", authenticate, authorizeEvent("events:update"), EventController.updateEvent);
+eventRouter.delete("/:eventId", authenticate, authorizeEvent("events:delete"), EventController.deleteEvent);
 
 export default eventRouter;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import BookingController from "../controllers/booking.controller";
+import ProfileController from "../controllers/profile.controller";
+import { upload } from "../config/multer.config";
+import { authenticate } from "../middlewares/auth.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import { changePasswordSchema, deleteAccountSchema, updateProfileSchema } from "../validations/profile.validation";
+
+const meRouter = Router();
+
+meRouter.get("/", authenticate, ProfileController.getProfile);
+meRouter.patch("/", authenticate, validate(updateProfileSchema), ProfileController.updateProfile);
+meRouter.put("/password", authenticate, validate(changePasswordSchema), ProfileController.changePassword);
+meRouter.put("/avatar", authenticate, upload.single("avatar"), ProfileController.updateAvatar);
+meRouter.delete("/", authenticate, validate(deleteAccountSchema), ProfileController.deleteAccount);
+meRouter.get("/bookings", authenticate, BookingController.getMyBookings);
+
+export default meRouter;
@@ -0,0 +1,9 @@
+import express, { Router } from "express";
+import PaymentController from "../controllers/payment.controller";
+
+const paymentRouter = Router();
+
+// The signature is computed over the exact bytes the provider sent, so the body must stay raw
+paymentRouter.post("/webhook", express.raw({ type: "application/json" }), PaymentController.webhook);
+
+export default paymentRouter;
@@ -1,10 +1,16 @@
 import { Router } from "express";
-import { createOrder, verifyPayment } from "../controllers/ticketBookingController";
-import { authenticate } from "../middlewares/auth.middleware";
+import { cancelTicketBooking, createOrder, verifyPayment } from "../controllers/ticketBookingController";
+import TicketController from "../controllers/ticket.controller";
+import { authenticate, requireVerifiedEmail } from "../middlewares/auth.middleware";
+import { authorizeBooking } from "../middlewares/ownership.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import { createOrderSchema } from "../validations/ticket.validation";
 
 const router = Router();
 
-router.post("/create-order", authenticate, createOrder);
+router.post("/create-order", authenticate, requireVerifiedEmail, validate(createOrderSchema), createOrder);
 router.post("/verify-payment", authenticate, verifyPayment);
+router.post("/bookings/:bookingId/cancel", authenticate, authorizeBooking("bookings:cancel"), cancelTicketBooking);
+router.get("/:ticketId/qr", authenticate, TicketController.getTicketQrCode);
 
 export default router;
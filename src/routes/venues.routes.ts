@@ -1,14 +1,17 @@
 import { Router } from "express";
 import VenueController from "../controllers/venue.controller";
-import { authenticate, authorize } from "../middlewares/auth.middleware";
+import { authenticate, authorize, requireVerifiedEmail } from "../middlewares/auth.middleware";
+import { authorizeBooking, authorizeBookingVenue, authorizeVenue } from "../middlewares/ownership.middleware";
+import { validate } from "../middlewares/validate.middleware";
 import { upload } from "../config/multer.config";
+import { answerBookingRequestSchema, counterOfferSchema, createAddOnSchema, createClosureSchema, updateAddOnSchema } from "../validations/venue.validation";
 
 const venueRouter = Router();
 
 venueRouter.post(
     "/",
     authenticate,
-    authorize(["ADMIN"]),
+    authorize("venues:create"),
     upload.single("image"),
     VenueController.createVenue
 );
@@ -17,26 +20,138 @@ venueRouter.get("/", VenueController.getAllVenues);
 
 venueRouter.get("/search", VenueController.searchVenues);
 
+venueRouter.post(
+    "/bookings/:bookingId/confirm-payment",
+    authenticate,
+    authorizeBooking("venues:book"),
+    VenueController.confirmBookingPayment
+);
+
+venueRouter.post(
+    "/bookings/:bookingId/cancel",
+    authenticate,
+    authorizeBooking("bookings:cancel"),
+    VenueController.cancelBooking
+);
+
+venueRouter.post(
+    "/bookings/:bookingId/approve",
+    authenticate,
+    authorizeBookingVenue("venues:update"),
+    validate(answerBookingRequestSchema),
+    VenueController.approveBookingRequest
+);
+
+venueRouter.post(
+    "/bookings/:bookingId/reject",
+    authenticate,
+    authorizeBookingVenue("venues:update"),
+    validate(answerBookingRequestSchema),
+    VenueController.rejectBookingRequest
+);
+
+venueRouter.post(
+    "/bookings/:bookingId/counter-offer",
+    authenticate,
+    authorizeBookingVenue("venues:update"),
+    validate(counterOfferSchema),
+    VenueController.counterOfferBookingRequest
+);
+
+venueRouter.post(
+    "/bookings/:bookingId/checkout",
+    authenticate,
+    authorizeBooking("venues:book"),
+    requireVerifiedEmail,
+    VenueController.checkoutBookingRequest
+);
+
 venueRouter.get("/:venueId", VenueController.getVenueById);
 
 venueRouter.put(
     "/:venueId",
     authenticate,
-    authorize(["ADMIN"]),
+    authorizeVenue("venues:update"),
     VenueController.updateVenue
 );
 
 venueRouter.delete(
     "/:venueId",
     authenticate,
-    authorize(["ADMIN"]),
+    authorizeVenue("venues:delete"),
     VenueController.deleteVenue
 );
 
+venueRouter.get("/:venueId/calendar", VenueController.getCalendar);
+
+venueRouter.post("/:venueId/quote", VenueController.getQuote);
+
+venueRouter.get(
+    "/:venueId/closures",
+    authenticate,
+    authorizeVenue("venues:update"),
+    VenueController.listClosures
+);
+
+venueRouter.post(
+    "/:venueId/closures",
+    authenticate,
+    authorizeVenue("venues:update"),
+    validate(createClosureSchema),
+    VenueController.createClosure
+);
+
+venueRouter.delete(
+    "/:venueId/closures/:closureId",
+    authenticate,
+    authorizeVenue("venues:update"),
+    VenueController.deleteClosure
+);
+
+venueRouter.get(
+    "/:venueId/requests",
+    authenticate,
+    authorizeVenue("venues:update"),
+    VenueController.listBookingRequests
+);
+
+venueRouter.get("/:venueId/add-ons", VenueController.listAddOns);
+
+venueRouter.get(
+    "/:venueId/add-ons/all",
+    authenticate,
+    authorizeVenue("venues:update"),
+    VenueController.listAddOns
+);
+
+venueRouter.post(
+    "/:venueId/add-ons",
+    authenticate,
+    authorizeVenue("venues:update"),
+    validate(createAddOnSchema),
+    VenueController.createAddOn
+);
+
+venueRouter.patch(
+    "/:venueId/add-ons/:addOnId",
+    authenticate,
+    authorizeVenue("venues:update"),
+    validate(updateAddOnSchema),
+    VenueController.updateAddOn
+);
+
+venueRouter.delete(
+    "/:venueId/add-ons/:addOnId",
+    authenticate,
+    authorizeVenue("venues:update"),
+    VenueController.deleteAddOn
+);
+
 venueRouter.post(
     "/:venueId/book",
     authenticate,
-    authorize(["USER"]),
+    authorize("venues:book"),
+    requireVerifiedEmail,
     upload.single("eventImage"),
     VenueController.createBooking
 );
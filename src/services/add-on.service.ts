@@ -0,0 +1,223 @@
+import { AddOnPricing, AddOnTier, BookedAddOn, Prisma, VenueAddOn } from "@prisma/client";
+import prisma from "../config/prisma.config";
+import { formatAmount } from "../utils/format.util";
+import { isValidObjectId } from "../utils/other.util";
+import { PriceLine } from "../utils/pricing.util";
+
+export type AddOnInput = {
+    name: string;
+    description?: string;
+    pricing?: AddOnPricing;
+    tiers: AddOnTier[];
+    isAvailable?: boolean;
+};
+
+// Add-on chosen for a booking, e.g. { addOnId: "...", tier: "Premium" }
+export type AddOnSelection = {
+    addOnId: string;
+    tier: string;
+};
+
+/**
+ * Parse the add-ons chosen for a booking.
+ * @param selections - Array of add-on selections, or a JSON string of it
+ * @returns Selections or error
+ */
+const parseSelections = (selections: unknown): AddOnSelection[] | { error: string } => {
+    if (selections === undefined || selections === null || selections === "") {
+        return [];
+    }
+
+    let parsed = selections;
+    if (typeof parsed === "string") {
+        try {
+            parsed = JSON.parse(parsed);
+        } catch {
+            return { error: "Invalid add-ons JSON format" };
+        }
+    }
+
+    if (!Array.isArray(parsed)) {
+        return { error: "Add-ons must be a list" };
+    }
+
+    const seen = new Set<string>();
+    for (const selection of parsed) {
+        if (
+            !selection || typeof selection !== "object" ||
+            typeof selection.addOnId !== "string" || !isValidObjectId(selection.addOnId) ||
+            typeof selection.tier !== "string" || !selection.tier.trim()
+        ) {
+            return { error: "Each add-on needs an addOnId and a tier" };
+        }
+        if (seen.has(selection.addOnId)) {
+            return { error: "Each add-on can only be chosen once" };
+        }
+        seen.add(selection.addOnId);
+    }
+
+    return parsed.map((selection) => ({ addOnId: selection.addOnId, tier: selection.tier.trim() }));
+};
+
+const isDuplicateName = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+export const AddOnService = {
+    /**
+     * List the add-on catalog of a venue.
+     * @param venueId - Venue ID
+     * @param includeUnavailable - Also list add-ons the venue doesn't offer at the moment
+     * @returns Add-ons, by name
+     */
+    listAddOns: async (venueId: string, includeUnavailable = false): Promise<VenueAddOn[]> => {
+        return await prisma.venueAddOn.findMany({
+            where: { venueId, ...(includeUnavailable ? {} : { isAvailable: true }) },
+            orderBy: { name: "asc" },
+        });
+    },
+
+    /**
+     * Add a service to the catalog of a venue.
+     * @param venueId - Venue ID
+     * @param addOn - Name, description, pricing and tiers of the add-on
+     * @returns Created add-on or error
+     */
+    createAddOn: async (venueId: string, addOn: AddOnInput): Promise<VenueAddOn | { error: string }> => {
+        const venue = await prisma.venue.findUnique({ where: { id: venueId }, select: { id: true } });
+        if (!venue) {
+            return { error: "Venue not found" };
+        }
+
+        try {
+            return await prisma.venueAddOn.create({
+                data: {
+                    venueId,
+                    name: addOn.name.trim(),
+                    description: addOn.description?.trim() || null,
+                    pricing: addOn.pricing,
+                    tiers: addOn.tiers.map((tier) => ({ ...tier, name: tier.name.trim() })),
+                    isAvailable: addOn.isAvailable,
+                },
+            });
+        } catch (error) {
+            if (isDuplicateName(error)) {
+                return { error: "The venue already has an add-on with this name" };
+            }
+            throw error;
+        }
+    },
+
+    /**
+     * Change an add-on of a venue. Bookings already made keep the price they were charged.
+     * @param venueId - Venue ID
+     * @param addOnId - Add-on ID
+     * @param changes - Fields to change
+     * @returns Updated add-on or error
+     */
+    updateAddOn: async (
+        venueId: string,
+        addOnId: string,
+        changes: Partial<AddOnInput>
+    ): Promise<VenueAddOn | { error: string }> => {
+        const addOn = await prisma.venueAddOn.findFirst({ where: { id: addOnId, venueId } });
+        if (!addOn) {
+            return { error: "Add-on not found" };
+        }
+
+        try {
+            return await prisma.venueAddOn.update({
+                where: { id: addOnId },
+                data: {
+                    name: changes.name?.trim(),
+                    description: changes.description !== undefined ? changes.description.trim() || null : undefined,
+                    pricing: changes.pricing,
+                    tiers: changes.tiers?.map((tier) => ({ ...tier, name: tier.name.trim() })),
+                    isAvailable: changes.isAvailable,
+                },
+            });
+        } catch (error) {
+            if (isDuplicateName(error)) {
+                return { error: "The venue already has an add-on with this name" };
+            }
+            throw error;
+        }
+    },
+
+    /**
+     * Remove an add-on from the catalog of a venue.
+     * @param venueId - Venue ID
+     * @param addOnId - Add-on ID
+     * @returns Object with success or error
+     */
+    deleteAddOn: async (venueId: string, addOnId: string): Promise<{ success: true } | { error: string }> => {
+        const { count } = await prisma.venueAddOn.deleteMany({ where: { id: addOnId, venueId } });
+        if (count === 0) {
+            return { error: "Add-on not found" };
+        }
+        return { success: true };
+    },
+
+    /**
+     * Price the add-ons chosen for a booking against the venue's catalog. Flat add-ons
+     * are charged once, per-guest add-ons once for every guest.
+     * @param venueId - Venue being booked
+     * @param selections - Chosen add-ons and tiers, as an array or a JSON string
+     * @param guests - Number of guests of the booking
+     * @returns The add-ons as they are booked and their price lines, or error
+     */
+    priceAddOns: async (
+        venueId: string,
+        selections: unknown,
+        guests: number
+    ): Promise<{ addOns: BookedAddOn[]; lines: PriceLine[] } | { error: string }> => {
+        const parsed = parseSelections(selections);
+        if ("error" in parsed) {
+            return parsed;
+        }
+        if (parsed.length === 0) {
+            return { addOns: [], lines: [] };
+        }
+
+        const catalog = await prisma.venueAddOn.findMany({
+            where: { venueId, id: { in: parsed.map((selection) => selection.addOnId) } },
+        });
+
+        const addOns: BookedAddOn[] = [];
+        for (const selection of parsed) {
+            const addOn = catalog.find((item) => item.id === selection.addOnId);
+            if (!addOn) {
+                return { error: "Add-on not found for this venue" };
+            }
+            if (!addOn.isAvailable) {
+                return { error: `${addOn.name} is not available at the moment` };
+            }
+
+            const tier = addOn.tiers.find((option) => option.name.toLowerCase() === selection.tier.toLowerCase());
+            if (!tier) {
+                return { error: `${addOn.name} has no ${selection.tier} option` };
+            }
+
+            const quantity = addOn.pricing === "PER_GUEST" ? guests : 1;
+            addOns.push({
+                addOnId: addOn.id,
+                name: addOn.name,
+                tier: tier.name,
+                pricing: addOn.pricing,
+                price: tier.price,
+                quantity,
+                amount: Math.round(tier.price * quantity * 100) / 100,
+            });
+        }
+
+        const lines = addOns
+            .filter((addOn) => addOn.amount > 0)
+            .map((addOn) => ({
+                label: addOn.pricing === "PER_GUEST"
+                    ? `${addOn.name} (${addOn.tier}, ${addOn.quantity} guests x ${formatAmount(addOn.price)})`
+                    : `${addOn.name} (${addOn.tier})`,
+                amount: addOn.amount,
+            }));
+
+        return { addOns, lines };
+    },
+};
@@ -0,0 +1,38 @@
+import { AuditAction, AuditLog, Prisma } from "@prisma/client";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+
+export type AuditEntry = {
+    userId?: string;
+    email?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    details?: Prisma.InputJsonValue;
+};
+
+export const AuditService = {
+    /**
+     * Record a security relevant event.
+     * Failures are logged rather than thrown so that auditing never breaks the action itself.
+     * @param action - What happened
+     * @param entry - Who and where it happened to, and any details
+     * @returns The audit log entry or null
+     */
+    record: async (action: AuditAction, entry: AuditEntry): Promise<AuditLog | null> => {
+        try {
+            return await prisma.auditLog.create({
+                data: {
+                    action,
+                    userId: entry.userId,
+                    email: entry.email,
+                    ipAddress: entry.ipAddress,
+                    userAgent: entry.userAgent?.slice(0, 512),
+                    details: entry.details,
+                },
+            });
+        } catch (error) {
+            logger.error(`Error recording ${action} audit entry: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    },
+};
@@ -1,9 +1,89 @@
-import { Preferences, UserRole } from "@prisma/client";
+import { Preferences, User } from "@prisma/client";
 import bcrypt from "bcrypt";
 import prisma from "../config/prisma.config";
-import { generateToken } from "../utils/jwt.util";
 import { v4 as uuidv4 } from "uuid";
-import { sendEmail } from "../config/nodemailer.config";
+import { isTwoFactorRequired } from "../config/permissions.config";
+import { generateOpaqueToken, hashToken } from "../utils/crypto.util";
+import { generateChallengeToken, verifyChallengeToken } from "../utils/jwt.util";
+import { OAuthProfile, OAuthProvider } from "../providers/oauth.provider";
+import { AuditService } from "./audit.service";
+import { EmailService } from "./email.service";
+import { LoginThrottleService } from "./login-throttle.service";
+import { ClientInfo, SessionService } from "./session.service";
+import { TwoFactorService } from "./two-factor.service";
+
+const EMAIL_VERIFICATION_HOURS = 24;
+// Minimum time between two verification emails to the same account
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Issue a new email verification token for a user and email them the link.
+ * The link goes to the address waiting to replace the current one, if any.
+ * Only the hash of the token is stored.
+ * @param user - User to verify
+ */
+const sendVerificationEmail = async (user: Pick<User, "id" | "name" | "email" | "pendingEmail">) => {
+    const token = generateOpaqueToken(32);
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            emailVerificationTokenHash: hashToken(token),
+            emailVerificationExpiry: new Date(Date.now() + EMAIL_VERIFICATION_HOURS * 60 * 60 * 1000),
+            emailVerificationSentAt: new Date(),
+        },
+    });
+
+    await EmailService.queue("emailVerification", user.pendingEmail || user.email, {
+        name: user.name,
+        verifyLink: `${process.env.CLIENT_ORIGIN}/verify-email?token=${token}`,
+        expiresInHours: EMAIL_VERIFICATION_HOURS,
+    });
+};
+
+/**
+ * Start a session for a user who just signed in.
+ * @param user - Signed in user with their preferences
+ * @param client - Device and IP the user signed in from
+ * @returns The user's details with the access and refresh tokens
+ */
+const startSession = async (user: User & { preferences: Preferences | null }, client: ClientInfo) => {
+    await LoginThrottleService.reset(user.id);
+    const session = await SessionService.createSession(user, client);
+
+    const loggedInUser = {
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        // The client should send the user to 2FA setup; admin actions are refused until then
+        twoFactorSetupRequired: !user.twoFactorEnabled && isTwoFactorRequired(user.role),
+        preferences: user.preferences,
+    }
+
+    return {
+        error: null,
+        loggedInUser,
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+    };
+};
+
+/**
+ * Finish the first login step: users with two-factor authentication get a challenge
+ * token for the second step, everyone else gets a session right away.
+ * @param user - User who passed the first step, with their preferences
+ * @param client - Device and IP the user signed in from
+ * @returns Challenge token, or the user's details with the access and refresh tokens
+ */
+const signIn = async (user: User & { preferences: Preferences | null }, client: ClientInfo) => {
+    if (user.twoFactorEnabled) {
+        return { error: null, twoFactorRequired: true as const, challengeToken: generateChallengeToken(user.id) };
+    }
+    return await startSession(user, client);
+};
 
 export const AuthService = {
     /**
@@ -28,18 +108,17 @@ export const AuthService = {
     },
 
     /**
-     * Registers a new user.
+     * Registers a new user. Everyone signs up as a regular user; other roles are
+     * assigned by an admin.
      * @param name - User's name
      * @param email - User's email
      * @param password - User's password
-     * @param role - User's role
      * @returns Object with error (if any)
      */
     register: async (
         name: string,
         email: string,
         password: string,
-        role: UserRole,
         preferences: Preferences
     ) => {
         try {
@@ -50,18 +129,20 @@ export const AuthService = {
 
             const hashedPassword = await bcrypt.hash(password, 10);
 
-            await prisma.user.create({
+            const user = await prisma.user.create({
                 data: {
                     name,
                     email,
                     password: hashedPassword,
-                    role,
+                    role: "USER",
                     preferences: {
                         create: preferences,
                     },
                 },
             });
 
+            await sendVerificationEmail(user);
+
             return { error: null };
         } catch (err) {
             console.error("Error while registering user:", err);
@@ -70,56 +151,318 @@ export const AuthService = {
     },
 
     /**
-     * Authenticates a user and returns a JWT token.
+     * Authenticates a user and starts a session.
      * @param email - User's email
      * @param password - User's password
-     * @returns Object containing token or error
+     * @param client - Device and IP the user is logging in from
+     * @returns Object containing the access and refresh tokens or error
      */
-    login: async (email: string, password: string) => {
+    login: async (email: string, password: string, client: ClientInfo = {}) => {
         try {
             const user = await prisma.user.findUnique({
                 where: { email },
                 include: { preferences: true },
             });
-            if (!user) {
-                return { error: "Invalid email or password", token: null };
+
+            const blocked = await LoginThrottleService.check(user?.id ?? null, client);
+            if (blocked) {
+                return { error: blocked.error, token: null, retryAfter: blocked.retryAfter };
             }
 
-            const isPasswordValid = await bcrypt.compare(password, user.password);
-            if (!isPasswordValid) {
+            // Accounts created through social login have no password until they set one
+            const isPasswordValid = !!user?.password && await bcrypt.compare(password, user.password);
+            if (!user || !isPasswordValid) {
+                await LoginThrottleService.recordFailure(user, client);
                 return { error: "Invalid email or password", token: null };
             }
 
-            const payload = { id: user.id, role: user.role };
+            return await signIn(user, client);
+        } catch (err) {
+            throw new Error("Error while logging in user");
+        }
+    },
 
-            const token = generateToken(payload);
+    /**
+     * Signs in a user with an OAuth provider. The provider account is linked to the
+     * user with the same verified email address, or to a new account without a password.
+     * @param provider - OAuth provider the user signed in with
+     * @param profile - Profile returned by the provider
+     * @param client - Device and IP the user is logging in from
+     * @returns Object containing the access and refresh tokens or error
+     */
+    oauthLogin: async (provider: OAuthProvider, profile: OAuthProfile, client: ClientInfo = {}) => {
+        try {
+            const account = await prisma.oAuthAccount.findUnique({
+                where: {
+                    provider_providerAccountId: {
+                        provider: provider.name,
+                        providerAccountId: profile.providerAccountId,
+                    },
+                },
+                include: { user: { include: { preferences: true } } },
+            });
+            if (account) {
+                return await signIn(account.user, client);
+            }
 
-            const loggedInUser = {
-                name: user.name,
-                email: user.email,
-                role: user.role,
-                preferencs: user.preferences,
+            // Linking by email is only safe when the provider vouches for the address
+            if (!profile.email || !profile.emailVerified) {
+                return { error: "Your account with this provider has no verified email address", token: null };
+            }
+
+            let user = await prisma.user.findFirst({
+                where: { email: { equals: profile.email, mode: "insensitive" } },
+                include: { preferences: true },
+            });
+
+            if (!user) {
+                user = await prisma.user.create({
+                    data: {
+                        name: profile.name,
+                        email: profile.email,
+                        role: "USER",
+                        emailVerified: true,
+                        emailVerifiedAt: new Date(),
+                    },
+                    include: { preferences: true },
+                });
+
+                await EmailService.queue("welcome", user.email, { name: user.name });
+            } else if (!user.emailVerified) {
+                // Nobody proved they own the address before, so whoever registered it keeps
+                // no way in: the password, 2FA and sessions of the account are dropped
+                user = await prisma.user.update({
+                    where: { id: user.id },
+                    data: {
+                        emailVerified: true,
+                        emailVerifiedAt: new Date(),
+                        emailVerificationTokenHash: null,
+                        emailVerificationExpiry: null,
+                        password: null,
+                        resetToken: null,
+                        resetTokenExpiry: null,
+                        twoFactorEnabled: false,
+                        twoFactorEnabledAt: null,
+                        twoFactorSecret: null,
+                        twoFactorLastUsedStep: null,
+                        twoFactorRecoveryCodes: [],
+                    },
+                    include: { preferences: true },
+                });
+                await SessionService.revokeAll(user.id);
             }
 
-            return { error: null, loggedInUser, token };
+            await prisma.oAuthAccount.create({
+                data: {
+                    userId: user.id,
+                    provider: provider.name,
+                    providerAccountId: profile.providerAccountId,
+                    email: profile.email,
+                },
+            });
+
+            return await signIn(user, client);
         } catch (err) {
-            throw new Error("Error while logging in user");
+            throw new Error("Error while logging in with OAuth provider");
         }
     },
 
     /**
-     * Logs out a user by deleting the refresh token.
-     * @param userId - User's ID
+     * Completes the login of a user with two-factor authentication.
+     * @param challengeToken - Token returned by the first login step
+     * @param code - Code from the authenticator app or a recovery code
+     * @param client - Device and IP the user is logging in from
+     * @returns Object containing the access and refresh tokens or error
+     */
+    verifyTwoFactorLogin: async (challengeToken: string, code: string, client: ClientInfo = {}) => {
+        try {
+            const userId = verifyChallengeToken(challengeToken);
+            if (!userId) {
+                return { error: "Login expired, please sign in again", token: null };
+            }
+
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                include: { preferences: true },
+            });
+            if (!user) {
+                return { error: "Login expired, please sign in again", token: null };
+            }
+
+            const blocked = await LoginThrottleService.check(user.id, client);
+            if (blocked) {
+                return { error: blocked.error, token: null, retryAfter: blocked.retryAfter };
+            }
+
+            if (!(await TwoFactorService.verifyLogin(user, code))) {
+                await LoginThrottleService.recordFailure(user, client);
+                return { error: "Invalid verification code", token: null };
+            }
+
+            return await startSession(user, client);
+        } catch (err) {
+            throw new Error("Error while verifying two-factor login");
+        }
+    },
+
+    /**
+     * Unlocks an account locked after failed logins, with the token from the lockout email.
+     * @param token - Unlock token
+     * @param client - Device and IP the request came from
      * @returns Object with success or error
      */
-    async logout(userId: string): Promise<{ success: boolean; error?: string }> {
+    unlockAccount: async (token: string, client: ClientInfo = {}) => {
         try {
             const user = await prisma.user.findFirst({
-                where: { id: userId }
+                where: {
+                    unlockTokenHash: hashToken(token),
+                    unlockTokenExpiry: { gt: new Date() },
+                },
             });
 
             if (!user) {
-                return { success: false, error: "User not found" };
+                return { error: "Invalid or expired unlock link" };
+            }
+
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { unlockTokenHash: null, unlockTokenExpiry: null },
+            });
+            await LoginThrottleService.reset(user.id);
+            await AuditService.record("ACCOUNT_UNLOCKED", {
+                userId: user.id,
+                email: user.email,
+                ipAddress: client.ipAddress,
+                userAgent: client.userAgent,
+            });
+
+            return { success: true };
+        } catch (err) {
+            throw new Error("Error while unlocking account");
+        }
+    },
+
+    /**
+     * Verifies a user's email address with the token from the verification email.
+     * @param token - Email verification token
+     * @returns Object with success or error
+     */
+    verifyEmail: async (token: string) => {
+        try {
+            const user = await prisma.user.findFirst({
+                where: {
+                    emailVerificationTokenHash: hashToken(token),
+                    emailVerificationExpiry: { gt: new Date() },
+                },
+            });
+
+            if (!user) {
+                return { error: "Invalid or expired verification link" };
+            }
+
+            // The link confirms a change of address: the pending address replaces the current one
+            if (user.pendingEmail) {
+                const taken = await prisma.user.findUnique({ where: { email: user.pendingEmail } });
+                if (taken) {
+                    return { error: "Email already in use" };
+                }
+            }
+
+            await prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    ...(user.pendingEmail ? { email: user.pendingEmail, pendingEmail: null } : {}),
+                    emailVerified: true,
+                    emailVerifiedAt: new Date(),
+                    emailVerificationTokenHash: null,
+                    emailVerificationExpiry: null,
+                },
+            });
+
+            if (!user.pendingEmail) {
+                await EmailService.queue("welcome", user.email, { name: user.name });
+            }
+
+            return { success: true };
+        } catch (err) {
+            throw new Error("Error while verifying email");
+        }
+    },
+
+    /**
+     * Starts changing a user's email address. The current address stays in use until
+     * the new one is confirmed through the verification email sent to it.
+     * @param userId - User's ID
+     * @param email - New email address
+     * @returns Object with success or error
+     */
+    requestEmailChange: async (userId: string, email: string) => {
+        try {
+            const user = await prisma.user.findUnique({ where: { id: userId } });
+            if (!user) {
+                return { error: "User not found" };
+            }
+
+            if (email.toLowerCase() === user.email.toLowerCase()) {
+                return { success: true };
+            }
+
+            const existingUser = await prisma.user.findFirst({
+                where: { email: { equals: email, mode: "insensitive" } },
+            });
+            if (existingUser) {
+                return { error: "Email already in use" };
+            }
+
+            const updatedUser = await prisma.user.update({
+                where: { id: userId },
+                data: { pendingEmail: email },
+            });
+            await sendVerificationEmail(updatedUser);
+
+            return { success: true };
+        } catch (err) {
+            throw new Error("Error while changing email");
+        }
+    },
+
+    /**
+     * Sends a new verification email. The response doesn't reveal whether the
+     * address belongs to an account.
+     * @param email - User's email
+     * @returns Object with success or error
+     */
+    resendVerificationEmail: async (email: string) => {
+        try {
+            const user = await prisma.user.findUnique({ where: { email } });
+            if (!user || user.emailVerified) {
+                return { success: true };
+            }
+
+            if (user.emailVerificationSentAt &&
+                Date.now() - user.emailVerificationSentAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS) {
+                return { error: "Please wait a minute before requesting another verification email" };
+            }
+
+            await sendVerificationEmail(user);
+
+            return { success: true };
+        } catch (err) {
+            throw new Error("Error while resending verification email");
+        }
+    },
+
+    /**
+     * Logs out a user by revoking the session and with it the refresh token.
+     * @param userId - User's ID
+     * @param sessionId - Session to end
+     * @returns Object with success or error
+     */
+    async logout(userId: string, sessionId: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const revoked = await SessionService.revoke(userId, sessionId);
+            if (!revoked) {
+                return { success: false, error: "Session not found" };
             }
 
             return { success: true };
@@ -129,15 +472,30 @@ export const AuthService = {
     },
 
     /**
-     * Sends a password reset email to the user.
+     * Logs a user out of every device by revoking all of their sessions.
+     * @param userId - User's ID
+     * @returns Number of revoked sessions
+     */
+    logoutAll: async (userId: string) => {
+        try {
+            const revoked = await SessionService.revokeAll(userId);
+            return { revoked };
+        } catch (err) {
+            throw new Error("Error while logging out of all devices");
+        }
+    },
+
+    /**
+     * Queues a password reset email for the user. Succeeds whether or not an account
+     * uses the email, so that the answer doesn't tell which addresses are registered.
      * @param email - User's email
-     * @returns Object with success or error
+     * @returns Object with success
      */
-    forgotPassword: async (email: string) => {
+    forgotPassword: async (email: string): Promise<{ success: true }> => {
         try {
             const user = await prisma.user.findUnique({ where: { email } });
             if (!user) {
-                return { error: "User not found" };
+                return { success: true };
             }
 
             // Generate a unique token for password reset
@@ -150,13 +508,16 @@ export const AuthService = {
                 data: { resetToken, resetTokenExpiry },
             });
 
-            // Send the password reset email
+            // Queue the password reset email
             const resetLink = `${process.env.CLIENT_ORIGIN}/reset-password?token=${resetToken}`;
-            const emailSubject = "Password Reset Request";
-            const emailText = `Click the link to reset your password: ${resetLink}`;
-            const emailHtml = `<p>Click the link to reset your password: <a href="${resetLink}">Reset Password</a></p>`;
-
-            await sendEmail(user.email, emailSubject, emailText, emailHtml);
+            const queued = await EmailService.queue("passwordReset", user.email, {
+                name: user.name,
+                resetLink,
+                expiresInMinutes: 60,
+            });
+            if (!queued) {
+                throw new Error("Failed to queue password reset email");
+            }
 
             return { success: true };
         } catch (err) {
@@ -193,6 +554,10 @@ export const AuthService = {
                 },
             });
 
+            // Whoever had the old password shouldn't stay logged in
+            await SessionService.revokeAll(user.id);
+            await LoginThrottleService.reset(user.id);
+
             return { success: true };
         } catch (err) {
             throw new Error("Error while resetting password");
@@ -0,0 +1,264 @@
+import { Venue, VenueClosure, VenueClosureType } from "@prisma/client";
+import prisma from "../config/prisma.config";
+import { DAY_MS, listUtcDays, startOfUtcDay, toDateKey } from "../utils/date.util";
+
+// Longest range a calendar can be fetched for
+const MAX_CALENDAR_DAYS = 366;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+type VenueSchedule = Pick<Venue, "id" | "closedWeekdays" | "bookingBufferHours">;
+
+export type CalendarDayStatus = "free" | "held" | "booked" | "closed";
+
+export type CalendarDay = {
+    date: string; // YYYY-MM-DD, UTC
+    status: CalendarDayStatus;
+    reason?: string;
+};
+
+export type VenueCalendar = {
+    venueId: string;
+    from: string;
+    to: string;
+    closedWeekdays: number[];
+    bookingBufferHours: number;
+    days: CalendarDay[];
+};
+
+/**
+ * Whether two periods overlap. Both ends are included, as for venue bookings.
+ */
+const overlaps = (startA: Date, endA: Date, startB: Date, endB: Date): boolean =>
+    startA <= endB && endA >= startB;
+
+/**
+ * Explain why a venue is closed during a closure.
+ */
+const describeClosure = (closure: Pick<VenueClosure, "type" | "reason">): string =>
+    closure.reason || (closure.type === "MAINTENANCE" ? "Closed for maintenance" : "Not available for booking");
+
+/**
+ * Fetch the closures of a venue around a period, and its pending or confirmed bookings
+ * and active holds within the venue's buffer time of it. Holds count as pending bookings.
+ */
+const findBlockingPeriods = async (venue: VenueSchedule, startDate: Date, endDate: Date) => {
+    const bufferMs = venue.bookingBufferHours * 60 * 60 * 1000;
+    const bufferedStart = new Date(startDate.getTime() - bufferMs);
+    const bufferedEnd = new Date(endDate.getTime() + bufferMs);
+
+    const [closures, bookings, holds] = await Promise.all([
+        prisma.venueClosure.findMany({
+            where: { venueId: venue.id, startDate: { lte: endDate }, endDate: { gte: startDate } },
+            orderBy: { startDate: "asc" },
+        }),
+        prisma.venueBooking.findMany({
+            where: {
+                venueId: venue.id,
+                status: { in: ["PENDING", "CONFIRMED"] },
+                startDate: { lte: bufferedEnd },
+                endDate: { gte: bufferedStart },
+            },
+            select: { id: true, startDate: true, endDate: true, status: true },
+        }),
+        prisma.venueHold.findMany({
+            where: {
+                venueId: venue.id,
+                status: "ACTIVE",
+                expiresAt: { gt: new Date() },
+                startDate: { lte: bufferedEnd },
+                endDate: { gte: bufferedStart },
+            },
+            select: { id: true, startDate: true, endDate: true, venueBookingId: true },
+        }),
+    ]);
+
+    // Holds of a booking are already covered by the booking itself
+    const bookingIds = new Set(bookings.map((booking) => booking.id));
+    const pendingHolds = holds
+        .filter((hold) => !hold.venueBookingId || !bookingIds.has(hold.venueBookingId))
+        .map((hold) => ({ id: hold.id, startDate: hold.startDate, endDate: hold.endDate, status: "PENDING" as const }));
+
+    return { closures, bookings: [...bookings, ...pendingHolds], bufferMs };
+};
+
+export const AvailabilityService = {
+    /**
+     * Find what prevents a venue from being booked for a period: a blackout or maintenance
+     * closure, a weekday the venue is closed, or another booking including the buffer
+     * time the venue keeps free around bookings.
+     * @param venue - Venue with its weekly schedule
+     * @param startDate - Start of the period
+     * @param endDate - End of the period
+     * @param ignoreBookingId - Booking that doesn't count, e.g. the one being checked
+     * @returns Why the venue can't be booked, or null if it is free
+     */
+    getConflict: async (
+        venue: VenueSchedule,
+        startDate: Date,
+        endDate: Date,
+        ignoreBookingId?: string
+    ): Promise<string | null> => {
+        const { closures, bookings, bufferMs } = await findBlockingPeriods(venue, startDate, endDate);
+
+        if (closures.length > 0) {
+            return `Venue is closed during the selected dates: ${describeClosure(closures[0])}`;
+        }
+
+        const closedDay = listUtcDays(startDate, endDate).find((day) => venue.closedWeekdays.includes(day.getUTCDay()));
+        if (closedDay) {
+            return `Venue is closed on ${WEEKDAYS[closedDay.getUTCDay()]}s`;
+        }
+
+        const overlapping = bookings.filter((booking) => booking.id !== ignoreBookingId);
+        if (overlapping.some((booking) => overlaps(booking.startDate, booking.endDate, startDate, endDate))) {
+            return "Venue is not available for the selected time slot";
+        }
+        if (overlapping.length > 0 && bufferMs > 0) {
+            return `Venue needs ${venue.bookingBufferHours} hour${venue.bookingBufferHours === 1 ? "" : "s"} between bookings`;
+        }
+
+        return null;
+    },
+
+    /**
+     * Build the day-by-day availability of a venue for a date picker. Other users'
+     * bookings only show up as held (awaiting payment) or booked.
+     * @param venueId - Venue ID
+     * @param from - First day of the calendar
+     * @param to - Last day of the calendar
+     * @returns Status of every day from "from" to "to", or error
+     */
+    getCalendar: async (venueId: string, from: Date, to: Date): Promise<VenueCalendar | { error: string }> => {
+        const venue = await prisma.venue.findUnique({
+            where: { id: venueId },
+            select: { id: true, closedWeekdays: true, bookingBufferHours: true },
+        });
+        if (!venue) {
+            return { error: "Venue not found" };
+        }
+
+        const firstDay = startOfUtcDay(from);
+        const lastDay = startOfUtcDay(to);
+        if (lastDay < firstDay) {
+            return { error: "Start date must be before end date" };
+        }
+        if ((lastDay.getTime() - firstDay.getTime()) / DAY_MS + 1 > MAX_CALENDAR_DAYS) {
+            return { error: `The calendar can cover at most ${MAX_CALENDAR_DAYS} days` };
+        }
+
+        const rangeEnd = new Date(lastDay.getTime() + DAY_MS - 1);
+        const { closures, bookings, bufferMs } = await findBlockingPeriods(venue, firstDay, rangeEnd);
+
+        const days = listUtcDays(firstDay, rangeEnd).map((dayStart): CalendarDay => {
+            const date = toDateKey(dayStart);
+            const dayEnd = new Date(dayStart.getTime() + DAY_MS - 1);
+
+            const closure = closures.find((period) => overlaps(period.startDate, period.endDate, dayStart, dayEnd));
+            if (closure) {
+                return { date, status: "closed", reason: describeClosure(closure) };
+            }
+
+            if (venue.closedWeekdays.includes(dayStart.getUTCDay())) {
+                return { date, status: "closed", reason: `Closed on ${WEEKDAYS[dayStart.getUTCDay()]}s` };
+            }
+
+            const dayBookings = bookings.filter((booking) => overlaps(booking.startDate, booking.endDate, dayStart, dayEnd));
+            if (dayBookings.some((booking) => booking.status === "CONFIRMED")) {
+                return { date, status: "booked" };
+            }
+            if (dayBookings.length > 0) {
+                return { date, status: "held" };
+            }
+
+            const inBuffer = bufferMs > 0 && bookings.some((booking) =>
+                overlaps(new Date(booking.startDate.getTime() - bufferMs), new Date(booking.endDate.getTime() + bufferMs), dayStart, dayEnd)
+            );
+            if (inBuffer) {
+                return { date, status: "closed", reason: "Kept free between bookings" };
+            }
+
+            return { date, status: "free" };
+        });
+
+        return {
+            venueId,
+            from: toDateKey(firstDay),
+            to: toDateKey(lastDay),
+            closedWeekdays: venue.closedWeekdays,
+            bookingBufferHours: venue.bookingBufferHours,
+            days,
+        };
+    },
+
+    /**
+     * List the blackout and maintenance periods of a venue that haven't ended yet.
+     * @param venueId - Venue ID
+     * @returns Closures, soonest first
+     */
+    listClosures: async (venueId: string): Promise<VenueClosure[]> => {
+        return await prisma.venueClosure.findMany({
+            where: { venueId, endDate: { gte: new Date() } },
+            orderBy: { startDate: "asc" },
+        });
+    },
+
+    /**
+     * Close a venue for a period. Refused if the venue already has bookings in it,
+     * so those have to be canceled first.
+     * @param venueId - Venue ID
+     * @param closure - Type, period and reason of the closure
+     * @param createdById - User adding the closure
+     * @returns Created closure or error
+     */
+    createClosure: async (
+        venueId: string,
+        closure: { type: VenueClosureType; startDate: Date; endDate: Date; reason?: string },
+        createdById: string
+    ): Promise<VenueClosure | { error: string }> => {
+        const venue = await prisma.venue.findUnique({ where: { id: venueId } });
+        if (!venue) {
+            return { error: "Venue not found" };
+        }
+        if (closure.endDate < closure.startDate) {
+            return { error: "Start date must be before end date" };
+        }
+
+        const bookings = await prisma.venueBooking.count({
+            where: {
+                venueId,
+                status: { in: ["PENDING", "CONFIRMED"] },
+                startDate: { lte: closure.endDate },
+                endDate: { gte: closure.startDate },
+            },
+        });
+        if (bookings > 0) {
+            return { error: "The venue has bookings in this period. Cancel them before closing the venue" };
+        }
+
+        return await prisma.venueClosure.create({
+            data: {
+                venueId,
+                type: closure.type,
+                startDate: closure.startDate,
+                endDate: closure.endDate,
+                reason: closure.reason || null,
+                createdById,
+            },
+        });
+    },
+
+    /**
+     * Remove a closure of a venue.
+     * @param venueId - Venue ID
+     * @param closureId - Closure ID
+     * @returns Object with success or error
+     */
+    deleteClosure: async (venueId: string, closureId: string): Promise<{ success: true } | { error: string }> => {
+        const { count } = await prisma.venueClosure.deleteMany({ where: { id: closureId, venueId } });
+        if (count === 0) {
+            return { error: "Closure not found" };
+        }
+        return { success: true };
+    },
+};
@@ -0,0 +1,194 @@
+import { BookingStatus, Prisma } from "@prisma/client";
+import prisma from "../config/prisma.config";
+
+export type BookingType = "TICKET" | "VENUE";
+
+export type BookingSummary = {
+    id: string;
+    type: BookingType;
+    userId: string;
+    status: BookingStatus;
+    startDate: Date;
+    endDate: Date;
+    createdAt: Date;
+    event: { id: string; title: string; date: Date; image: string | null; category: string } | null;
+    venue: { id: string; name: string; location: string; image: string } | null;
+    seatTier: { seatType: string; price: number | null } | null;
+    ticketCount: number | null;
+    guests: number | null;
+    totalAmount: number;
+    payment: {
+        id: string;
+        status: string;
+        amount: number;
+        refundedAmount: number;
+        paymentMethod: string;
+    } | null;
+};
+
+export type BookingFilters = {
+    status?: BookingStatus;
+    type?: BookingType;
+    when?: "upcoming" | "past";
+};
+
+const eventSelect = { id: true, title: true, date: true, image: true, category: true, venue: true };
+const venueSelect = { id: true, name: true, location: true, image: true };
+const paymentSelect = { id: true, status: true, amount: true, refundedAmount: true, paymentMethod: true };
+
+const ticketBookingInclude = {
+    event: { select: eventSelect },
+    tier: { select: { seatType: true, price: true } },
+    payment: { select: paymentSelect },
+} satisfies Prisma.TicketBookingInclude;
+
+const venueBookingInclude = {
+    event: { select: eventSelect },
+    venue: { select: venueSelect },
+    payment: { select: paymentSelect },
+} satisfies Prisma.VenueBookingInclude;
+
+type TicketBookingWithDetails = Prisma.TicketBookingGetPayload<{ include: typeof ticketBookingInclude }>;
+type VenueBookingWithDetails = Prisma.VenueBookingGetPayload<{ include: typeof venueBookingInclude }>;
+
+const toTicketSummary = (booking: TicketBookingWithDetails): BookingSummary => {
+    const { venue, ...event } = booking.event;
+    return {
+        id: booking.id,
+        type: "TICKET",
+        userId: booking.userId,
+        status: booking.status,
+        startDate: booking.event.date,
+        endDate: booking.event.date,
+        createdAt: booking.createdAt,
+        event,
+        venue: venue ? { id: venue.id, name: venue.name, location: venue.location, image: venue.image } : null,
+        seatTier: { seatType: booking.seatType, price: booking.tier?.price ?? null },
+        ticketCount: booking.ticketCount,
+        guests: null,
+        totalAmount: booking.payment.amount,
+        payment: booking.payment,
+    };
+};
+
+const toVenueSummary = (booking: VenueBookingWithDetails): BookingSummary => {
+    let event: BookingSummary["event"] = null;
+    if (booking.event) {
+        const { venue, ...eventDetails } = booking.event;
+        event = eventDetails;
+    }
+
+    return {
+        id: booking.id,
+        type: "VENUE",
+        userId: booking.userId,
+        status: booking.status,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        createdAt: booking.createdAt,
+        event,
+        venue: booking.venue,
+        seatTier: null,
+        ticketCount: null,
+        guests: booking.guests,
+        totalAmount: booking.totalCost,
+        payment: booking.payment,
+    };
+};
+
+export const BookingService = {
+    /**
+     * Get the ticket and venue bookings of a user, newest first.
+     * @param userId - User ID
+     * @param filters - Filters for status, booking type and upcoming/past
+     * @param page - Page number for pagination
+     * @param limit - Number of items per page
+     * @returns Paginated list of bookings
+     */
+    getUserBookings: async (
+        userId: string,
+        filters: BookingFilters,
+        page: number = 1,
+        limit: number = 10
+    ) => {
+        try {
+            const { status, type, when } = filters;
+            const now = new Date();
+            const dateFilter = when === "upcoming" ? { gte: now } : when === "past" ? { lt: now } : undefined;
+
+            const ticketWhere: Prisma.TicketBookingWhereInput = { userId };
+            if (status) ticketWhere.status = status;
+            if (dateFilter) ticketWhere.event = { date: dateFilter };
+
+            const venueWhere: Prisma.VenueBookingWhereInput = { userId };
+            if (status) venueWhere.status = status;
+            if (dateFilter) venueWhere.startDate = dateFilter;
+
+            // Each collection can contribute at most page * limit items to the requested page
+            const take = page * limit;
+
+            const [ticketBookings, ticketTotal, venueBookings, venueTotal] = await Promise.all([
+                type === "VENUE" ? [] : prisma.ticketBooking.findMany({
+                    where: ticketWhere,
+                    include: ticketBookingInclude,
+                    orderBy: { createdAt: "desc" },
+                    take,
+                }),
+                type === "VENUE" ? 0 : prisma.ticketBooking.count({ where: ticketWhere }),
+                type === "TICKET" ? [] : prisma.venueBooking.findMany({
+                    where: venueWhere,
+                    include: venueBookingInclude,
+                    orderBy: { createdAt: "desc" },
+                    take,
+                }),
+                type === "TICKET" ? 0 : prisma.venueBooking.count({ where: venueWhere }),
+            ]);
+
+            const bookings = [
+                ...ticketBookings.map(toTicketSummary),
+                ...venueBookings.map(toVenueSummary),
+            ]
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+                .slice((page - 1) * limit, page * limit);
+
+            const total = ticketTotal + venueTotal;
+
+            return {
+                bookings,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
+                },
+            };
+        } catch (error) {
+            throw new Error("Error fetching bookings: " + error);
+        }
+    },
+
+    /**
+     * Get a ticket or venue booking by ID.
+     * @param id - Booking ID
+     * @returns Booking with its event, venue, seat tier and payment, or null
+     */
+    getBookingById: async (id: string): Promise<BookingSummary | null> => {
+        try {
+            const ticketBooking = await prisma.ticketBooking.findUnique({
+                where: { id },
+                include: ticketBookingInclude,
+            });
+            if (ticketBooking) {
+                return toTicketSummary(ticketBooking);
+            }
+
+            const venueBooking = await prisma.venueBooking.findUnique({
+                where: { id },
+                include: venueBookingInclude,
+            });
+            return venueBooking ? toVenueSummary(venueBooking) : null;
+        } catch (error) {
+            throw new Error("Error fetching booking by ID");
+        }
+    },
+};
@@ -0,0 +1,179 @@
+import { Refund, TicketBooking, VenueBooking } from "@prisma/client";
+import logger from "../config/logger.config";
+import { canAccess } from "../config/permissions.config";
+import prisma from "../config/prisma.config";
+import { calculateRefund, RefundQuote } from "../utils/cancellation.util";
+import { EventService } from "./event.service";
+import { InventoryService } from "./inventory.service";
+import { NotificationService } from "./notification.service";
+import { PaymentService } from "./payment.service";
+import { TicketService } from "./ticket.service";
+import { VenueHoldService } from "./venue-hold.service";
+
+type CancellationResult<T> = {
+    booking: T;
+    refund: RefundQuote & { entry: Refund | null; error?: string };
+};
+
+/**
+ * Refund a canceled booking according to the cancellation policy that applies to it.
+ * @param paymentId - Payment of the booking
+ * @param quote - Refund worked out from the policy
+ * @param reason - Why the booking was canceled
+ * @param booking - Booking the refund belongs to
+ * @returns The refund quote with its ledger entry
+ */
+const issueRefund = async (
+    paymentId: string,
+    quote: RefundQuote,
+    reason: string,
+    booking: { ticketBookingId?: string; venueBookingId?: string }
+): Promise<CancellationResult<unknown>["refund"]> => {
+    if (quote.amount <= 0) {
+        return { ...quote, entry: null };
+    }
+
+    const refund = await PaymentService.refundPayment(paymentId, quote.amount, reason, booking);
+    if ("error" in refund) {
+        return { ...quote, entry: null, error: refund.error };
+    }
+    return { ...quote, entry: refund };
+};
+
+export const CancellationService = {
+    /**
+     * Cancel a ticket booking, return its seats and refund it per the event's policy.
+     * @param bookingId - Ticket booking ID
+     * @param user - User requesting the cancellation
+     * @param reason - Why the booking is canceled (optional)
+     * @returns The canceled booking with its refund, or error
+     */
+    cancelTicketBooking: async (
+        bookingId: string,
+        user: { id: string; role: string },
+        reason?: string
+    ): Promise<CancellationResult<TicketBooking> | { error: string }> => {
+        const booking = await prisma.ticketBooking.findUnique({
+            where: { id: bookingId },
+            include: { event: true, payment: true },
+        });
+
+        if (!booking || !canAccess(user, "bookings:cancel", booking.userId)) {
+            return { error: "Booking not found" };
+        }
+
+        if (booking.status === "CANCELED") {
+            return { error: "Booking is already canceled" };
+        }
+
+        if (booking.event.date <= new Date()) {
+            return { error: "Bookings can't be canceled after the event has started" };
+        }
+
+        const { count } = await prisma.ticketBooking.updateMany({
+            where: { id: bookingId, status: booking.status },
+            data: { status: "CANCELED" },
+        });
+        if (count === 0) {
+            return { error: "Booking is already canceled" };
+        }
+
+        await TicketService.voidTickets(bookingId);
+        await InventoryService.refreshSearchFields(booking.eventId);
+
+        const holds = await prisma.ticketHold.findMany({ where: { ticketBookingId: bookingId } });
+        for (const hold of holds) {
+            if (hold.status === "ACTIVE") {
+                await InventoryService.releaseHold(hold.id);
+            } else if (hold.status === "CONFIRMED") {
+                await InventoryService.returnSeats(hold.id);
+            }
+        }
+
+        const canceledBooking = { ...booking, status: "CANCELED" as const };
+        const cancellationReason = reason || "Canceled by user";
+
+        if (booking.status === "PENDING") {
+            // Nothing was charged yet, so there is nothing to refund
+            await prisma.payment.updateMany({
+                where: { id: booking.paymentId, status: { in: ["PENDING", "FAILED"] } },
+                data: { status: "FAILED", failureReason: cancellationReason },
+            });
+            await NotificationService.bookingCanceled({ ticketBookingId: bookingId }, { amount: 0, percent: 0 });
+            return { booking: canceledBooking, refund: { percent: 0, amount: 0, rule: "NONE", entry: null } };
+        }
+
+        const quote = calculateRefund(booking.event.cancellationPolicy, booking.event.date, booking.payment.amount);
+        const refund = await issueRefund(booking.paymentId, quote, cancellationReason, { ticketBookingId: bookingId });
+        await NotificationService.bookingCanceled({ ticketBookingId: bookingId }, quote);
+
+        logger.info(`Ticket booking ${bookingId} canceled with a ${quote.percent}% refund`);
+        return { booking: canceledBooking, refund };
+    },
+
+    /**
+     * Cancel a venue booking, free its dates and refund it per the venue's policy.
+     * @param bookingId - Venue booking ID
+     * @param user - User requesting the cancellation
+     * @param reason - Why the booking is canceled (optional)
+     * @returns The canceled booking with its refund, or error
+     */
+    cancelVenueBooking: async (
+        bookingId: string,
+        user: { id: string; role: string },
+        reason?: string
+    ): Promise<CancellationResult<VenueBooking> | { error: string }> => {
+        const booking = await prisma.venueBooking.findUnique({
+            where: { id: bookingId },
+            include: { venue: true, payment: true },
+        });
+
+        if (!booking || !canAccess(user, "bookings:cancel", booking.userId)) {
+            return { error: "Booking not found" };
+        }
+
+        if (booking.status === "CANCELED") {
+            return { error: "Booking is already canceled" };
+        }
+
+        if (booking.startDate <= new Date()) {
+            return { error: "Bookings can't be canceled after they have started" };
+        }
+
+        // Canceled bookings no longer count towards the venue's availability
+        const { count } = await prisma.venueBooking.updateMany({
+            where: { id: bookingId, status: booking.status },
+            data: { status: "CANCELED" },
+        });
+        if (count === 0) {
+            return { error: "Booking is already canceled" };
+        }
+
+        const holds = await prisma.venueHold.findMany({ where: { venueBookingId: bookingId } });
+        for (const hold of holds) {
+            await VenueHoldService.releaseHold(hold.id);
+        }
+
+        const canceledBooking = { ...booking, status: "CANCELED" as const };
+        const cancellationReason = reason || "Canceled by user";
+
+        if (booking.status === "PENDING" || !booking.payment) {
+            if (booking.paymentId) {
+                await prisma.payment.updateMany({
+                    where: { id: booking.paymentId, status: { in: ["PENDING", "FAILED"] } },
+                    data: { status: "FAILED", failureReason: cancellationReason },
+                });
+            }
+            await EventService.unpublishEvent(booking.eventId);
+            await NotificationService.bookingCanceled({ venueBookingId: bookingId }, { amount: 0, percent: 0 });
+            return { booking: canceledBooking, refund: { percent: 0, amount: 0, rule: "NONE", entry: null } };
+        }
+
+        const quote = calculateRefund(booking.venue.cancellationPolicy, booking.startDate, booking.payment.amount);
+        const refund = await issueRefund(booking.payment.id, quote, cancellationReason, { venueBookingId: bookingId });
+        await NotificationService.bookingCanceled({ venueBookingId: bookingId }, quote);
+
+        logger.info(`Venue booking ${bookingId} canceled with a ${quote.percent}% refund`);
+        return { booking: canceledBooking, refund };
+    },
+};
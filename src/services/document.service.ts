@@ -0,0 +1,208 @@
+import PDFDocument from "pdfkit";
+import { canAccess } from "../config/permissions.config";
+import prisma from "../config/prisma.config";
+import { countBookingDays } from "../utils/date.util";
+import { formatAmount, formatDate, formatDateTime } from "../utils/format.util";
+import { signTicketToken } from "../utils/ticket-token.util";
+import { TicketService } from "./ticket.service";
+
+export type PdfDocument = {
+    filename: string;
+    content: Buffer;
+};
+
+type RequestingUser = { id: string; role: string };
+
+const DEFAULT_GST_PERCENT = 18;
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Draw a PDF document and collect it into a buffer.
+ * @param draw - Callback drawing the pages
+ * @returns PDF contents
+ */
+const renderPdf = (draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ size: "A4", margin: 50 });
+        const chunks: Buffer[] = [];
+
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+
+        draw(doc);
+        doc.end();
+    });
+};
+
+/**
+ * Draw a label/value row of an invoice table.
+ */
+const drawRow = (doc: PDFKit.PDFDocument, label: string, value: string, options: { bold?: boolean } = {}) => {
+    const y = doc.y;
+    doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(11);
+    doc.text(label, 50, y, { width: 340 });
+    doc.text(value, 390, y, { width: 155, align: "right" });
+    doc.moveDown(0.4);
+};
+
+export const DocumentService = {
+    /**
+     * Render the e-tickets of a booking as a PDF, one ticket per page.
+     * @param bookingId - Ticket booking ID
+     * @param user - User requesting the document
+     * @returns PDF document or error
+     */
+    getTicketsPdf: async (bookingId: string, user: RequestingUser): Promise<PdfDocument | { error: string }> => {
+        const booking = await prisma.ticketBooking.findUnique({
+            where: { id: bookingId },
+            include: {
+                user: { select: { name: true } },
+                event: { include: { venue: true } },
+                tickets: { orderBy: { number: "asc" } },
+            },
+        });
+
+        if (!booking || !canAccess(user, "bookings:view", booking.userId)) {
+            return { error: "Booking not found" };
+        }
+
+        const tickets = booking.tickets.filter((ticket) => ticket.status !== "VOID");
+        if (booking.status !== "CONFIRMED" || tickets.length === 0) {
+            return { error: "Tickets are issued once the payment is confirmed" };
+        }
+
+        const qrCodes = await Promise.all(
+            tickets.map(
+                (ticket) =>
+                    TicketService.renderQrCode(signTicketToken({ tid: ticket.id, eid: ticket.eventId }), "png") as Promise<Buffer>
+            )
+        );
+
+        const { event } = booking;
+        const venue = event.venue ? `${event.venue.name}, ${event.venue.location}` : "Venue to be announced";
+
+        const content = await renderPdf((doc) => {
+            tickets.forEach((ticket, index) => {
+                if (index > 0) {
+                    doc.addPage();
+                }
+
+                doc.font("Helvetica-Bold").fontSize(22).text(event.title, { align: "center" });
+                doc.moveDown(0.5);
+                doc.font("Helvetica").fontSize(12).fillColor("#555555")
+                    .text(`Ticket ${ticket.number} of ${booking.ticketCount}`, { align: "center" });
+                doc.fillColor("#000000").moveDown(1.5);
+
+                drawRow(doc, "Date", formatDateTime(event.date));
+                drawRow(doc, "Venue", venue);
+                drawRow(doc, "Seat tier", ticket.seatType);
+                drawRow(doc, "Ticket holder", booking.user.name);
+                drawRow(doc, "Booking ID", booking.id);
+                drawRow(doc, "Ticket ID", ticket.id);
+
+                doc.image(qrCodes[index], (doc.page.width - 220) / 2, doc.y + 20, { width: 220 });
+                doc.y += 260;
+                doc.font("Helvetica").fontSize(10).fillColor("#555555")
+                    .text("Show this QR code at the entrance. Each ticket can only be scanned once.", 50, doc.y, {
+                        align: "center",
+                    });
+                doc.fillColor("#000000");
+            });
+        });
+
+        return { filename: `tickets-${booking.id}.pdf`, content };
+    },
+
+    /**
+     * Render the tax invoice of a paid venue booking.
+     * Amounts charged are inclusive of GST, so the tax is broken out of the total.
+     * @param bookingId - Venue booking ID
+     * @param user - User requesting the document
+     * @returns PDF document or error
+     */
+    getVenueInvoicePdf: async (bookingId: string, user: RequestingUser): Promise<PdfDocument | { error: string }> => {
+        const booking = await prisma.venueBooking.findUnique({
+            where: { id: bookingId },
+            include: {
+                user: { select: { name: true, email: true } },
+                venue: true,
+                payment: true,
+            },
+        });
+
+        if (!booking || !canAccess(user, "bookings:view", booking.userId)) {
+            return { error: "Booking not found" };
+        }
+
+        const { payment, venue } = booking;
+        if (!payment || (payment.status !== "COMPLETED" && payment.status !== "REFUNDED")) {
+            return { error: "An invoice is available once the booking is paid" };
+        }
+
+        // Bookings made before itemized quotes only have the flat day rate and service costs
+        const days = countBookingDays(booking.startDate, booking.endDate);
+        const lines = booking.priceLines.length > 0 ? booking.priceLines : [
+            { label: `Venue rental (${days} day${days === 1 ? "" : "s"} x ${formatAmount(venue.pricePerDay)})`, amount: days * venue.pricePerDay },
+            { label: "Catering", amount: booking.services?.catering ?? 0 },
+            { label: "Decoration", amount: booking.services?.decoration ?? 0 },
+            { label: "Photography", amount: booking.services?.photography ?? 0 },
+            { label: "Music", amount: booking.services?.music ?? 0 },
+        ];
+
+        const gstPercent = Number(process.env.INVOICE_GST_PERCENT ?? DEFAULT_GST_PERCENT);
+        const total = roundCurrency(payment.amount);
+        const taxableValue = roundCurrency(total / (1 + gstPercent / 100));
+        const cgst = roundCurrency((total - taxableValue) / 2);
+        const sgst = roundCurrency(total - taxableValue - cgst);
+
+        const issuedAt = payment.createdAt;
+        const invoiceNumber = `INV-${issuedAt.toISOString().slice(0, 10).replace(/-/g, "")}-${booking.id.slice(-8).toUpperCase()}`;
+
+        const content = await renderPdf((doc) => {
+            doc.font("Helvetica-Bold").fontSize(20).text("Tax Invoice", { align: "right" });
+            doc.font("Helvetica").fontSize(10)
+                .text(`Invoice number: ${invoiceNumber}`, { align: "right" })
+                .text(`Invoice date: ${formatDate(issuedAt)}`, { align: "right" });
+            if (process.env.INVOICE_GSTIN) {
+                doc.text(`GSTIN: ${process.env.INVOICE_GSTIN}`, { align: "right" });
+            }
+            doc.moveDown(1.5);
+
+            doc.font("Helvetica-Bold").fontSize(11).text("Billed to", 50);
+            doc.font("Helvetica").fontSize(11).text(booking.user.name).text(booking.user.email);
+            doc.moveDown();
+
+            doc.font("Helvetica-Bold").text("Venue");
+            doc.font("Helvetica").text(venue.name).text(venue.location);
+            doc.text(`${formatDate(booking.startDate)} to ${formatDate(booking.endDate)}, ${booking.guests} guests`);
+            doc.moveDown(1.5);
+
+            drawRow(doc, "Description", "Amount", { bold: true });
+            doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+            doc.moveDown(0.4);
+            for (const line of lines) {
+                drawRow(doc, line.label, formatAmount(line.amount));
+            }
+            doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+            doc.moveDown(0.4);
+
+            drawRow(doc, "Taxable value", formatAmount(taxableValue));
+            drawRow(doc, `CGST @ ${gstPercent / 2}%`, formatAmount(cgst));
+            drawRow(doc, `SGST @ ${gstPercent / 2}%`, formatAmount(sgst));
+            drawRow(doc, "Total (inclusive of GST)", formatAmount(total), { bold: true });
+            if (payment.refundedAmount > 0) {
+                drawRow(doc, "Refunded", `- ${formatAmount(payment.refundedAmount)}`);
+            }
+            doc.moveDown();
+
+            doc.font("Helvetica").fontSize(10).fillColor("#555555")
+                .text(`Paid via ${payment.paymentMethod}${payment.providerPaymentId ? ` (${payment.providerPaymentId})` : ""}`, 50)
+                .text(`Booking ID: ${booking.id}`);
+            doc.fillColor("#000000");
+        });
+
+        return { filename: `invoice-${invoiceNumber}.pdf`, content };
+    },
+};
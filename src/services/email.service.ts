@@ -0,0 +1,163 @@
+import { EmailOutbox } from "@prisma/client";
+import logger from "../config/logger.config";
+import { EmailAttachment, sendEmail } from "../config/nodemailer.config";
+import prisma from "../config/prisma.config";
+import { EmailTemplateData, EmailTemplateName, renderEmail } from "../templates/email.templates";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+// A message stuck in SENDING this long belongs to a worker that died mid-send
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Sent and failed messages are kept this long for troubleshooting, then deleted
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt of a failed message: 1, 2, 4, 8... minutes.
+ * @param attempts - Attempts made so far
+ * @returns Delay in milliseconds
+ */
+const retryDelay = (attempts: number): number => RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0);
+
+export const EmailService = {
+    /**
+     * Render a templated email and add it to the outbound queue.
+     * Failures are logged rather than thrown so that a notification never breaks the
+     * action that triggered it.
+     * @param template - Template name
+     * @param to - Recipient address
+     * @param data - Values used by the template
+     * @param attachments - Files to attach (optional)
+     * @returns The queued message or null
+     */
+    queue: async <K extends EmailTemplateName>(
+        template: K,
+        to: string,
+        data: EmailTemplateData[K],
+        attachments: EmailAttachment[] = []
+    ): Promise<EmailOutbox | null> => {
+        try {
+            const { subject, text, html } = renderEmail(template, data);
+
+            return await prisma.emailOutbox.create({
+                data: {
+                    to,
+                    template,
+                    subject,
+                    text,
+                    html,
+                    attachments: attachments.map((attachment) => ({
+                        filename: attachment.filename,
+                        contentType: attachment.contentType || "application/octet-stream",
+                        content: attachment.content,
+                    })),
+                },
+            });
+        } catch (error) {
+            logger.error(`Error queueing ${template} email to ${to}: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    },
+
+    /**
+     * Send the messages that are due. Each message is claimed with a conditional
+     * update, so several workers can drain the queue without sending twice.
+     * Failed messages are retried with exponential backoff until MAX_ATTEMPTS.
+     * @param batchSize - Maximum number of messages to send
+     * @returns Number of sent and failed messages
+     */
+    processQueue: async (batchSize = 20): Promise<{ sent: number; failed: number }> => {
+        const now = new Date();
+        const staleLock = new Date(now.getTime() - STALE_LOCK_MS);
+        const due = {
+            OR: [
+                { status: "PENDING" as const, nextAttemptAt: { lte: now } },
+                { status: "SENDING" as const, lockedAt: { lt: staleLock } },
+            ],
+        };
+
+        const messages = await prisma.emailOutbox.findMany({
+            where: due,
+            orderBy: { nextAttemptAt: "asc" },
+            take: batchSize,
+        });
+
+        let sent = 0;
+        let failed = 0;
+
+        for (const message of messages) {
+            const { count } = await prisma.emailOutbox.updateMany({
+                where: { id: message.id, ...due },
+                data: { status: "SENDING", lockedAt: new Date() },
+            });
+            if (count === 0) {
+                continue;
+            }
+
+            const attempts = message.attempts + 1;
+
+            try {
+                await sendEmail(
+                    message.to,
+                    message.subject,
+                    message.text,
+                    message.html,
+                    message.attachments.map((attachment) => ({
+                        filename: attachment.filename,
+                        contentType: attachment.contentType,
+                        content: Buffer.from(attachment.content),
+                    }))
+                );
+
+                // The body may hold reset or verification links and the attachments tickets,
+                // none of which should outlive the delivery
+                await prisma.emailOutbox.update({
+                    where: { id: message.id },
+                    data: {
+                        status: "SENT",
+                        attempts,
+                        sentAt: new Date(),
+                        lockedAt: null,
+                        lastError: null,
+                        text: "",
+                        html: "",
+                        attachments: [],
+                    },
+                });
+                sent++;
+            } catch (error) {
+                const lastError = error instanceof Error ? error.message : String(error);
+                const giveUp = attempts >= MAX_ATTEMPTS;
+
+                await prisma.emailOutbox.update({
+                    where: { id: message.id },
+                    data: {
+                        status: giveUp ? "FAILED" : "PENDING",
+                        attempts,
+                        lastError,
+                        lockedAt: null,
+                        nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+                    },
+                });
+
+                if (giveUp) {
+                    logger.error(`Giving up on email ${message.id} to ${message.to} after ${attempts} attempts: ${lastError}`);
+                    failed++;
+                }
+            }
+        }
+
+        return { sent, failed };
+    },
+
+    /**
+     * Delete sent and failed messages older than the retention period.
+     * @returns Number of deleted messages
+     */
+    purgeOutbox: async (): Promise<number> => {
+        const cutoff = new Date(Date.now() - RETENTION_MS);
+        const { count } = await prisma.emailOutbox.deleteMany({
+            where: { status: { in: ["SENT", "FAILED"] }, updatedAt: { lt: cutoff } },
+        });
+        return count;
+    },
+};
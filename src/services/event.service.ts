@@ -1,7 +1,98 @@
-import { Event } from "@prisma/client";
+import { CancellationPolicy, Event, Prisma, TicketFees } from "@prisma/client";
 import cloudinary from "../config/cloudinary.config";
 import logger from "../config/logger.config";
 import prisma from "../config/prisma.config";
+import { parseCancellationPolicy } from "../utils/cancellation.util";
+import { formatDateTime } from "../utils/format.util";
+import { calculateDistance } from "../utils/other.util";
+import { parseTicketFees } from "../utils/pricing.util";
+import { InventoryService, parseTicketTiers, TicketTierInput } from "./inventory.service";
+import { NotificationService } from "./notification.service";
+import { SearchEventsQuery } from "../validations/event.validation";
+
+// Only what a search result card needs: no organizer details beyond the name, no bookings
+const searchResultSelect = {
+  id: true,
+  title: true,
+  description: true,
+  category: true,
+  date: true,
+  image: true,
+  organizer: { select: { id: true, name: true } },
+  venue: { select: { id: true, name: true, location: true, latitude: true, longitude: true } },
+  ticketTiers: { select: { seatType: true, price: true, availableSeats: true } },
+  startingPrice: true,
+  bookingCount: true,
+} satisfies Prisma.EventSelect;
+
+// What anyone may see of an event: the organizer's public profile and a booking count
+const publicEventInclude = {
+  organizer: { select: { id: true, name: true, avatar: true } },
+  venue: true,
+  ticketTiers: true,
+  _count: { select: { ticketBookings: { where: { status: "CONFIRMED" } } } },
+} satisfies Prisma.EventInclude;
+
+type SearchResultRecord = Prisma.EventGetPayload<{ select: typeof searchResultSelect }>;
+
+export type EventSearchResult = SearchResultRecord & {
+  availableSeats: number;
+  distanceKm: number | null;
+};
+
+// Value of the sort field, or null for the events without a price that follow the priced ones
+type SearchCursor = { value: number | null; id: string };
+
+// Sort orders stored on the event; distance depends on where the user is
+const SORT_FIELDS = { date: "date", price: "startingPrice", popularity: "bookingCount" } as const;
+
+type SortField = (typeof SORT_FIELDS)[keyof typeof SORT_FIELDS];
+
+/**
+ * Encode the position after the last result of a page. Pages are cut on the sort
+ * value and the event ID, so results don't shift when events are added in between.
+ */
+const encodeCursor = (cursor: SearchCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (cursor: string): SearchCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return (typeof decoded?.value === "number" || decoded?.value === null) && typeof decoded?.id === "string"
+      ? decoded
+      : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Events that come after the cursor when sorted on a field and then on the event ID.
+ */
+const afterCursor = (field: SortField, order: "asc" | "desc", cursor: SearchCursor): Prisma.EventWhereInput => {
+  const value = field === "date" ? new Date(cursor.value!) : cursor.value!;
+  return {
+    OR: [
+      { [field]: order === "asc" ? { gt: value } : { lt: value } },
+      { [field]: value, id: { gt: cursor.id } },
+    ],
+  };
+};
+
+/**
+ * Venues roughly within a radius of a point, so that a radius search is narrowed down
+ * in the database before the exact distance is checked.
+ */
+const nearbyVenues = (latitude: number, longitude: number, radiusKm: number): Prisma.VenueWhereInput => {
+  const latitudeDelta = radiusKm / 111.32;
+  const longitudeDelta = radiusKm / (111.32 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+  // Boxes that wrap around the antimeridian are only narrowed by latitude
+  const wraps = Math.abs(longitude) + longitudeDelta > 180;
+  return {
+    latitude: { gte: latitude - latitudeDelta, lte: latitude + latitudeDelta },
+    ...(wraps ? {} : { longitude: { gte: longitude - longitudeDelta, lte: longitude + longitudeDelta } }),
+  };
+};
 
 export const EventService = {
   /**
@@ -15,6 +106,8 @@ export const EventService = {
    * @param venueId - The venue ID (optional)
    * @param imageUrl - The image URL for the event (optional)
    * @param ticketPrices - The ticket prices for the event
+   * @param ticketFees - Taxes and service fees charged on tickets (optional)
+   * @param cancellationPolicy - Refund rules for canceled bookings (optional)
    * @returns Object with the created event or error
    */
   createEvent: async (
@@ -26,27 +119,39 @@ export const EventService = {
     organizerId: string,
     ticketPrices: string,
     venueId?: string,
-    imageUrl?: string
+    imageUrl?: string,
+    ticketFees?: unknown,
+    cancellationPolicy?: unknown
   ): Promise<Event | { error: string }> => {
     try {
       let uploadedImageUrl = "";
-      let parsedTicketPrices = [];
+      let parsedTicketPrices: TicketTierInput[] = [];
+      let parsedTicketFees: TicketFees | undefined;
+      let parsedCancellationPolicy: CancellationPolicy | undefined;
 
       if (ticketPrices) {
-        try {
-          parsedTicketPrices =
-            typeof ticketPrices === "string"
-              ? JSON.parse(ticketPrices)
-              : ticketPrices;
-
-          if (!Array.isArray(parsedTicketPrices)) {
-            return { error: "Ticket prices must be an array of objects" };
-          }
+        const tiers = parseTicketTiers(ticketPrices);
+        if ("error" in tiers) {
+          return tiers;
+        }
+        parsedTicketPrices = tiers;
+        logger.info(`Parsed ${parsedTicketPrices.length} ticket tiers`);
+      }
+
+      if (ticketFees) {
+        const fees = parseTicketFees(ticketFees);
+        if ("error" in fees) {
+          return fees;
+        }
+        parsedTicketFees = fees;
+      }
 
-          logger.info("Parsed ticket prices:", parsedTicketPrices);
-        } catch (parseError) {
-          return { error: "Invalid ticket prices JSON format" };
+      if (cancellationPolicy) {
+        const policy = parseCancellationPolicy(cancellationPolicy);
+        if ("error" in policy) {
+          return policy;
         }
+        parsedCancellationPolicy = policy;
       }
 
       if (imageUrl) {
@@ -66,7 +171,19 @@ export const EventService = {
           organizerId,
           venueId,
           image: uploadedImageUrl,
-          ticketPrices: parsedTicketPrices,
+          ticketFees: parsedTicketFees,
+          cancellationPolicy: parsedCancellationPolicy,
+          startingPrice: parsedTicketPrices.length > 0
+            ? Math.min(...parsedTicketPrices.map((tier) => tier.price))
+            : null,
+          ticketTiers: {
+            create: parsedTicketPrices.map((tier) => ({
+              seatType: tier.seatType,
+              price: tier.price,
+              totalSeats: tier.availableSeats,
+              availableSeats: tier.availableSeats,
+            })),
+          },
         },
       });
       return newEvent;
@@ -102,11 +219,7 @@ export const EventService = {
         where: {
           isPublic: true,
         },
-        include: {
-          organizer: true,
-          venue: true,
-          ticketBookings: true,
-        },
+        include: publicEventInclude,
       });
     } catch (error) {
       throw new Error("Error fetching public events");
@@ -122,7 +235,7 @@ export const EventService = {
     try {
       return await prisma.event.findMany({
         where: { organizerId },
-        include: { venue: true },
+        include: { venue: true, ticketTiers: true },
       });
     } catch (error) {
       throw new Error("Error fetching events for this organizer");
@@ -138,11 +251,7 @@ export const EventService = {
     try {
       return await prisma.event.findUnique({
         where: { id },
-        include: {
-          organizer: true,
-          venue: true,
-          ticketBookings: true,
-        },
+        include: publicEventInclude,
       });
     } catch (error) {
       throw new Error("Error fetching event by ID");
@@ -160,11 +269,7 @@ export const EventService = {
         where: { isPublic: true, date: { gte: new Date() } },
         orderBy: { date: "asc" },
         take: limit,
-        include: {
-          organizer: true,
-          venue: true,
-          ticketBookings: true,
-        },
+        include: publicEventInclude,
       });
       return events;
     } catch (err) {
@@ -181,11 +286,44 @@ export const EventService = {
    */
   updateEvent: async (
     id: string,
-    data: Partial<Event>
+    data: Partial<Event> & { ticketPrices?: unknown }
   ): Promise<Event | { error: string }> => {
     try {
-      return await prisma.event.update({
+      let parsedTicketFees: TicketFees | undefined;
+      if (data.ticketFees) {
+        const fees = parseTicketFees(data.ticketFees);
+        if ("error" in fees) {
+          return fees;
+        }
+        parsedTicketFees = fees;
+      }
+
+      let parsedCancellationPolicy: CancellationPolicy | undefined;
+      if (data.cancellationPolicy) {
+        const policy = parseCancellationPolicy(data.cancellationPolicy);
+        if ("error" in policy) {
+          return policy;
+        }
+        parsedCancellationPolicy = policy;
+      }
+
+      if (data.ticketPrices) {
+        const tiers = parseTicketTiers(data.ticketPrices);
+        if ("error" in tiers) {
+          return tiers;
+        }
+
+        const result = await InventoryService.syncTiers(id, tiers);
+        if (!result.success) {
+          return { error: result.error || "Error updating ticket tiers" };
+        }
+      }
+
+      const previous = await prisma.event.findUnique({ where: { id }, include: { venue: true } });
+
+      const updated = await prisma.event.update({
         where: { id },
+        include: { venue: true },
         data: {
           title: data.title,
           description: data.description,
@@ -194,9 +332,26 @@ export const EventService = {
           isPublic: data.isPublic,
           image: data.image,
           venueId: data.venueId,
-          ticketPrices: data.ticketPrices ?? undefined,
+          ticketFees: parsedTicketFees,
+          cancellationPolicy: parsedCancellationPolicy,
         },
       });
+
+      if (previous) {
+        const changes: string[] = [];
+        if (previous.title !== updated.title) {
+          changes.push(`Renamed from "${previous.title}" to "${updated.title}"`);
+        }
+        if (previous.date.getTime() !== updated.date.getTime()) {
+          changes.push(`Moved from ${formatDateTime(previous.date)} to ${formatDateTime(updated.date)}`);
+        }
+        if (previous.venueId !== updated.venueId) {
+          changes.push(`Venue changed to ${updated.venue ? updated.venue.name : "a venue to be announced"}`);
+        }
+        await NotificationService.eventUpdated(id, changes);
+      }
+
+      return updated;
     } catch (error) {
       return { error: "Error updating event" };
     }
@@ -219,4 +374,163 @@ export const EventService = {
       return { success: false, error: "Error deleting event" };
     }
   },
+
+  /**
+   * Take the event of a venue booking that won't go ahead out of the public listings.
+   * @param eventId - Event ID, if the booking has one
+   */
+  unpublishEvent: async (eventId: string | null): Promise<void> => {
+    if (!eventId) {
+      return;
+    }
+
+    await prisma.event.updateMany({ where: { id: eventId }, data: { isPublic: false } });
+  },
+
+  /**
+   * Search public events. Every keyword has to appear in the title or description.
+   * Date, price and popularity are sorted and paged in the database on the values stored
+   * on the event. Distance depends on where the user is, so sorting by it is limited to a
+   * radius and the events within it are ranked in memory.
+   * @param query - Keywords, filters, sort order and pagination
+   * @returns Page of events in a lean shape and the cursor of the next page, or error
+   */
+  searchEvents: async (
+    query: SearchEventsQuery
+  ): Promise<{ events: EventSearchResult[]; nextCursor: string | null } | { error: string }> => {
+    try {
+      const { q, category, from, to, minPrice, maxPrice, available, venueId, latitude, longitude, radius, sort, limit } = query;
+      const order = query.order || (sort === "popularity" ? "desc" : "asc");
+
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !cursor) {
+        return { error: "Invalid cursor" };
+      }
+
+      const keywords = (q || "").split(/\s+/).filter(Boolean);
+      const hasPriceFilter = minPrice !== undefined || maxPrice !== undefined;
+      const hasLocation = latitude !== undefined && longitude !== undefined;
+
+      const where: Prisma.EventWhereInput = {
+        isPublic: true,
+        date: { gte: from && from > new Date() ? from : new Date(), ...(to ? { lte: to } : {}) },
+        ...(category ? { category: { equals: category, mode: "insensitive" } } : {}),
+        ...(venueId ? { venueId } : {}),
+        AND: keywords.map((keyword) => ({
+          OR: [
+            { title: { contains: keyword, mode: "insensitive" } },
+            { description: { contains: keyword, mode: "insensitive" } },
+          ],
+        })),
+        ...(hasPriceFilter || available
+          ? {
+            ticketTiers: {
+              some: {
+                ...(hasPriceFilter ? { price: { gte: minPrice, lte: maxPrice } } : {}),
+                ...(available ? { availableSeats: { gt: 0 } } : {}),
+              },
+            },
+          }
+          : {}),
+        ...(hasLocation && radius !== undefined ? { venue: { is: nearbyVenues(latitude, longitude, radius) } } : {}),
+      };
+
+      // Null for events outside the radius, which the bounding box can still let through
+      const toResult = (event: SearchResultRecord): EventSearchResult | null => {
+        const distanceKm = hasLocation && event.venue
+          ? Math.round(calculateDistance(latitude, longitude, event.venue.latitude, event.venue.longitude) * 10) / 10
+          : null;
+        if (radius !== undefined && (distanceKm === null || distanceKm > radius)) {
+          return null;
+        }
+
+        return {
+          ...event,
+          availableSeats: event.ticketTiers.reduce((sum, tier) => sum + tier.availableSeats, 0),
+          distanceKm,
+        };
+      };
+
+      if (sort === "distance") {
+        const direction = order === "asc" ? 1 : -1;
+        const compare = (a: SearchCursor, b: SearchCursor): number =>
+          (a.value! - b.value!) * direction || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+        const records = await prisma.event.findMany({ where, select: searchResultSelect });
+        const ranked = records
+          .map(toResult)
+          .filter((event): event is EventSearchResult => event !== null)
+          .map((event) => ({ event, key: { value: event.distanceKm!, id: event.id } }))
+          .filter(({ key }) => !cursor || compare(key, cursor) > 0)
+          .sort((a, b) => compare(a.key, b.key));
+
+        const page = ranked.slice(0, limit);
+        const nextCursor = ranked.length > limit ? encodeCursor(page[page.length - 1].key) : null;
+        return { events: page.map(({ event }) => event), nextCursor };
+      }
+
+      const field = SORT_FIELDS[sort];
+      const keyOf = (event: SearchResultRecord): SearchCursor => ({
+        value: field === "date" ? event.date.getTime() : event[field],
+        id: event.id,
+      });
+
+      // Events without a price go last in either order, by ID
+      const passes: { scope: Prisma.EventWhereInput; sorted: boolean }[] = sort === "price"
+        ? [
+          { scope: { startingPrice: { not: null } }, sorted: true },
+          { scope: { OR: [{ startingPrice: null }, { startingPrice: { isSet: false } }] }, sorted: false },
+        ]
+        : [{ scope: {}, sorted: true }];
+
+      const page: { event: EventSearchResult; key: SearchCursor }[] = [];
+      let hasMore = false;
+
+      for (const pass of passes) {
+        // A cursor in the events without a price skips the priced ones
+        if (pass.sorted && cursor?.value === null) {
+          continue;
+        }
+        let after = pass.sorted || cursor?.value === null ? cursor : null;
+
+        while (!hasMore) {
+          const batch = await prisma.event.findMany({
+            where: {
+              AND: [
+                where,
+                pass.scope,
+                after ? (pass.sorted ? afterCursor(field, order, after) : { id: { gt: after.id } }) : {},
+              ],
+            },
+            select: searchResultSelect,
+            orderBy: pass.sorted ? [{ [field]: order }, { id: "asc" }] : [{ id: "asc" }],
+            take: limit + 1,
+          });
+
+          for (const record of batch) {
+            after = pass.sorted ? keyOf(record) : { value: null, id: record.id };
+            const event = toResult(record);
+            if (!event) {
+              continue;
+            }
+            if (page.length === limit) {
+              hasMore = true;
+              break;
+            }
+            page.push({ event, key: after });
+          }
+
+          // Radius searches may need more than one batch to fill a page
+          if (batch.length <= limit) {
+            break;
+          }
+        }
+      }
+
+      const nextCursor = hasMore ? encodeCursor(page[page.length - 1].key) : null;
+      return { events: page.map(({ event }) => event), nextCursor };
+    } catch (error) {
+      throw new Error("Error searching events: " + error);
+    }
+  },
 };
@@ -0,0 +1,345 @@
+import { TicketHold, TicketTier } from "@prisma/client";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+
+const HOLD_DURATION_MS = parseInt(process.env.TICKET_HOLD_MINUTES || "10", 10) * 60 * 1000;
+
+export type TicketTierInput = {
+    seatType: string;
+    price: number;
+    availableSeats: number;
+};
+
+/**
+ * Validate and normalize a list of ticket tiers coming from a request body.
+ * @param ticketPrices - Raw ticket tiers (JSON string or array)
+ * @returns Normalized tiers or error
+ */
+export const parseTicketTiers = (ticketPrices: unknown): TicketTierInput[] | { error: string } => {
+    let parsed: unknown = ticketPrices;
+
+    if (typeof ticketPrices === "string") {
+        try {
+            parsed = JSON.parse(ticketPrices);
+        } catch (parseError) {
+            return { error: "Invalid ticket prices JSON format" };
+        }
+    }
+
+    if (!Array.isArray(parsed)) {
+        return { error: "Ticket prices must be an array of objects" };
+    }
+
+    const tiers: TicketTierInput[] = [];
+    for (const entry of parsed) {
+        const seatType = typeof entry?.seatType === "string" ? entry.seatType.trim() : "";
+        const price = Number(entry?.price);
+        const availableSeats = Number(entry?.availableSeats);
+
+        if (!seatType) {
+            return { error: "Each ticket price must have a seat type" };
+        }
+        if (!Number.isInteger(price) || price < 0) {
+            return { error: `Invalid price for seat type ${seatType}` };
+        }
+        if (!Number.isInteger(availableSeats) || availableSeats < 0) {
+            return { error: `Invalid available seats for seat type ${seatType}` };
+        }
+        if (tiers.some((tier) => tier.seatType === seatType)) {
+            return { error: `Duplicate seat type ${seatType}` };
+        }
+
+        tiers.push({ seatType, price, availableSeats });
+    }
+
+    return tiers;
+};
+
+export const InventoryService = {
+    /**
+     * Get the ticket tier of an event for a seat type.
+     * @param eventId - Event ID
+     * @param seatType - Seat type of the tier
+     * @returns Ticket tier or null
+     */
+    getTier: async (eventId: string, seatType: string): Promise<TicketTier | null> => {
+        try {
+            return await prisma.ticketTier.findUnique({
+                where: { eventId_seatType: { eventId, seatType } },
+            });
+        } catch (error) {
+            throw new Error("Error fetching ticket tier");
+        }
+    },
+
+    /**
+     * Create or update the ticket tiers of an event.
+     * Seat count changes are applied as a delta on the unsold, unheld seats so that
+     * a tier can never be shrunk below what is already held or sold.
+     * @param eventId - Event ID
+     * @param tiers - Ticket tiers to apply
+     * @returns Success or error
+     */
+    syncTiers: async (
+        eventId: string,
+        tiers: TicketTierInput[]
+    ): Promise<{ success: boolean; error?: string }> => {
+        try {
+            for (const tier of tiers) {
+                const existing = await prisma.ticketTier.findUnique({
+                    where: { eventId_seatType: { eventId, seatType: tier.seatType } },
+                });
+
+                if (!existing) {
+                    await prisma.ticketTier.create({
+                        data: {
+                            eventId,
+                            seatType: tier.seatType,
+                            price: tier.price,
+                            totalSeats: tier.availableSeats,
+                            availableSeats: tier.availableSeats,
+                        },
+                    });
+                    continue;
+                }
+
+                const delta = tier.availableSeats - existing.totalSeats;
+                const { count } = await prisma.ticketTier.updateMany({
+                    where: {
+                        id: existing.id,
+                        availableSeats: { gte: delta < 0 ? -delta : 0 },
+                    },
+                    data: {
+                        price: tier.price,
+                        totalSeats: { increment: delta },
+                        availableSeats: { increment: delta },
+                    },
+                });
+
+                if (count === 0) {
+                    await InventoryService.refreshSearchFields(eventId);
+                    return {
+                        success: false,
+                        error: `Cannot reduce ${tier.seatType} seats below the number already held or sold`,
+                    };
+                }
+            }
+
+            await InventoryService.refreshSearchFields(eventId);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: "Error updating ticket tiers" };
+        }
+    },
+
+    /**
+     * Recompute the starting price and confirmed booking count stored on an event,
+     * which event search sorts on. Call it whenever tiers or bookings change.
+     * @param eventId - Event ID
+     */
+    refreshSearchFields: async (eventId: string): Promise<void> => {
+        const [price, bookingCount] = await Promise.all([
+            prisma.ticketTier.aggregate({ where: { eventId }, _min: { price: true } }),
+            prisma.ticketBooking.count({ where: { eventId, status: "CONFIRMED" } }),
+        ]);
+
+        await prisma.event.updateMany({
+            where: { id: eventId },
+            data: { startingPrice: price._min.price, bookingCount },
+        });
+    },
+
+    /**
+     * Reserve seats of a tier for a limited time.
+     * The seat count is decremented with a conditional update, so concurrent holds
+     * can never take more seats than are available.
+     * @param eventId - Event ID
+     * @param seatType - Seat type to hold
+     * @param quantity - Number of seats to hold
+     * @param userId - User placing the hold
+     * @returns The created hold or error
+     */
+    createHold: async (
+        eventId: string,
+        seatType: string,
+        quantity: number,
+        userId: string
+    ): Promise<TicketHold | { error: string }> => {
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+            return { error: "Number of tickets must be a positive integer" };
+        }
+
+        const tier = await InventoryService.getTier(eventId, seatType);
+        if (!tier) {
+            return { error: "Invalid seat type" };
+        }
+
+        return await prisma.$transaction(async (tx) => {
+            const { count } = await tx.ticketTier.updateMany({
+                where: { id: tier.id, availableSeats: { gte: quantity } },
+                data: {
+                    availableSeats: { decrement: quantity },
+                    heldSeats: { increment: quantity },
+                },
+            });
+
+            if (count === 0) {
+                return { error: "Not enough seats available" };
+            }
+
+            return await tx.ticketHold.create({
+                data: {
+                    tierId: tier.id,
+                    userId,
+                    quantity,
+                    expiresAt: new Date(Date.now() + HOLD_DURATION_MS),
+                },
+            });
+        });
+    },
+
+    /**
+     * Turn a hold into sold seats.
+     * A hold that already expired and was released is re-acquired if the seats are
+     * still available. Confirming an already confirmed hold is a no-op.
+     * @param holdId - Hold ID
+     * @returns Success or error
+     */
+    confirmHold: async (holdId: string): Promise<{ success: boolean; error?: string }> => {
+        try {
+            return await prisma.$transaction(async (tx) => {
+                const hold = await tx.ticketHold.findUnique({ where: { id: holdId } });
+                if (!hold) {
+                    return { success: false, error: "Hold not found" };
+                }
+
+                if (hold.status === "CONFIRMED") {
+                    return { success: true };
+                }
+
+                const { count } = await tx.ticketHold.updateMany({
+                    where: { id: holdId, status: hold.status },
+                    data: { status: "CONFIRMED" },
+                });
+                if (count === 0) {
+                    return { success: false, error: "Hold was modified concurrently" };
+                }
+
+                if (hold.status === "ACTIVE") {
+                    await tx.ticketTier.update({
+                        where: { id: hold.tierId },
+                        data: {
+                            heldSeats: { decrement: hold.quantity },
+                            soldSeats: { increment: hold.quantity },
+                        },
+                    });
+                    return { success: true };
+                }
+
+                const reacquired = await tx.ticketTier.updateMany({
+                    where: { id: hold.tierId, availableSeats: { gte: hold.quantity } },
+                    data: {
+                        availableSeats: { decrement: hold.quantity },
+                        soldSeats: { increment: hold.quantity },
+                    },
+                });
+                if (reacquired.count === 0) {
+                    throw new Error("Hold expired and the seats are no longer available");
+                }
+
+                return { success: true };
+            });
+        } catch (error) {
+            logger.error(`Error confirming hold ${holdId}: ${error instanceof Error ? error.message : error}`);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : "Error confirming hold",
+            };
+        }
+    },
+
+    /**
+     * Release an active hold and return its seats to the tier.
+     * @param holdId - Hold ID
+     * @returns Whether the hold was released by this call
+     */
+    releaseHold: async (holdId: string): Promise<boolean> => {
+        return await prisma.$transaction(async (tx) => {
+            const hold = await tx.ticketHold.findUnique({ where: { id: holdId } });
+            if (!hold) {
+                return false;
+            }
+
+            const { count } = await tx.ticketHold.updateMany({
+                where: { id: holdId, status: "ACTIVE" },
+                data: { status: "RELEASED" },
+            });
+            if (count === 0) {
+                return false;
+            }
+
+            await tx.ticketTier.update({
+                where: { id: hold.tierId },
+                data: {
+                    availableSeats: { increment: hold.quantity },
+                    heldSeats: { decrement: hold.quantity },
+                },
+            });
+            return true;
+        });
+    },
+
+    /**
+     * Return the sold seats of a confirmed hold to the tier, e.g. after a cancellation.
+     * @param holdId - Hold ID
+     * @returns Whether the seats were returned by this call
+     */
+    returnSeats: async (holdId: string): Promise<boolean> => {
+        return await prisma.$transaction(async (tx) => {
+            const hold = await tx.ticketHold.findUnique({ where: { id: holdId } });
+            if (!hold) {
+                return false;
+            }
+
+            const { count } = await tx.ticketHold.updateMany({
+                where: { id: holdId, status: "CONFIRMED" },
+                data: { status: "RELEASED" },
+            });
+            if (count === 0) {
+                return false;
+            }
+
+            await tx.ticketTier.update({
+                where: { id: hold.tierId },
+                data: {
+                    availableSeats: { increment: hold.quantity },
+                    soldSeats: { decrement: hold.quantity },
+                },
+            });
+            return true;
+        });
+    },
+
+    /**
+     * Release every active hold whose time limit has passed.
+     * @returns Number of released holds
+     */
+    releaseExpiredHolds: async (): Promise<number> => {
+        const expiredHolds = await prisma.ticketHold.findMany({
+            where: { status: "ACTIVE", expiresAt: { lt: new Date() } },
+            select: { id: true },
+        });
+
+        let released = 0;
+        for (const hold of expiredHolds) {
+            if (await InventoryService.releaseHold(hold.id)) {
+                released++;
+            }
+        }
+
+        if (released > 0) {
+            logger.info(`Released ${released} expired ticket holds`);
+        }
+        return released;
+    },
+};
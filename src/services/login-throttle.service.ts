@@ -0,0 +1,212 @@
+import { Prisma, User } from "@prisma/client";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { generateOpaqueToken, hashToken } from "../utils/crypto.util";
+import { AuditService } from "./audit.service";
+import { EmailService } from "./email.service";
+import { ClientInfo } from "./session.service";
+
+// Failed logins are counted over this window
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const ACCOUNT_LOCK_THRESHOLD = 5;
+// Higher than the account threshold since many users can share an address (NAT, offices)
+const IP_LOCK_THRESHOLD = 20;
+// Failures allowed before attempts are slowed down
+const FREE_ATTEMPTS = 2;
+const MAX_DELAY_MS = 30 * 1000;
+
+export type LoginBlock = {
+    error: string;
+    retryAfter: number; // Seconds
+};
+
+/**
+ * How long an account or address is locked after too many failures.
+ * @returns Lockout in minutes
+ */
+const getLockoutMinutes = (): number => Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+
+const accountKey = (userId: string): string => `account:${userId}`;
+const ipKey = (ipAddress: string): string => `ip:${ipAddress}`;
+
+/**
+ * Minimum wait before the next attempt: 1, 2, 4, 8... seconds once the free attempts are used.
+ * @param failures - Failures in the current window
+ * @returns Delay in milliseconds
+ */
+const progressiveDelay = (failures: number): number =>
+    failures <= FREE_ATTEMPTS ? 0 : Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+
+/**
+ * Count a failed login against an account or address and lock it once it reaches the threshold.
+ * @param key - Throttle key
+ * @param threshold - Failures that trigger a lockout
+ * @returns Failures in the window, and the end of the lockout if this failure started one
+ */
+const registerFailure = async (key: string, threshold: number): Promise<{ failures: number; lockedUntil: Date | null }> => {
+    const now = new Date();
+
+    // Start over once the previous window has passed
+    await prisma.loginThrottle.deleteMany({ where: { key, expiresAt: { lte: now } } });
+
+    let throttle;
+    try {
+        throttle = await prisma.loginThrottle.upsert({
+            where: { key },
+            create: {
+                key,
+                failures: 1,
+                lastFailedAt: now,
+                nextAttemptAt: now,
+                lockedUntil: null,
+                expiresAt: new Date(now.getTime() + FAILURE_WINDOW_MS),
+            },
+            update: { failures: { increment: 1 }, lastFailedAt: now },
+        });
+    } catch (error) {
+        // A concurrent failure created the record first
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+            throw error;
+        }
+        throttle = await prisma.loginThrottle.update({
+            where: { key },
+            data: { failures: { increment: 1 }, lastFailedAt: now },
+        });
+    }
+
+    const alreadyLocked = !!throttle.lockedUntil && throttle.lockedUntil > now;
+    const lockedUntil = throttle.failures >= threshold && !alreadyLocked
+        ? new Date(now.getTime() + getLockoutMinutes() * 60 * 1000)
+        : null;
+
+    await prisma.loginThrottle.update({
+        where: { key },
+        data: {
+            nextAttemptAt: new Date(now.getTime() + progressiveDelay(throttle.failures)),
+            ...(lockedUntil ? { lockedUntil, expiresAt: lockedUntil } : {}),
+        },
+    });
+
+    return { failures: throttle.failures, lockedUntil };
+};
+
+/**
+ * Email the owner of a locked account a link that unlocks it right away.
+ */
+const sendUnlockEmail = async (user: Pick<User, "id" | "name" | "email">, client: ClientInfo, lockedUntil: Date) => {
+    const token = generateOpaqueToken(32);
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { unlockTokenHash: hashToken(token), unlockTokenExpiry: lockedUntil },
+    });
+
+    await EmailService.queue("accountLocked", user.email, {
+        name: user.name,
+        unlockLink: `${process.env.CLIENT_ORIGIN}/unlock-account?token=${token}`,
+        lockedMinutes: getLockoutMinutes(),
+        ipAddress: client.ipAddress || "an unknown address",
+    });
+};
+
+export const LoginThrottleService = {
+    /**
+     * Check whether a login attempt may go ahead.
+     * @param userId - Account being logged in to, if it exists
+     * @param client - Device and IP the attempt comes from
+     * @returns Why the attempt is refused and when to retry, or null if it may go ahead
+     */
+    check: async (userId: string | null, client: ClientInfo): Promise<LoginBlock | null> => {
+        const now = new Date();
+        const keys = [
+            ...(userId ? [accountKey(userId)] : []),
+            ...(client.ipAddress ? [ipKey(client.ipAddress)] : []),
+        ];
+        if (keys.length === 0) {
+            return null;
+        }
+
+        const throttles = await prisma.loginThrottle.findMany({
+            where: { key: { in: keys }, expiresAt: { gt: now } },
+        });
+        const secondsUntil = (date: Date) => Math.ceil((date.getTime() - now.getTime()) / 1000);
+
+        for (const throttle of throttles) {
+            if (throttle.lockedUntil && throttle.lockedUntil > now) {
+                return {
+                    error: throttle.key.startsWith("account:")
+                        ? "Your account is temporarily locked after too many failed login attempts. Check your email to unlock it"
+                        : "Too many failed login attempts from your network. Please try again later",
+                    retryAfter: secondsUntil(throttle.lockedUntil),
+                };
+            }
+        }
+
+        const waitUntil = throttles
+            .map((throttle) => throttle.nextAttemptAt)
+            .filter((date) => date > now)
+            .sort((a, b) => b.getTime() - a.getTime())[0];
+        if (waitUntil) {
+            const retryAfter = secondsUntil(waitUntil);
+            return {
+                error: `Too many failed login attempts. Please wait ${retryAfter} second${retryAfter === 1 ? "" : "s"} before trying again`,
+                retryAfter,
+            };
+        }
+
+        return null;
+    },
+
+    /**
+     * Record a failed login against the account and the address it came from, locking
+     * them when they reach their threshold. Lockouts are audited and the account owner
+     * gets an unlock email.
+     * @param user - Account being logged in to, if it exists
+     * @param client - Device and IP the attempt came from
+     */
+    recordFailure: async (user: Pick<User, "id" | "name" | "email"> | null, client: ClientInfo): Promise<void> => {
+        if (client.ipAddress) {
+            const { failures, lockedUntil } = await registerFailure(ipKey(client.ipAddress), IP_LOCK_THRESHOLD);
+            if (lockedUntil) {
+                logger.error(`Logins from ${client.ipAddress} locked until ${lockedUntil.toISOString()}`);
+                await AuditService.record("IP_LOCKED", {
+                    ipAddress: client.ipAddress,
+                    userAgent: client.userAgent,
+                    details: { failures, lockedUntil: lockedUntil.toISOString() },
+                });
+            }
+        }
+
+        if (user) {
+            const { failures, lockedUntil } = await registerFailure(accountKey(user.id), ACCOUNT_LOCK_THRESHOLD);
+            if (lockedUntil) {
+                logger.error(`Account ${user.id} locked until ${lockedUntil.toISOString()}`);
+                await sendUnlockEmail(user, client, lockedUntil);
+                await AuditService.record("ACCOUNT_LOCKED", {
+                    userId: user.id,
+                    email: user.email,
+                    ipAddress: client.ipAddress,
+                    userAgent: client.userAgent,
+                    details: { failures, lockedUntil: lockedUntil.toISOString() },
+                });
+            }
+        }
+    },
+
+    /**
+     * Forget the failed logins of an account, e.g. after a successful login.
+     * @param userId - User ID
+     */
+    reset: async (userId: string): Promise<void> => {
+        await prisma.loginThrottle.deleteMany({ where: { key: accountKey(userId) } });
+    },
+
+    /**
+     * Delete failure counters whose window and lockout are over.
+     * @returns Number of deleted counters
+     */
+    purgeExpired: async (): Promise<number> => {
+        const { count } = await prisma.loginThrottle.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+        return count;
+    },
+};
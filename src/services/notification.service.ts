@@ -0,0 +1,272 @@
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { countBookingDays } from "../utils/date.util";
+import { formatAmount, formatDate, formatDateTime } from "../utils/format.util";
+import { DocumentService } from "./document.service";
+import { EmailService } from "./email.service";
+
+/**
+ * Run a notification without letting its failure affect the caller.
+ */
+const safely = async (name: string, notify: () => Promise<void>): Promise<void> => {
+    try {
+        await notify();
+    } catch (error) {
+        logger.error(`Error sending ${name} notification: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+export const NotificationService = {
+    /**
+     * Email the booker of each booking paid by a payment, with their tickets or invoice attached.
+     * @param paymentId - Captured payment ID
+     */
+    bookingConfirmed: async (paymentId: string): Promise<void> =>
+        safely("booking confirmation", async () => {
+            const payment = await prisma.payment.findUnique({
+                where: { id: paymentId },
+                include: {
+                    user: true,
+                    ticketBookings: { include: { event: { include: { venue: true } } } },
+                    venueBookings: { include: { venue: true } },
+                },
+            });
+            if (!payment) {
+                return;
+            }
+
+            for (const booking of payment.ticketBookings) {
+                const tickets = await DocumentService.getTicketsPdf(booking.id, { id: booking.userId, role: "USER" });
+
+                await EmailService.queue(
+                    "bookingConfirmation",
+                    payment.user.email,
+                    {
+                        name: payment.user.name,
+                        bookingId: booking.id,
+                        title: booking.event.title,
+                        date: formatDateTime(booking.event.date),
+                        details: [
+                            `${booking.ticketCount} x ${booking.seatType} ticket${booking.ticketCount === 1 ? "" : "s"}`,
+                            booking.event.venue ? `${booking.event.venue.name}, ${booking.event.venue.location}` : "Venue to be announced",
+                        ],
+                        total: formatAmount(payment.amount),
+                    },
+                    "error" in tickets ? [] : [{ ...tickets, contentType: "application/pdf" }]
+                );
+            }
+
+            for (const booking of payment.venueBookings) {
+                const invoice = await DocumentService.getVenueInvoicePdf(booking.id, { id: booking.userId, role: "USER" });
+                const days = countBookingDays(booking.startDate, booking.endDate);
+
+                await EmailService.queue(
+                    "bookingConfirmation",
+                    payment.user.email,
+                    {
+                        name: payment.user.name,
+                        bookingId: booking.id,
+                        title: booking.venue.name,
+                        date: formatDate(booking.startDate),
+                        details: [
+                            `${days} day${days === 1 ? "" : "s"}, ${formatDate(booking.startDate)} to ${formatDate(booking.endDate)}`,
+                            `${booking.guests} guests`,
+                            booking.venue.location,
+                        ],
+                        total: formatAmount(payment.amount),
+                    },
+                    "error" in invoice ? [] : [{ ...invoice, contentType: "application/pdf" }]
+                );
+            }
+        }),
+
+    /**
+     * Tell the payer that a payment attempt failed.
+     * @param paymentId - Failed payment ID
+     */
+    paymentFailed: async (paymentId: string): Promise<void> =>
+        safely("payment failure", async () => {
+            const payment = await prisma.payment.findUnique({
+                where: { id: paymentId },
+                include: {
+                    user: true,
+                    ticketBookings: { include: { event: true } },
+                    venueBookings: { include: { venue: true } },
+                },
+            });
+            if (!payment) {
+                return;
+            }
+
+            const title = payment.ticketBookings[0]?.event.title || payment.venueBookings[0]?.venue.name || "your booking";
+
+            await EmailService.queue("paymentFailed", payment.user.email, {
+                name: payment.user.name,
+                title,
+                amount: formatAmount(payment.amount),
+                reason: payment.failureReason || "Payment failed",
+            });
+        }),
+
+    /**
+     * Confirm a cancellation to the booker along with the refund they get.
+     * @param booking - Canceled ticket or venue booking
+     * @param refund - Refund issued for the booking
+     */
+    bookingCanceled: async (
+        booking: { ticketBookingId?: string; venueBookingId?: string },
+        refund: { amount: number; percent: number }
+    ): Promise<void> =>
+        safely("cancellation", async () => {
+            let recipient: { name: string; email: string } | undefined;
+            let title = "";
+            let bookingId = "";
+
+            if (booking.ticketBookingId) {
+                const ticketBooking = await prisma.ticketBooking.findUnique({
+                    where: { id: booking.ticketBookingId },
+                    include: { user: true, event: true },
+                });
+                recipient = ticketBooking?.user;
+                title = ticketBooking?.event.title || "";
+                bookingId = booking.ticketBookingId;
+            } else if (booking.venueBookingId) {
+                const venueBooking = await prisma.venueBooking.findUnique({
+                    where: { id: booking.venueBookingId },
+                    include: { user: true, venue: true },
+                });
+                recipient = venueBooking?.user;
+                title = venueBooking?.venue.name || "";
+                bookingId = booking.venueBookingId;
+            }
+
+            if (!recipient) {
+                return;
+            }
+
+            await EmailService.queue("bookingCanceled", recipient.email, {
+                name: recipient.name,
+                bookingId,
+                title,
+                refundAmount: formatAmount(refund.amount),
+                refundPercent: refund.percent,
+            });
+        }),
+
+    /**
+     * Ask the owner of a venue to answer a new booking request.
+     * Venues without an owner are managed by admins, who see requests through the API.
+     * @param venueBookingId - Requested venue booking ID
+     */
+    bookingRequested: async (venueBookingId: string): Promise<void> =>
+        safely("booking request", async () => {
+            const booking = await prisma.venueBooking.findUnique({
+                where: { id: venueBookingId },
+                include: { user: true, venue: { include: { owner: true } } },
+            });
+            if (!booking?.request || !booking.venue.owner) {
+                return;
+            }
+
+            const days = countBookingDays(booking.startDate, booking.endDate);
+            await EmailService.queue("bookingRequest", booking.venue.owner.email, {
+                name: booking.venue.owner.name,
+                bookingId: booking.id,
+                title: booking.venue.name,
+                guestName: booking.user.name,
+                details: [
+                    `${days} day${days === 1 ? "" : "s"}, ${formatDate(booking.startDate)} to ${formatDate(booking.endDate)}`,
+                    `${booking.guests} guests`,
+                    ...booking.addOns.map((addOn) => `${addOn.name} (${addOn.tier})`),
+                ],
+                total: formatAmount(booking.totalCost),
+                message: booking.request.message,
+                respondBy: formatDateTime(booking.request.respondBy),
+            });
+        }),
+
+    /**
+     * Tell the guest that their booking request was approved, countered, declined or expired.
+     * @param venueBookingId - Venue booking ID
+     */
+    bookingRequestUpdated: async (venueBookingId: string): Promise<void> =>
+        safely("booking request update", async () => {
+            const booking = await prisma.venueBooking.findUnique({
+                where: { id: venueBookingId },
+                include: { user: true, venue: true },
+            });
+            const status = booking?.request?.status;
+            if (!booking?.request || !status || status === "REQUESTED") {
+                return;
+            }
+
+            await EmailService.queue("bookingRequestUpdate", booking.user.email, {
+                name: booking.user.name,
+                bookingId: booking.id,
+                title: booking.venue.name,
+                status,
+                ownerMessage: booking.request.ownerMessage ?? null,
+                amount: formatAmount(booking.request.counterOffer ?? booking.totalCost),
+                respondBy: formatDateTime(booking.request.respondBy),
+            });
+        }),
+
+    /**
+     * Remind the booker of an upcoming event.
+     * @param ticketBookingId - Confirmed ticket booking ID
+     */
+    eventReminder: async (ticketBookingId: string): Promise<void> =>
+        safely("event reminder", async () => {
+            const booking = await prisma.ticketBooking.findUnique({
+                where: { id: ticketBookingId },
+                include: { user: true, event: { include: { venue: true } } },
+            });
+            if (!booking || booking.status !== "CONFIRMED") {
+                return;
+            }
+
+            await EmailService.queue("eventReminder", booking.user.email, {
+                name: booking.user.name,
+                eventTitle: booking.event.title,
+                date: formatDateTime(booking.event.date),
+                venue: booking.event.venue ? `${booking.event.venue.name}, ${booking.event.venue.location}` : "Venue to be announced",
+                ticketCount: booking.ticketCount,
+            });
+        }),
+
+    /**
+     * Tell everyone holding tickets for an event that its details changed.
+     * @param eventId - Updated event ID
+     * @param changes - Human readable list of what changed
+     */
+    eventUpdated: async (eventId: string, changes: string[]): Promise<void> =>
+        safely("event update", async () => {
+            if (changes.length === 0) {
+                return;
+            }
+
+            const event = await prisma.event.findUnique({
+                where: { id: eventId },
+                include: {
+                    venue: true,
+                    ticketBookings: { where: { status: "CONFIRMED" }, include: { user: true } },
+                },
+            });
+            if (!event) {
+                return;
+            }
+
+            // One email per attendee, even if they made several bookings
+            const recipients = new Map(event.ticketBookings.map((booking) => [booking.user.email, booking.user.name]));
+
+            for (const [email, name] of recipients) {
+                await EmailService.queue("eventUpdated", email, {
+                    name,
+                    eventTitle: event.title,
+                    date: formatDateTime(event.date),
+                    venue: event.venue ? `${event.venue.name}, ${event.venue.location}` : "Venue to be announced",
+                    changes,
+                });
+            }
+        }),
+};
@@ -0,0 +1,505 @@
+import { Payment, PaymentStatus, Refund, TicketBooking, VenueBooking } from "@prisma/client";
+import logger from "../config/logger.config";
+import paymentProvider from "../config/payment.config";
+import prisma from "../config/prisma.config";
+import { PaymentConfirmation, PaymentWebhookEvent } from "../providers/payment.provider";
+import { EventService } from "./event.service";
+import { InventoryService } from "./inventory.service";
+import { NotificationService } from "./notification.service";
+import { TicketService } from "./ticket.service";
+import { VenueHoldService } from "./venue-hold.service";
+
+type ReconcileResult = {
+    payment?: Payment;
+    alreadyProcessed?: boolean;
+    error?: string;
+};
+
+type CapturedPayment = Payment & { ticketBookings: TicketBooking[]; venueBookings: VenueBooking[] };
+
+/**
+ * Give back a captured payment whose bookings can't be honored: cancel its bookings,
+ * free their seats and dates, and refund the whole amount. A payment whose refund fails
+ * stays UNFULFILLED so that it can be found and refunded by hand.
+ * @param payment - Captured payment with its bookings
+ * @param providerPaymentId - Provider payment id
+ * @param reason - Why the bookings can't be confirmed
+ * @param claimFrom - Statuses the payment may be in
+ * @returns The payment, or whether another delivery already handled it
+ */
+const refundUnfulfilled = async (
+    payment: CapturedPayment,
+    providerPaymentId: string,
+    reason: string,
+    claimFrom: PaymentStatus[] = ["PENDING", "FAILED"]
+): Promise<ReconcileResult> => {
+    const { count } = await prisma.payment.updateMany({
+        where: { id: payment.id, status: { in: claimFrom } },
+        data: { status: "UNFULFILLED", providerPaymentId, failureReason: reason },
+    });
+    if (count === 0) {
+        const current = await prisma.payment.findUnique({ where: { id: payment.id } });
+        return { payment: current ?? payment, alreadyProcessed: true };
+    }
+
+    logger.error(`Payment ${payment.id} captured but its bookings can't be confirmed: ${reason}`);
+
+    for (const booking of payment.ticketBookings) {
+        await prisma.ticketBooking.updateMany({
+            where: { id: booking.id, status: { not: "CANCELED" } },
+            data: { status: "CANCELED" },
+        });
+
+        const holds = await prisma.ticketHold.findMany({ where: { ticketBookingId: booking.id } });
+        for (const hold of holds) {
+            if (hold.status === "ACTIVE") {
+                await InventoryService.releaseHold(hold.id);
+            } else if (hold.status === "CONFIRMED") {
+                await InventoryService.returnSeats(hold.id);
+            }
+        }
+        await InventoryService.refreshSearchFields(booking.eventId);
+    }
+
+    for (const booking of payment.venueBookings) {
+        await prisma.venueBooking.updateMany({
+            where: { id: booking.id, status: { not: "CANCELED" } },
+            data: { status: "CANCELED" },
+        });
+
+        const holds = await prisma.venueHold.findMany({ where: { venueBookingId: booking.id } });
+        for (const hold of holds) {
+            await VenueHoldService.releaseHold(hold.id);
+        }
+        await EventService.unpublishEvent(booking.eventId);
+    }
+
+    const bookingRef = payment.ticketBookings[0]
+        ? { ticketBookingId: payment.ticketBookings[0].id }
+        : payment.venueBookings[0] ? { venueBookingId: payment.venueBookings[0].id } : {};
+    const refund = await PaymentService.refundPayment(payment.id, payment.amount, reason, bookingRef);
+    if ("error" in refund) {
+        logger.error(`Payment ${payment.id} needs a manual refund: ${refund.error}`);
+        return { error: `${reason}. Your payment will be refunded` };
+    }
+
+    for (const booking of payment.ticketBookings) {
+        await NotificationService.bookingCanceled({ ticketBookingId: booking.id }, { amount: payment.amount, percent: 100 });
+    }
+    for (const booking of payment.venueBookings) {
+        await NotificationService.bookingCanceled({ venueBookingId: booking.id }, { amount: payment.amount, percent: 100 });
+    }
+
+    return { error: `${reason}. Your payment has been refunded` };
+};
+
+export const PaymentService = {
+    /**
+     * Find a payment by the order id issued by the payment provider.
+     * @param providerOrderId - Provider order id
+     * @returns Payment or null
+     */
+    getByProviderOrderId: async (providerOrderId: string): Promise<Payment | null> => {
+        if (!providerOrderId) {
+            return null;
+        }
+
+        try {
+            return await prisma.payment.findFirst({ where: { providerOrderId } });
+        } catch (error) {
+            throw new Error("Error fetching payment by order id");
+        }
+    },
+
+    /**
+     * Verify a payment reported by the client and reconcile its order.
+     * @param userId - User confirming the payment
+     * @param confirmation - Order id, payment id and signature sent by the client
+     * @returns The completed payment, whether it was already processed, or error
+     */
+    confirmPayment: async (userId: string, confirmation: PaymentConfirmation): Promise<ReconcileResult> => {
+        const payment = await PaymentService.getByProviderOrderId(confirmation.orderId);
+        if (!payment || payment.userId !== userId) {
+            return { error: "Payment not found" };
+        }
+
+        const isValid = await paymentProvider.verifyPayment(confirmation);
+        if (!isValid) {
+            return { error: "Invalid signature" };
+        }
+
+        // The webhook may already have confirmed this order; reconciliation is idempotent
+        return await PaymentService.markCaptured(confirmation.orderId, confirmation.paymentId);
+    },
+
+    /**
+     * Mark the payment of a provider order as captured and confirm its bookings.
+     * Safe to call repeatedly: a payment that is already completed is left untouched.
+     * @param providerOrderId - Provider order id
+     * @param providerPaymentId - Provider payment id
+     * @returns The completed payment, whether it was already processed, or error
+     */
+    markCaptured: async (providerOrderId: string, providerPaymentId: string): Promise<ReconcileResult> => {
+        if (!providerOrderId) {
+            return { error: "Payment not found" };
+        }
+
+        const payment = await prisma.payment.findFirst({
+            where: { providerOrderId },
+            include: { ticketBookings: true, venueBookings: true },
+        });
+
+        if (!payment) {
+            return { error: "Payment not found" };
+        }
+
+        if (payment.status !== "PENDING" && payment.status !== "FAILED") {
+            return { payment, alreadyProcessed: true };
+        }
+
+        // The order was replaced by a newer checkout of the same booking request
+        const bookings = [...payment.ticketBookings, ...payment.venueBookings];
+        if (bookings.length === 0) {
+            return await refundUnfulfilled(payment, providerPaymentId, "The order was replaced by a newer one");
+        }
+
+        // The booking was canceled or expired while the buyer was paying
+        if (bookings.some((booking) => booking.status !== "PENDING")) {
+            return await refundUnfulfilled(payment, providerPaymentId, "The booking was canceled before the payment went through");
+        }
+
+        // Turn the held seats into sold seats before confirming anything
+        for (const booking of payment.ticketBookings) {
+            const holds = await prisma.ticketHold.findMany({
+                where: { ticketBookingId: booking.id, status: { not: "CONFIRMED" } },
+            });
+
+            for (const hold of holds) {
+                const confirmed = await InventoryService.confirmHold(hold.id);
+                if (!confirmed.success) {
+                    return await refundUnfulfilled(payment, providerPaymentId, confirmed.error || "Seats are no longer available");
+                }
+            }
+        }
+
+        // Same for the held venue dates
+        for (const booking of payment.venueBookings) {
+            const holds = await prisma.venueHold.findMany({
+                where: { venueBookingId: booking.id, status: { not: "CONFIRMED" } },
+            });
+
+            for (const hold of holds) {
+                const confirmed = await VenueHoldService.confirmHold(hold.id);
+                if (!confirmed.success) {
+                    return await refundUnfulfilled(payment, providerPaymentId, confirmed.error || "Dates are no longer available");
+                }
+            }
+        }
+
+        const { count } = await prisma.payment.updateMany({
+            where: { id: payment.id, status: { in: ["PENDING", "FAILED"] } },
+            data: { status: "COMPLETED", providerPaymentId, failureReason: null },
+        });
+
+        if (count === 0) {
+            const current = await prisma.payment.findUnique({ where: { id: payment.id } });
+            return { payment: current ?? payment, alreadyProcessed: true };
+        }
+
+        // A booking can still be canceled between the checks above and here
+        let canceled = false;
+        for (const booking of payment.ticketBookings) {
+            const confirmed = await prisma.ticketBooking.updateMany({
+                where: { id: booking.id, status: "PENDING" },
+                data: { status: "CONFIRMED" },
+            });
+            if (confirmed.count === 0) {
+                const current = await prisma.ticketBooking.findUnique({ where: { id: booking.id } });
+                canceled ||= current?.status !== "CONFIRMED";
+            }
+        }
+        for (const booking of payment.venueBookings) {
+            const confirmed = await prisma.venueBooking.updateMany({
+                where: { id: booking.id, status: "PENDING" },
+                data: { status: "CONFIRMED" },
+            });
+            if (confirmed.count === 0) {
+                const current = await prisma.venueBooking.findUnique({ where: { id: booking.id } });
+                canceled ||= current?.status !== "CONFIRMED";
+            }
+        }
+
+        if (canceled) {
+            return await refundUnfulfilled(
+                payment,
+                providerPaymentId,
+                "The booking was canceled before the payment went through",
+                ["COMPLETED"]
+            );
+        }
+
+        for (const booking of payment.ticketBookings) {
+            await TicketService.issueTickets(booking.id);
+            await InventoryService.refreshSearchFields(booking.eventId);
+        }
+
+        await NotificationService.bookingConfirmed(payment.id);
+
+        const completed = await prisma.payment.findUnique({ where: { id: payment.id } });
+        logger.info(`Payment ${payment.id} captured for order ${providerOrderId}`);
+        return { payment: completed ?? payment };
+    },
+
+    /**
+     * Record a failed payment attempt for a provider order.
+     * The seats stay held until the hold expires so that the buyer can retry.
+     * @param providerOrderId - Provider order id
+     * @param providerPaymentId - Provider payment id of the failed attempt
+     * @param reason - Failure reason reported by the provider
+     * @returns The failed payment, whether it was already processed, or error
+     */
+    markFailed: async (
+        providerOrderId: string,
+        providerPaymentId: string,
+        reason?: string
+    ): Promise<ReconcileResult> => {
+        const payment = await PaymentService.getByProviderOrderId(providerOrderId);
+        if (!payment) {
+            return { error: "Payment not found" };
+        }
+
+        const { count } = await prisma.payment.updateMany({
+            where: { id: payment.id, status: "PENDING" },
+            data: {
+                status: "FAILED",
+                providerPaymentId,
+                failureReason: reason || "Payment failed",
+            },
+        });
+
+        if (count === 0) {
+            return { payment, alreadyProcessed: true };
+        }
+
+        await NotificationService.paymentFailed(payment.id);
+
+        logger.info(`Payment ${payment.id} failed for order ${providerOrderId}`);
+        return { payment: { ...payment, status: "FAILED" } };
+    },
+
+    /**
+     * Mark a refund of a captured payment as processed by the provider.
+     * Refunds issued from the provider dashboard aren't in the ledger yet: they are
+     * recorded for their amount, and mark the payment as refunded once nothing is left.
+     * @param providerPaymentId - Provider payment id that was refunded
+     * @param providerRefundId - Provider refund id (optional)
+     * @param amount - Refunded amount, the rest of the payment if unknown
+     * @returns The refunded payment, whether it was already processed, or error
+     */
+    markRefunded: async (providerPaymentId: string, providerRefundId?: string, amount?: number): Promise<ReconcileResult> => {
+        if (!providerPaymentId) {
+            return { error: "Payment not found" };
+        }
+
+        const payment = await prisma.payment.findFirst({ where: { providerPaymentId } });
+        if (!payment) {
+            return { error: "Payment not found" };
+        }
+
+        // Refunds issued through the API already set the payment status for their amount,
+        // and may have been answered as processed straight away
+        if (providerRefundId) {
+            const refund = await prisma.refund.findFirst({ where: { paymentId: payment.id, providerRefundId } });
+            if (refund) {
+                const { count } = await prisma.refund.updateMany({
+                    where: { id: refund.id, status: "PENDING" },
+                    data: { status: "PROCESSED" },
+                });
+                if (count === 0) {
+                    return { payment, alreadyProcessed: true };
+                }
+
+                logger.info(`Refund ${refund.id} of payment ${payment.id} processed`);
+                return { payment };
+            }
+        } else {
+            const refunds = await prisma.refund.updateMany({
+                where: { paymentId: payment.id, status: "PENDING" },
+                data: { status: "PROCESSED" },
+            });
+            if (refunds.count > 0) {
+                logger.info(`Refund of payment ${payment.id} processed`);
+                return { payment };
+            }
+        }
+
+        if (payment.status !== "COMPLETED" && payment.status !== "UNFULFILLED") {
+            return { payment, alreadyProcessed: true };
+        }
+
+        const refundedAmount = amount ?? payment.amount - payment.refundedAmount;
+        const updated = await prisma.$transaction(async (tx) => {
+            await tx.refund.create({
+                data: {
+                    paymentId: payment.id,
+                    userId: payment.userId,
+                    amount: refundedAmount,
+                    reason: "Refunded from the provider dashboard",
+                    status: "PROCESSED",
+                    providerRefundId,
+                },
+            });
+            const refunded = await tx.payment.update({
+                where: { id: payment.id },
+                data: { refundedAmount: { increment: refundedAmount } },
+            });
+            if (refunded.refundedAmount < refunded.amount - 0.005) {
+                return refunded;
+            }
+            return await tx.payment.update({ where: { id: payment.id }, data: { status: "REFUNDED" } });
+        });
+
+        logger.info(`Refund of ${refundedAmount} from the provider dashboard recorded for payment ${payment.id}`);
+        return { payment: updated };
+    },
+
+    /**
+     * Refund part or all of a completed payment and record it in the refund ledger.
+     * @param paymentId - Payment ID
+     * @param amount - Amount to refund
+     * @param reason - Why the refund was issued
+     * @param booking - Booking the refund belongs to
+     * @returns The ledger entry or error
+     */
+    refundPayment: async (
+        paymentId: string,
+        amount: number,
+        reason: string,
+        booking: { ticketBookingId?: string; venueBookingId?: string }
+    ): Promise<Refund | { error: string }> => {
+        const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
+        if (!payment || !payment.providerPaymentId) {
+            return { error: "Payment has not been captured" };
+        }
+
+        if (payment.status !== "COMPLETED" && payment.status !== "REFUNDED" && payment.status !== "UNFULFILLED") {
+            return { error: "Only completed payments can be refunded" };
+        }
+
+        if (amount <= 0 || amount > payment.amount - payment.refundedAmount) {
+            return { error: "Invalid refund amount" };
+        }
+
+        // Partially refunded payments stay completed so that the rest can still be refunded
+        const fullyRefunded = payment.refundedAmount + amount >= payment.amount - 0.005;
+
+        try {
+            const providerRefund = await paymentProvider.refund(payment.providerPaymentId, amount);
+
+            const refund = await prisma.$transaction(async (tx) => {
+                // The webhook of the refund may have been handled before this write
+                const recorded = await tx.refund.findFirst({
+                    where: { paymentId: payment.id, providerRefundId: providerRefund.refundId },
+                });
+                if (recorded) {
+                    return await tx.refund.update({ where: { id: recorded.id }, data: { reason, ...booking } });
+                }
+
+                await tx.payment.update({
+                    where: { id: payment.id },
+                    data: { status: fullyRefunded ? "REFUNDED" : payment.status, refundedAmount: { increment: amount } },
+                });
+                return await tx.refund.create({
+                    data: {
+                        paymentId: payment.id,
+                        userId: payment.userId,
+                        amount,
+                        reason,
+                        status: providerRefund.status,
+                        providerRefundId: providerRefund.refundId,
+                        ...booking,
+                    },
+                });
+            });
+
+            logger.info(`Refund of ${amount} issued for payment ${payment.id}`);
+            return refund;
+        } catch (error) {
+            logger.error(`Refund of payment ${payment.id} failed: ${error instanceof Error ? error.message : error}`);
+
+            // Failed refunds stay in the ledger so that they can be retried by hand
+            await prisma.refund.create({
+                data: {
+                    paymentId: payment.id,
+                    userId: payment.userId,
+                    amount,
+                    reason,
+                    status: "FAILED",
+                    ...booking,
+                },
+            });
+            return { error: "Refund could not be issued" };
+        }
+    },
+
+    /**
+     * Handle a webhook delivery from the payment provider.
+     * Deliveries are recorded by their event id so that redeliveries are skipped.
+     * @param event - Normalized webhook event
+     * @returns Whether the event was handled, skipped as a duplicate, or error
+     */
+    handleWebhookEvent: async (
+        event: PaymentWebhookEvent
+    ): Promise<{ handled: boolean; duplicate?: boolean; error?: string }> => {
+        if (event.id) {
+            const seen = await prisma.webhookEvent.findUnique({ where: { eventId: event.id } });
+            if (seen) {
+                return { handled: false, duplicate: true };
+            }
+        }
+
+        let result: ReconcileResult;
+
+        // Without the ids the lookups below would match any payment
+        const { orderId, paymentId } = event;
+        switch (event.type) {
+            case "payment.captured":
+                if (!orderId || !paymentId) {
+                    return { handled: false, error: "Captured payment without an order id or payment id" };
+                }
+                result = await PaymentService.markCaptured(orderId, paymentId);
+                break;
+            case "payment.failed":
+                if (!orderId || !paymentId) {
+                    return { handled: false, error: "Failed payment without an order id or payment id" };
+                }
+                result = await PaymentService.markFailed(orderId, paymentId, event.reason);
+                break;
+            case "refund.processed":
+                if (!paymentId) {
+                    return { handled: false, error: "Refund without a payment id" };
+                }
+                result = await PaymentService.markRefunded(paymentId, event.refundId, event.amount);
+                break;
+            default:
+                return { handled: false };
+        }
+
+        if (result.error) {
+            return { handled: false, error: result.error };
+        }
+
+        if (event.id) {
+            try {
+                await prisma.webhookEvent.create({
+                    data: { provider: paymentProvider.name, eventId: event.id, type: event.type },
+                });
+            } catch (error) {
+                // A concurrent delivery of the same event already recorded it
+                logger.info(`Webhook event ${event.id} already recorded`);
+            }
+        }
+
+        return { handled: true };
+    },
+};
@@ -0,0 +1,159 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma.config";
+import { formatAmount } from "../utils/format.util";
+import { calculateDistance } from "../utils/other.util";
+
+// Upcoming events considered for ranking, soonest first
+const CANDIDATE_LIMIT = 200;
+const DEFAULT_RADIUS_KM = 50;
+
+// Weight of each signal in the score
+const WEIGHTS = {
+    preferredCategory: 3,
+    bookedCategory: 2,
+    bookedOrganizer: 1.5,
+    withinBudget: 2,
+    overBudget: -1,
+    distance: 2,
+    popularity: 1.5,
+};
+
+const candidateInclude = {
+    ticketTiers: { select: { id: true, seatType: true, price: true, availableSeats: true } },
+    venue: { select: { id: true, name: true, location: true, latitude: true, longitude: true } },
+    _count: { select: { ticketBookings: { where: { status: "CONFIRMED" } } } },
+} satisfies Prisma.EventInclude;
+
+type CandidateEvent = Prisma.EventGetPayload<{ include: typeof candidateInclude }>;
+
+export type RecommendedEvent = Omit<CandidateEvent, "_count"> & {
+    startingPrice: number;
+    bookingCount: number;
+    distanceKm: number | null;
+    score: number;
+    explanation: string;
+};
+
+export type RecommendationOptions = {
+    latitude?: number;
+    longitude?: number;
+    radius?: number; // Kilometers
+    limit?: number;
+};
+
+export const RecommendationService = {
+    /**
+     * Rank the upcoming public events a user hasn't booked yet by how well they fit
+     * the user: categories they picked in their preferences or booked before, organizers
+     * they booked before, ticket prices within their budget, distance from their location
+     * and how many people booked the event.
+     * @param userId - User to recommend events to
+     * @param options - User's location and the number of events to return
+     * @returns Events with their score and an explanation of why they were suggested
+     */
+    getRecommendedEvents: async (userId: string, options: RecommendationOptions = {}): Promise<RecommendedEvent[]> => {
+        try {
+            const { latitude, longitude, radius = DEFAULT_RADIUS_KM, limit = 10 } = options;
+            const hasLocation = latitude !== undefined && longitude !== undefined;
+
+            const [preferences, pastBookings] = await Promise.all([
+                prisma.preferences.findUnique({ where: { userId } }),
+                prisma.ticketBooking.findMany({
+                    where: { userId, status: { in: ["PENDING", "CONFIRMED"] } },
+                    select: { eventId: true, event: { select: { category: true, organizerId: true } } },
+                }),
+            ]);
+
+            const preferredCategories = new Set((preferences?.categories || []).map((category) => category.toLowerCase()));
+            const bookedCategories = new Set(pastBookings.map((booking) => booking.event.category.toLowerCase()));
+            const bookedOrganizers = new Set(pastBookings.map((booking) => booking.event.organizerId));
+            const bookedEventIds = [...new Set(pastBookings.map((booking) => booking.eventId))];
+            const budget = preferences?.budgetRange ?? null;
+
+            const candidates = await prisma.event.findMany({
+                where: {
+                    isPublic: true,
+                    date: { gte: new Date() },
+                    organizerId: { not: userId },
+                    ...(bookedEventIds.length > 0 ? { id: { notIn: bookedEventIds } } : {}),
+                },
+                include: candidateInclude,
+                orderBy: { date: "asc" },
+                take: CANDIDATE_LIMIT,
+            });
+
+            const maxBookings = Math.max(0, ...candidates.map((event) => event._count.ticketBookings));
+
+            const recommendations: RecommendedEvent[] = [];
+            for (const { _count, ...event } of candidates) {
+                const availableTiers = event.ticketTiers.filter((tier) => tier.availableSeats > 0);
+                if (availableTiers.length === 0) {
+                    continue; // Sold out
+                }
+
+                const startingPrice = Math.min(...availableTiers.map((tier) => tier.price));
+                const category = event.category.toLowerCase();
+                const reasons: string[] = [];
+                let score = 0;
+
+                if (preferredCategories.has(category)) {
+                    score += WEIGHTS.preferredCategory;
+                    reasons.push(`Matches your interest in ${event.category}`);
+                } else if (bookedCategories.has(category)) {
+                    score += WEIGHTS.bookedCategory;
+                    reasons.push(`You've booked ${event.category} events before`);
+                }
+
+                if (bookedOrganizers.has(event.organizerId)) {
+                    score += WEIGHTS.bookedOrganizer;
+                    reasons.push("From an organizer you've booked with before");
+                }
+
+                if (budget !== null) {
+                    if (startingPrice <= budget) {
+                        score += WEIGHTS.withinBudget;
+                        reasons.push(`Tickets from ${formatAmount(startingPrice)}, within your budget`);
+                    } else {
+                        score += WEIGHTS.overBudget;
+                    }
+                }
+
+                let distanceKm: number | null = null;
+                if (hasLocation && event.venue) {
+                    distanceKm = calculateDistance(latitude, longitude, event.venue.latitude, event.venue.longitude);
+                    if (distanceKm <= radius) {
+                        score += WEIGHTS.distance * (1 - distanceKm / radius);
+                        reasons.push(`${distanceKm.toFixed(1)} km away at ${event.venue.name}`);
+                    }
+                }
+
+                const bookingCount = _count.ticketBookings;
+                if (bookingCount > 0) {
+                    // Logarithmic so that a few very popular events don't outweigh everything else
+                    score += WEIGHTS.popularity * (Math.log1p(bookingCount) / Math.log1p(maxBookings));
+                    if (bookingCount === maxBookings) {
+                        reasons.push("One of the most popular upcoming events");
+                    } else if (bookingCount >= maxBookings / 2) {
+                        reasons.push("Popular with other attendees");
+                    }
+                }
+
+                recommendations.push({
+                    ...event,
+                    startingPrice,
+                    bookingCount,
+                    distanceKm: distanceKm === null ? null : Math.round(distanceKm * 10) / 10,
+                    score: Math.round(score * 100) / 100,
+                    explanation: reasons.length > 0 ? reasons.join(". ") : "Upcoming event you might like",
+                });
+            }
+
+            // Highest score first, sooner events first on a tie
+            return recommendations
+                .sort((a, b) => b.score - a.score || a.date.getTime() - b.date.getTime())
+                .slice(0, limit);
+        } catch (error) {
+            throw new Error("Error fetching recommended events: " + error);
+        }
+    },
+};
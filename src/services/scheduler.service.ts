@@ -0,0 +1,205 @@
+import { Prisma, ScheduledJob } from "@prisma/client";
+import { parseExpression } from "cron-parser";
+import os from "os";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+
+export type JobHandler = (payload: Prisma.JsonValue | null) => Promise<void>;
+
+// Identifies this process in the lock of the jobs it runs
+const instanceId = `${os.hostname()}:${process.pid}`;
+
+// How long a job stays locked; a crashed instance's jobs become runnable again after this
+const LOCK_LEASE_MS = 5 * 60 * 1000;
+const MAX_ONE_OFF_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+
+const handlers = new Map<string, JobHandler>();
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+/**
+ * Work out the next run of a cron expression.
+ * @param cron - Cron expression, with an optional leading seconds field
+ * @param from - Time to start from
+ * @returns Next run
+ */
+const nextRun = (cron: string, from: Date): Date => parseExpression(cron, { currentDate: from }).next().toDate();
+
+/**
+ * Run a claimed job and record the outcome.
+ * Recurring jobs are always rescheduled to their next run; one-off jobs are retried
+ * with exponential backoff until MAX_ONE_OFF_ATTEMPTS. The outcome is only recorded
+ * while this instance still holds the lock: once the lease runs out, another instance
+ * may have claimed the job and owns its state.
+ */
+const runJob = async (job: ScheduledJob): Promise<void> => {
+    const handler = handlers.get(job.handler);
+    const startedAt = new Date();
+    const attempts = job.attempts + 1;
+
+    try {
+        if (!handler) {
+            throw new Error(`No handler registered for ${job.handler}`);
+        }
+        await handler(job.payload);
+
+        const { count } = await prisma.scheduledJob.updateMany({
+            where: { id: job.id, lockedBy: instanceId },
+            data: job.cron
+                ? { status: "SCHEDULED", runAt: nextRun(job.cron, new Date()), attempts: 0, lastRunAt: startedAt, lastError: null, lockedBy: null, lockedUntil: null }
+                : { status: "COMPLETED", attempts, lastRunAt: startedAt, lastError: null, lockedBy: null, lockedUntil: null },
+        });
+        if (count === 0) {
+            logger.warn(`Job ${job.name} finished after its lock was taken over, outcome not recorded`);
+        }
+    } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error);
+        logger.error(`Job ${job.name} failed: ${lastError}`);
+
+        const giveUp = !job.cron && attempts >= MAX_ONE_OFF_ATTEMPTS;
+        const { count } = await prisma.scheduledJob.updateMany({
+            where: { id: job.id, lockedBy: instanceId },
+            data: {
+                status: giveUp ? "FAILED" : "SCHEDULED",
+                runAt: job.cron ? nextRun(job.cron, new Date()) : new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+                attempts,
+                lastRunAt: startedAt,
+                lastError,
+                lockedBy: null,
+                lockedUntil: null,
+            },
+        });
+        if (count === 0) {
+            logger.warn(`Job ${job.name} failed after its lock was taken over, outcome not recorded`);
+        }
+    }
+};
+
+export const SchedulerService = {
+    /**
+     * Register the function that runs jobs of a given handler name.
+     * @param name - Handler name stored on the jobs
+     * @param handler - Function running the job
+     */
+    registerHandler: (name: string, handler: JobHandler): void => {
+        handlers.set(name, handler);
+    },
+
+    /**
+     * Create or update a recurring job. The job keeps its state across restarts;
+     * changing its cron expression reschedules it.
+     * @param name - Unique job name
+     * @param cron - Cron expression, with an optional leading seconds field
+     * @param handler - Registered handler name
+     * @returns The scheduled job
+     */
+    scheduleRecurring: async (name: string, cron: string, handler: string): Promise<ScheduledJob> => {
+        const existing = await prisma.scheduledJob.findUnique({ where: { name } });
+        if (existing && existing.cron === cron && existing.handler === handler) {
+            return existing;
+        }
+
+        const runAt = nextRun(cron, new Date());
+        return await prisma.scheduledJob.upsert({
+            where: { name },
+            create: { name, cron, handler, runAt },
+            update: { cron, handler, runAt, status: "SCHEDULED", attempts: 0 },
+        });
+    },
+
+    /**
+     * Schedule a job that runs once at a given time.
+     * @param handler - Registered handler name
+     * @param runAt - When to run the job
+     * @param payload - Data passed to the handler (optional)
+     * @returns The scheduled job
+     */
+    scheduleOnce: async (handler: string, runAt: Date, payload?: Prisma.InputJsonValue): Promise<ScheduledJob> => {
+        return await prisma.scheduledJob.create({
+            data: {
+                name: `${handler}:${Date.now()}:${Math.random().toString(36).slice(2, 10)}`,
+                handler,
+                runAt,
+                payload,
+            },
+        });
+    },
+
+    /**
+     * Run every job that is due. Each job is claimed with a conditional update on its
+     * lock, so when several instances share the database only one of them runs it.
+     * @returns Number of jobs run by this instance
+     */
+    tick: async (): Promise<number> => {
+        const now = new Date();
+        const claimable = {
+            runAt: { lte: now },
+            OR: [
+                { status: "SCHEDULED" as const },
+                // RUNNING with an expired lease: the instance running it went away
+                { status: "RUNNING" as const, lockedUntil: { lt: now } },
+            ],
+        };
+
+        const dueJobs = await prisma.scheduledJob.findMany({
+            where: claimable,
+            orderBy: { runAt: "asc" },
+            take: 20,
+        });
+
+        let ran = 0;
+        for (const job of dueJobs) {
+            const { count } = await prisma.scheduledJob.updateMany({
+                where: { id: job.id, ...claimable },
+                data: { status: "RUNNING", lockedBy: instanceId, lockedUntil: new Date(Date.now() + LOCK_LEASE_MS) },
+            });
+            if (count === 0) {
+                continue;
+            }
+
+            await runJob(job);
+            ran++;
+        }
+
+        return ran;
+    },
+
+    /**
+     * Start polling for due jobs.
+     * @param intervalMs - Polling interval
+     */
+    start: (intervalMs = 10 * 1000): void => {
+        if (timer) {
+            return;
+        }
+
+        timer = setInterval(async () => {
+            // Skip a beat instead of overlapping when a tick runs long
+            if (ticking) {
+                return;
+            }
+
+            ticking = true;
+            try {
+                await SchedulerService.tick();
+            } catch (error) {
+                logger.error(`Error running scheduled jobs: ${error instanceof Error ? error.message : error}`);
+            } finally {
+                ticking = false;
+            }
+        }, intervalMs);
+
+        logger.info(`Job scheduler started on ${instanceId}`);
+    },
+
+    /**
+     * Stop polling for due jobs.
+     */
+    stop: (): void => {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,252 @@
+import { Session } from "@prisma/client";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { generateOpaqueToken, hashToken } from "../utils/crypto.util";
+import { generateToken } from "../utils/jwt.util";
+
+const DEFAULT_SESSION_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type ClientInfo = {
+    userAgent?: string;
+    ipAddress?: string;
+};
+
+export type SessionTokens = {
+    accessToken: string;
+    refreshToken: string;
+    refreshTokenExpiresAt: Date;
+    sessionId: string;
+};
+
+export type SessionSummary = {
+    id: string;
+    device: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+};
+
+/**
+ * How long a session, and so its refresh token, stays valid without being refreshed.
+ * @returns Lifetime in milliseconds
+ */
+export const getSessionLifetime = (): number =>
+    Number(process.env.COOKIE_EXPIRATION) || DEFAULT_SESSION_LIFETIME_MS;
+
+/**
+ * Describe the device of a session from its user agent, e.g. "Chrome on Windows".
+ * @param userAgent - User agent of the client
+ * @returns Short device description
+ */
+const describeDevice = (userAgent: string | null): string => {
+    if (!userAgent) {
+        return "Unknown device";
+    }
+
+    const browsers: [RegExp, string][] = [
+        [/Edg\//, "Edge"],
+        [/OPR\/|Opera/, "Opera"],
+        [/Firefox\//, "Firefox"],
+        [/Chrome\//, "Chrome"],
+        [/Safari\//, "Safari"],
+        [/PostmanRuntime/, "Postman"],
+        [/curl\//, "curl"],
+    ];
+    const systems: [RegExp, string][] = [
+        [/Windows/, "Windows"],
+        [/Android/, "Android"],
+        [/iPhone|iPad|iOS/, "iOS"],
+        [/Mac OS X|Macintosh/, "macOS"],
+        [/Linux/, "Linux"],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+        return `${browser} on ${system}`;
+    }
+    return browser || system || "Unknown device";
+};
+
+/**
+ * Issue a fresh access token and refresh token for a session.
+ */
+const issueTokens = (session: Pick<Session, "id">, user: { id: string; role: string }, refreshToken: string, expiresAt: Date): SessionTokens => ({
+    accessToken: generateToken({ id: user.id, role: user.role, sid: session.id }),
+    refreshToken,
+    refreshTokenExpiresAt: expiresAt,
+    sessionId: session.id,
+});
+
+export const SessionService = {
+    /**
+     * Start a session for a user who just logged in.
+     * @param user - Logged in user
+     * @param client - Device and IP the user logged in from
+     * @returns Access and refresh tokens of the session
+     */
+    createSession: async (user: { id: string; role: string }, client: ClientInfo): Promise<SessionTokens> => {
+        const refreshToken = generateOpaqueToken();
+        const expiresAt = new Date(Date.now() + getSessionLifetime());
+
+        const session = await prisma.session.create({
+            data: {
+                userId: user.id,
+                refreshTokenHash: hashToken(refreshToken),
+                userAgent: client.userAgent?.slice(0, 512),
+                ipAddress: client.ipAddress,
+                expiresAt,
+                // Stored explicitly so that "revokedAt: null" filters match active sessions
+                revokedAt: null,
+            },
+        });
+
+        return issueTokens(session, user, refreshToken, expiresAt);
+    },
+
+    /**
+     * Exchange a refresh token for a new access token and a new refresh token.
+     * Refresh tokens are single use: presenting one that was already rotated out means
+     * it was stolen, so the whole session is revoked.
+     * @param refreshToken - Refresh token sent by the client
+     * @param client - Device and IP the request came from
+     * @returns New tokens or error
+     */
+    refresh: async (refreshToken: string, client: ClientInfo): Promise<SessionTokens | { error: string }> => {
+        const tokenHash = hashToken(refreshToken);
+        const now = new Date();
+
+        const session = await prisma.session.findFirst({
+            where: { refreshTokenHash: tokenHash },
+            include: { user: { select: { id: true, role: true } } },
+        });
+
+        if (!session) {
+            const reused = await prisma.session.findFirst({ where: { previousTokenHash: tokenHash } });
+            if (reused && !reused.revokedAt) {
+                await prisma.session.update({ where: { id: reused.id }, data: { revokedAt: now } });
+                logger.error(`Refresh token reuse detected, session ${reused.id} revoked`);
+            }
+            return { error: "Invalid refresh token" };
+        }
+
+        if (session.revokedAt || session.expiresAt <= now) {
+            return { error: "Session has expired" };
+        }
+
+        const newRefreshToken = generateOpaqueToken();
+        const expiresAt = new Date(now.getTime() + getSessionLifetime());
+
+        // Conditional on the current hash so that two concurrent refreshes can't both rotate
+        const { count } = await prisma.session.updateMany({
+            where: { id: session.id, refreshTokenHash: tokenHash },
+            data: {
+                refreshTokenHash: hashToken(newRefreshToken),
+                previousTokenHash: tokenHash,
+                lastUsedAt: now,
+                expiresAt,
+                userAgent: client.userAgent?.slice(0, 512) ?? session.userAgent,
+                ipAddress: client.ipAddress ?? session.ipAddress,
+            },
+        });
+        if (count === 0) {
+            return { error: "Invalid refresh token" };
+        }
+
+        return issueTokens(session, session.user, newRefreshToken, expiresAt);
+    },
+
+    /**
+     * Get the session behind an access token if it is still active.
+     * @param sessionId - Session ID
+     * @returns Owner, current role and 2FA status of the session's user, or null if it was revoked or expired
+     */
+    getActiveSession: async (sessionId: string): Promise<{ userId: string; role: string; twoFactorEnabled: boolean } | null> => {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: {
+                userId: true,
+                revokedAt: true,
+                expiresAt: true,
+                user: { select: { role: true, twoFactorEnabled: true } },
+            },
+        });
+
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+            return null;
+        }
+        return { userId: session.userId, role: session.user.role, twoFactorEnabled: session.user.twoFactorEnabled };
+    },
+
+    /**
+     * Revoke one session of a user.
+     * @param userId - Owner of the session
+     * @param sessionId - Session ID
+     * @returns Whether a session was revoked
+     */
+    revoke: async (userId: string, sessionId: string): Promise<boolean> => {
+        const { count } = await prisma.session.updateMany({
+            where: { id: sessionId, userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        return count > 0;
+    },
+
+    /**
+     * Revoke every session of a user, e.g. to log out of all devices.
+     * @param userId - User ID
+     * @param exceptSessionId - Session to keep (optional)
+     * @returns Number of revoked sessions
+     */
+    revokeAll: async (userId: string, exceptSessionId?: string): Promise<number> => {
+        const { count } = await prisma.session.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+            },
+            data: { revokedAt: new Date() },
+        });
+        return count;
+    },
+
+    /**
+     * List the active sessions of a user, most recently used first.
+     * @param userId - User ID
+     * @param currentSessionId - Session of the request, flagged as current
+     * @returns Active sessions
+     */
+    listSessions: async (userId: string, currentSessionId?: string): Promise<SessionSummary[]> => {
+        const sessions = await prisma.session.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { lastUsedAt: "desc" },
+        });
+
+        return sessions.map((session) => ({
+            id: session.id,
+            device: describeDevice(session.userAgent),
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session.id === currentSessionId,
+        }));
+    },
+
+    /**
+     * Delete sessions that expired or were revoked more than a day ago.
+     * @returns Number of deleted sessions
+     */
+    purgeSessions: async (): Promise<number> => {
+        const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        const { count } = await prisma.session.deleteMany({
+            where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+        });
+        return count;
+    },
+};
@@ -0,0 +1,184 @@
+import { Ticket } from "@prisma/client";
+import QRCode from "qrcode";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { signTicketToken, verifyTicketToken } from "../utils/ticket-token.util";
+
+export type TicketWithToken = Ticket & { token: string };
+
+export type CheckInStats = {
+    seatType: string;
+    issued: number;
+    checkedIn: number;
+    remaining: number;
+}[];
+
+const withToken = (ticket: Ticket): TicketWithToken => ({
+    ...ticket,
+    token: signTicketToken({ tid: ticket.id, eid: ticket.eventId }),
+});
+
+export const TicketService = {
+    /**
+     * Issue one ticket per seat of a confirmed booking.
+     * Safe to call repeatedly: tickets are only issued once per booking.
+     * @param ticketBookingId - Ticket booking ID
+     * @returns Issued tickets
+     */
+    issueTickets: async (ticketBookingId: string): Promise<Ticket[]> => {
+        const booking = await prisma.ticketBooking.findUnique({ where: { id: ticketBookingId } });
+        if (!booking || booking.status !== "CONFIRMED") {
+            return [];
+        }
+
+        const existing = await prisma.ticket.findMany({ where: { ticketBookingId } });
+        if (existing.length > 0) {
+            return existing;
+        }
+
+        await prisma.ticket.createMany({
+            data: Array.from({ length: booking.ticketCount }, (_, index) => ({
+                ticketBookingId,
+                eventId: booking.eventId,
+                userId: booking.userId,
+                seatType: booking.seatType,
+                number: index + 1,
+            })),
+        });
+
+        logger.info(`Issued ${booking.ticketCount} tickets for booking ${ticketBookingId}`);
+        return await prisma.ticket.findMany({ where: { ticketBookingId }, orderBy: { number: "asc" } });
+    },
+
+    /**
+     * Void the tickets of a canceled booking so that they can't be used at the door.
+     * @param ticketBookingId - Ticket booking ID
+     * @returns Number of voided tickets
+     */
+    voidTickets: async (ticketBookingId: string): Promise<number> => {
+        const { count } = await prisma.ticket.updateMany({
+            where: { ticketBookingId, status: "VALID" },
+            data: { status: "VOID" },
+        });
+        return count;
+    },
+
+    /**
+     * Get the tickets of a booking together with their signed tokens.
+     * @param ticketBookingId - Ticket booking ID
+     * @returns Tickets with tokens
+     */
+    getBookingTickets: async (ticketBookingId: string): Promise<TicketWithToken[]> => {
+        try {
+            const tickets = await prisma.ticket.findMany({
+                where: { ticketBookingId },
+                orderBy: { number: "asc" },
+            });
+            return tickets.map(withToken);
+        } catch (error) {
+            throw new Error("Error fetching tickets");
+        }
+    },
+
+    /**
+     * Get a ticket by ID together with its signed token.
+     * @param id - Ticket ID
+     * @returns Ticket with token or null
+     */
+    getTicketById: async (id: string): Promise<TicketWithToken | null> => {
+        try {
+            const ticket = await prisma.ticket.findUnique({ where: { id } });
+            return ticket ? withToken(ticket) : null;
+        } catch (error) {
+            throw new Error("Error fetching ticket by ID");
+        }
+    },
+
+    /**
+     * Render a ticket token as a QR code.
+     * @param token - Signed ticket token
+     * @param format - Image format
+     * @returns PNG buffer or SVG markup
+     */
+    renderQrCode: async (token: string, format: "png" | "svg"): Promise<Buffer | string> => {
+        if (format === "svg") {
+            return await QRCode.toString(token, { type: "svg", errorCorrectionLevel: "M", margin: 2 });
+        }
+        return await QRCode.toBuffer(token, { type: "png", errorCorrectionLevel: "M", margin: 2, width: 320 });
+    },
+
+    /**
+     * Check a ticket in at the door.
+     * The ticket is marked as used with a conditional update, so a token can only be
+     * accepted once even when it is scanned at two doors at the same time.
+     * @param eventId - Event the door belongs to
+     * @param token - Token scanned from the QR code
+     * @param checkedInById - Staff member scanning the ticket
+     * @returns The checked in ticket or error
+     */
+    checkIn: async (eventId: string, token: string, checkedInById: string): Promise<Ticket | { error: string }> => {
+        const payload = verifyTicketToken(token);
+        if (!payload) {
+            return { error: "Invalid ticket" };
+        }
+
+        if (payload.eid !== eventId) {
+            return { error: "Ticket is for a different event" };
+        }
+
+        const checkedInAt = new Date();
+        const { count } = await prisma.ticket.updateMany({
+            where: { id: payload.tid, eventId, status: "VALID" },
+            data: { status: "USED", checkedInAt, checkedInById },
+        });
+
+        const ticket = await prisma.ticket.findUnique({ where: { id: payload.tid } });
+        if (!ticket) {
+            return { error: "Invalid ticket" };
+        }
+
+        if (count === 0) {
+            if (ticket.status === "USED") {
+                return { error: `Ticket was already checked in at ${ticket.checkedInAt?.toISOString()}` };
+            }
+            return { error: "Ticket is no longer valid" };
+        }
+
+        logger.info(`Ticket ${ticket.id} checked in for event ${eventId}`);
+        return ticket;
+    },
+
+    /**
+     * Get live check-in counts for an event, per seat tier.
+     * @param eventId - Event ID
+     * @returns Issued and checked in tickets per seat type
+     */
+    getCheckInStats: async (eventId: string): Promise<CheckInStats> => {
+        try {
+            const groups = await prisma.ticket.groupBy({
+                by: ["seatType", "status"],
+                where: { eventId, status: { in: ["VALID", "USED"] } },
+                _count: { _all: true },
+            });
+
+            const stats = new Map<string, { issued: number; checkedIn: number }>();
+            for (const group of groups) {
+                const entry = stats.get(group.seatType) || { issued: 0, checkedIn: 0 };
+                entry.issued += group._count._all;
+                if (group.status === "USED") {
+                    entry.checkedIn += group._count._all;
+                }
+                stats.set(group.seatType, entry);
+            }
+
+            return Array.from(stats.entries()).map(([seatType, { issued, checkedIn }]) => ({
+                seatType,
+                issued,
+                checkedIn,
+                remaining: issued - checkedIn,
+            }));
+        } catch (error) {
+            throw new Error("Error fetching check-in stats");
+        }
+    },
+};
@@ -0,0 +1,214 @@
+import { User } from "@prisma/client";
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { isTwoFactorRequired } from "../config/permissions.config";
+import prisma from "../config/prisma.config";
+import { decryptSecret, encryptSecret, hashToken } from "../utils/crypto.util";
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from "../utils/totp.util";
+import { SessionService } from "./session.service";
+
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorSetup = {
+    secret: string;
+    otpauthUrl: string;
+    qrCode: string; // PNG data URL of the otpauth URL
+};
+
+/**
+ * Normalize a recovery code so that case, spaces and dashes don't matter.
+ */
+const normalizeRecoveryCode = (code: string): string => (code || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Generate a fresh set of recovery codes of the form xxxxx-xxxxx.
+ * @returns The codes to show to the user and the hashes to store
+ */
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const code = crypto.randomBytes(5).toString("hex");
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+    return { codes, hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) };
+};
+
+/**
+ * Check a TOTP code, or a recovery code when allowed, and use it up so that it can't be replayed.
+ * @param user - User entering the code
+ * @param code - TOTP or recovery code
+ * @param allowRecoveryCode - Whether recovery codes are accepted
+ * @returns Whether the code was accepted
+ */
+const consumeCode = async (user: User, code: string, allowRecoveryCode = true): Promise<boolean> => {
+    if (!user.twoFactorSecret) {
+        return false;
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+    if (step !== null) {
+        // A code stays valid for its whole time step, so only later steps are accepted
+        const { count } = await prisma.user.updateMany({
+            where: { id: user.id, OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }] },
+            data: { twoFactorLastUsedStep: step },
+        });
+        return count > 0;
+    }
+
+    if (!allowRecoveryCode) {
+        return false;
+    }
+
+    const hash = hashToken(normalizeRecoveryCode(code));
+    if (!user.twoFactorRecoveryCodes.includes(hash)) {
+        return false;
+    }
+
+    // Conditional on the current list so that two concurrent logins can't both use a code
+    const { count } = await prisma.user.updateMany({
+        where: { id: user.id, twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes } },
+        data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((value) => value !== hash) },
+    });
+    return count > 0;
+};
+
+export const TwoFactorService = {
+    /**
+     * Start enrolling a user in two-factor authentication. The secret only becomes
+     * active once a code from the authenticator app is confirmed with enable.
+     * @param userId - User ID
+     * @returns Secret, otpauth URL and QR code for the authenticator app, or error
+     */
+    setup: async (userId: string): Promise<TwoFactorSetup | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            return { error: "User not found" };
+        }
+        if (user.twoFactorEnabled) {
+            return { error: "Two-factor authentication is already enabled" };
+        }
+
+        const secret = generateTotpSecret();
+        const otpauthUrl = buildOtpAuthUrl(secret, user.email);
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorSecret: encryptSecret(secret),
+                // Stored explicitly so that "twoFactorLastUsedStep: null" filters match
+                twoFactorLastUsedStep: null,
+                twoFactorRecoveryCodes: [],
+            },
+        });
+
+        return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 2, width: 240 }) };
+    },
+
+    /**
+     * Turn on two-factor authentication after the user proved their app generates valid codes.
+     * Every other session of the user is logged out.
+     * @param userId - User ID
+     * @param code - Code from the authenticator app
+     * @param currentSessionId - Session of the request, which stays logged in
+     * @returns Recovery codes, shown only this once, or error
+     */
+    enable: async (userId: string, code: string, currentSessionId?: string): Promise<{ recoveryCodes: string[] } | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            return { error: "User not found" };
+        }
+        if (user.twoFactorEnabled) {
+            return { error: "Two-factor authentication is already enabled" };
+        }
+        if (!user.twoFactorSecret) {
+            return { error: "Set up two-factor authentication first" };
+        }
+
+        if (!(await consumeCode(user, code, false))) {
+            return { error: "Invalid verification code" };
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: true,
+                twoFactorEnabledAt: new Date(),
+                twoFactorRecoveryCodes: hashes,
+            },
+        });
+        await SessionService.revokeAll(userId, currentSessionId);
+
+        return { recoveryCodes: codes };
+    },
+
+    /**
+     * Turn off two-factor authentication. Not allowed for roles that require it.
+     * @param userId - User ID
+     * @param code - Code from the authenticator app or a recovery code
+     * @returns Object with success or error
+     */
+    disable: async (userId: string, code: string): Promise<{ success: true } | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            return { error: "User not found" };
+        }
+        if (!user.twoFactorEnabled) {
+            return { error: "Two-factor authentication is not enabled" };
+        }
+        if (isTwoFactorRequired(user.role)) {
+            return { error: "Two-factor authentication is mandatory for your account" };
+        }
+
+        if (!(await consumeCode(user, code))) {
+            return { error: "Invalid verification code" };
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorEnabledAt: null,
+                twoFactorSecret: null,
+                twoFactorLastUsedStep: null,
+                twoFactorRecoveryCodes: [],
+            },
+        });
+
+        return { success: true };
+    },
+
+    /**
+     * Replace the recovery codes of a user, invalidating the old ones.
+     * @param userId - User ID
+     * @param code - Code from the authenticator app
+     * @returns New recovery codes or error
+     */
+    regenerateRecoveryCodes: async (userId: string, code: string): Promise<{ recoveryCodes: string[] } | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || !user.twoFactorEnabled) {
+            return { error: "Two-factor authentication is not enabled" };
+        }
+
+        if (!(await consumeCode(user, code, false))) {
+            return { error: "Invalid verification code" };
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: userId },
+            data: { twoFactorRecoveryCodes: hashes },
+        });
+
+        return { recoveryCodes: codes };
+    },
+
+    /**
+     * Check the second factor of a login.
+     * @param user - User logging in
+     * @param code - Code from the authenticator app or a recovery code
+     * @returns Whether the code was accepted
+     */
+    verifyLogin: async (user: User, code: string): Promise<boolean> => {
+        return user.twoFactorEnabled && (await consumeCode(user, code));
+    },
+};
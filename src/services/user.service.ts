@@ -0,0 +1,367 @@
+import { Prisma, UserRole } from "@prisma/client";
+import bcrypt from "bcrypt";
+import cloudinary from "../config/cloudinary.config";
+import prisma from "../config/prisma.config";
+import { AuditService } from "./audit.service";
+import { AuthService } from "./auth.service";
+import { LoginThrottleService } from "./login-throttle.service";
+import { ClientInfo, SessionService } from "./session.service";
+import { TwoFactorService } from "./two-factor.service";
+
+// How recent a login must be to stand in for a password on accounts without one
+const REAUTHENTICATION_WINDOW_MS = 10 * 60 * 1000;
+
+const userSummarySelect = {
+    id: true,
+    name: true,
+    email: true,
+    role: true,
+    emailVerified: true,
+    createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export type UserSummary = Prisma.UserGetPayload<{ select: typeof userSummarySelect }>;
+
+const profileSelect = {
+    id: true,
+    name: true,
+    email: true,
+    pendingEmail: true,
+    avatar: true,
+    role: true,
+    emailVerified: true,
+    twoFactorEnabled: true,
+    password: true,
+    oauthAccounts: { select: { provider: true } },
+    preferences: { select: { categories: true, budgetRange: true } },
+    createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export type Profile = Omit<Prisma.UserGetPayload<{ select: typeof profileSelect }>, "password" | "oauthAccounts"> & {
+    hasPassword: boolean;
+    linkedProviders: string[];
+};
+
+export type ProfileUpdate = {
+    name?: string;
+    email?: string;
+    preferences?: {
+        categories?: string[];
+        budgetRange?: number | null;
+    };
+};
+
+/**
+ * Fetch the profile of a user without exposing the password hash.
+ * @param userId - User ID
+ * @returns Profile or null if the user doesn't exist
+ */
+const findProfile = async (userId: string): Promise<Profile | null> => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { ...profileSelect, deletedAt: true } });
+    if (!user || user.deletedAt) {
+        return null;
+    }
+
+    const { password, oauthAccounts, deletedAt, ...profile } = user;
+    return {
+        ...profile,
+        hasPassword: !!password,
+        linkedProviders: oauthAccounts.map((account) => account.provider),
+    };
+};
+
+export const UserService = {
+    /**
+     * List users, newest first.
+     * @param role - Only list users with this role (optional)
+     * @param page - Page number for pagination
+     * @param limit - Number of items per page
+     * @returns Paginated list of users
+     */
+    listUsers: async (role: UserRole | undefined, page: number = 1, limit: number = 20) => {
+        try {
+            const where: Prisma.UserWhereInput = role ? { role } : {};
+
+            const [users, total] = await Promise.all([
+                prisma.user.findMany({
+                    where,
+                    select: userSummarySelect,
+                    orderBy: { createdAt: "desc" },
+                    skip: (page - 1) * limit,
+                    take: limit,
+                }),
+                prisma.user.count({ where }),
+            ]);
+
+            return {
+                users,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
+                },
+            };
+        } catch (error) {
+            throw new Error("Error fetching users: " + error);
+        }
+    },
+
+    /**
+     * Change the role of a user. The new role applies to the user's next request,
+     * since the role is read from the database on every authenticated request.
+     * @param adminId - Admin making the change
+     * @param userId - User whose role changes
+     * @param role - New role
+     * @returns Updated user or error
+     */
+    updateRole: async (adminId: string, userId: string, role: UserRole): Promise<UserSummary | { error: string }> => {
+        if (adminId === userId) {
+            return { error: "You can't change your own role" };
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            return { error: "User not found" };
+        }
+
+        return await prisma.user.update({
+            where: { id: userId },
+            data: { role },
+            select: userSummarySelect,
+        });
+    },
+
+    /**
+     * Get the profile of the logged in user.
+     * @param userId - User ID
+     * @returns Profile or error
+     */
+    getProfile: async (userId: string): Promise<Profile | { error: string }> => {
+        const profile = await findProfile(userId);
+        return profile || { error: "User not found" };
+    },
+
+    /**
+     * Update the name, email and preferences of a user. A new email address only
+     * replaces the current one once it is confirmed through the verification email.
+     * @param userId - User ID
+     * @param update - Fields to change
+     * @returns Updated profile or error
+     */
+    updateProfile: async (userId: string, update: ProfileUpdate): Promise<Profile | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || user.deletedAt) {
+            return { error: "User not found" };
+        }
+
+        if (update.email) {
+            const result = await AuthService.requestEmailChange(userId, update.email);
+            if (result.error) {
+                return { error: result.error };
+            }
+        }
+
+        if (update.name) {
+            await prisma.user.update({ where: { id: userId }, data: { name: update.name } });
+        }
+
+        if (update.preferences) {
+            const { categories, budgetRange } = update.preferences;
+            await prisma.preferences.upsert({
+                where: { userId },
+                create: { userId, categories: categories || [], budgetRange: budgetRange ?? null },
+                update: {
+                    ...(categories !== undefined ? { categories } : {}),
+                    ...(budgetRange !== undefined ? { budgetRange } : {}),
+                },
+            });
+        }
+
+        return (await findProfile(userId)) || { error: "User not found" };
+    },
+
+    /**
+     * Change the password of a user and log out their other sessions. Accounts
+     * created through social login can set a first password without a current one.
+     * @param userId - User ID
+     * @param currentPassword - Current password
+     * @param newPassword - New password
+     * @param client - Device and IP the change comes from
+     * @param currentSessionId - Session of the request, which stays logged in
+     * @returns Object with success or error
+     */
+    changePassword: async (
+        userId: string,
+        currentPassword: string | undefined,
+        newPassword: string,
+        client: ClientInfo = {},
+        currentSessionId?: string,
+    ): Promise<{ success: true } | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || user.deletedAt) {
+            return { error: "User not found" };
+        }
+
+        if (user.password) {
+            if (!currentPassword || !(await bcrypt.compare(currentPassword, user.password))) {
+                return { error: "Current password is incorrect" };
+            }
+            if (await bcrypt.compare(newPassword, user.password)) {
+                return { error: "New password must be different from the current one" };
+            }
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: { password: await bcrypt.hash(newPassword, 10), resetToken: null, resetTokenExpiry: null },
+        });
+        await SessionService.revokeAll(userId, currentSessionId);
+        await AuditService.record("PASSWORD_CHANGED", {
+            userId,
+            email: user.email,
+            ipAddress: client.ipAddress,
+            userAgent: client.userAgent,
+        });
+
+        return { success: true };
+    },
+
+    /**
+     * Upload a new avatar to Cloudinary and set it on the user.
+     * @param userId - User ID
+     * @param imagePath - Path of the uploaded file on disk
+     * @returns Updated profile or error
+     */
+    updateAvatar: async (userId: string, imagePath: string): Promise<Profile | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || user.deletedAt) {
+            return { error: "User not found" };
+        }
+
+        const uploadResponse = await cloudinary.uploader.upload(imagePath, {
+            folder: "avatars",
+        });
+
+        await prisma.user.update({ where: { id: userId }, data: { avatar: uploadResponse.secure_url } });
+
+        return (await findProfile(userId)) || { error: "User not found" };
+    },
+
+    /**
+     * Delete the account of a user. The user record is kept so that past bookings,
+     * payments and refunds stay consistent, but everything identifying the user is
+     * removed from it, from the emails sent to them and from the audit log, and they
+     * can no longer log in. Refused while the user still has upcoming bookings, events
+     * or venues.
+     * The user proves it's them with their password and, with 2FA on, a code. Accounts
+     * without a password need a code, or a session that logged in in the last minutes.
+     * @param userId - User ID
+     * @param reauth - Current password, 2FA code and the session the request comes from
+     * @param client - Device and IP the request comes from
+     * @returns Object with success or error
+     */
+    deleteAccount: async (
+        userId: string,
+        reauth: { password?: string; code?: string; sessionId?: string },
+        client: ClientInfo = {}
+    ): Promise<{ success: true } | { error: string }> => {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || user.deletedAt) {
+            return { error: "User not found" };
+        }
+
+        if (user.password && (!reauth.password || !(await bcrypt.compare(reauth.password, user.password)))) {
+            return { error: "Password is incorrect" };
+        }
+
+        if (user.twoFactorEnabled) {
+            if (!reauth.code || !(await TwoFactorService.verifyLogin(user, reauth.code))) {
+                return { error: "Invalid verification code" };
+            }
+        } else if (!user.password) {
+            const session = reauth.sessionId
+                ? await prisma.session.findUnique({ where: { id: reauth.sessionId } })
+                : null;
+            if (!session || session.userId !== userId || session.createdAt.getTime() < Date.now() - REAUTHENTICATION_WINDOW_MS) {
+                return { error: "Please log in again before deleting your account" };
+            }
+        }
+
+        const now = new Date();
+        const [ticketBookings, venueBookings, events, venues] = await Promise.all([
+            prisma.ticketBooking.count({
+                where: { userId, status: { in: ["PENDING", "CONFIRMED"] }, event: { date: { gt: now } } },
+            }),
+            prisma.venueBooking.count({
+                where: { userId, status: { in: ["PENDING", "CONFIRMED"] }, endDate: { gt: now } },
+            }),
+            prisma.event.count({ where: { organizerId: userId, date: { gt: now } } }),
+            prisma.venue.count({ where: { ownerId: userId } }),
+        ]);
+
+        if (ticketBookings > 0 || venueBookings > 0) {
+            return { error: "Cancel your upcoming bookings before deleting your account" };
+        }
+        if (events > 0) {
+            return { error: "Cancel or hand over your upcoming events before deleting your account" };
+        }
+        if (venues > 0) {
+            return { error: "Remove or hand over your venues before deleting your account" };
+        }
+
+        await prisma.$transaction([
+            prisma.preferences.deleteMany({ where: { userId } }),
+            prisma.oAuthAccount.deleteMany({ where: { userId } }),
+            prisma.user.update({
+                where: { id: userId },
+                data: {
+                    name: "Deleted user",
+                    // Unique placeholder, since the email must stay unique
+                    email: `deleted-${userId}@deleted.invalid`,
+                    pendingEmail: null,
+                    password: null,
+                    avatar: null,
+                    emailVerified: false,
+                    emailVerificationTokenHash: null,
+                    emailVerificationExpiry: null,
+                    resetToken: null,
+                    resetTokenExpiry: null,
+                    unlockTokenHash: null,
+                    unlockTokenExpiry: null,
+                    twoFactorEnabled: false,
+                    twoFactorEnabledAt: null,
+                    twoFactorSecret: null,
+                    twoFactorLastUsedStep: null,
+                    twoFactorRecoveryCodes: [],
+                    deletedAt: now,
+                },
+            }),
+        ]);
+        await SessionService.revokeAll(userId);
+
+        // Emails and audit entries would otherwise still tie the account to the person
+        const addresses = [user.email, user.pendingEmail].filter((address): address is string => !!address);
+        await prisma.emailOutbox.deleteMany({
+            where: { OR: addresses.map((address) => ({ to: { equals: address, mode: "insensitive" as const } })) },
+        });
+        await prisma.auditLog.updateMany({
+            where: {
+                OR: [
+                    { userId },
+                    ...addresses.map((address) => ({ email: { equals: address, mode: "insensitive" as const } })),
+                ],
+            },
+            data: { email: null },
+        });
+        await LoginThrottleService.reset(userId);
+
+        await AuditService.record("ACCOUNT_DELETED", {
+            userId,
+            ipAddress: client.ipAddress,
+            userAgent: client.userAgent,
+        });
+
+        return { success: true };
+    },
+};
@@ -0,0 +1,198 @@
+import { Prisma, VenueHold } from "@prisma/client";
+import logger from "../config/logger.config";
+import prisma from "../config/prisma.config";
+import { countBookingDays, listUtcDays, MAX_BOOKING_DAYS } from "../utils/date.util";
+
+const HOLD_DURATION_MS = parseInt(process.env.VENUE_HOLD_MINUTES || "15", 10) * 60 * 1000;
+
+const UNAVAILABLE = "Venue is not available for the selected time slot";
+
+/**
+ * Whether a transaction failed because a day is already taken: either the unique
+ * index on venue and day rejected it, or a concurrent transaction took it first.
+ */
+const isReservationConflict = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError && (error.code === "P2002" || error.code === "P2034");
+
+/**
+ * Take the days of a hold. Days of other holds that expired but weren't released
+ * yet are freed first; any other taken day makes the whole write fail.
+ */
+const reserveDays = async (
+    tx: Prisma.TransactionClient,
+    hold: Pick<VenueHold, "id" | "venueId" | "startDate" | "endDate">,
+    expiresAt: Date | null
+): Promise<void> => {
+    const days = listUtcDays(hold.startDate, hold.endDate);
+
+    await tx.venueReservedDay.deleteMany({
+        where: { venueId: hold.venueId, day: { in: days }, expiresAt: { lt: new Date() } },
+    });
+    await tx.venueReservedDay.createMany({
+        data: days.map((day) => ({ venueId: hold.venueId, day, holdId: hold.id, expiresAt })),
+    });
+};
+
+/**
+ * Release a hold and free its days, if it still matches the given condition.
+ * @returns Whether the hold was released by this call
+ */
+const releaseHoldWhere = async (holdId: string, where: Prisma.VenueHoldWhereInput): Promise<boolean> => {
+    return await prisma.$transaction(async (tx) => {
+        const { count } = await tx.venueHold.updateMany({ where: { ...where, id: holdId }, data: { status: "RELEASED" } });
+        if (count === 0) {
+            return false;
+        }
+
+        await tx.venueReservedDay.deleteMany({ where: { holdId } });
+        return true;
+    });
+};
+
+export const VenueHoldService = {
+    /**
+     * Reserve a venue for a period for a limited time, while the booking is paid.
+     * The days are written as unique venue/day records, so two concurrent holds can
+     * never both get the same day even when both passed the availability check.
+     * @param venueId - Venue ID
+     * @param userId - User placing the hold
+     * @param startDate - Start of the booking
+     * @param endDate - End of the booking
+     * @param expiresAt - End of the hold, VENUE_HOLD_MINUTES from now by default
+     * @returns The created hold or error
+     */
+    createHold: async (
+        venueId: string,
+        userId: string,
+        startDate: Date,
+        endDate: Date,
+        expiresAt: Date = new Date(Date.now() + HOLD_DURATION_MS)
+    ): Promise<VenueHold | { error: string }> => {
+        if (endDate < startDate) {
+            return { error: "Start date must be before end date" };
+        }
+        if (countBookingDays(startDate, endDate) > MAX_BOOKING_DAYS) {
+            return { error: `Bookings can cover at most ${MAX_BOOKING_DAYS} days` };
+        }
+
+        try {
+            return await prisma.$transaction(async (tx) => {
+                const hold = await tx.venueHold.create({
+                    data: {
+                        venueId,
+                        userId,
+                        startDate,
+                        endDate,
+                        expiresAt,
+                        venueBookingId: null,
+                    },
+                });
+                await reserveDays(tx, hold, hold.expiresAt);
+                return hold;
+            });
+        } catch (error) {
+            if (isReservationConflict(error)) {
+                return { error: UNAVAILABLE };
+            }
+            throw error;
+        }
+    },
+
+    /**
+     * Make the days of a hold permanent once its booking is paid.
+     * A hold that expired in the meantime is re-acquired if its days are still free.
+     * Confirming an already confirmed hold is a no-op.
+     * @param holdId - Hold ID
+     * @returns Success or error
+     */
+    confirmHold: async (holdId: string): Promise<{ success: boolean; error?: string }> => {
+        try {
+            return await prisma.$transaction(async (tx) => {
+                const hold = await tx.venueHold.findUnique({ where: { id: holdId } });
+                if (!hold) {
+                    return { success: false, error: "Hold not found" };
+                }
+
+                if (hold.status === "CONFIRMED") {
+                    return { success: true };
+                }
+
+                const { count } = await tx.venueHold.updateMany({
+                    where: { id: holdId, status: hold.status },
+                    data: { status: "CONFIRMED" },
+                });
+                if (count === 0) {
+                    return { success: false, error: "Hold was modified concurrently" };
+                }
+
+                // Written again without an expiry, which also takes back days lost after expiring
+                await tx.venueReservedDay.deleteMany({ where: { holdId } });
+                await reserveDays(tx, hold, null);
+
+                return { success: true };
+            });
+        } catch (error) {
+            if (isReservationConflict(error)) {
+                logger.error(`Error confirming venue hold ${holdId}: dates were taken after the hold expired`);
+                return { success: false, error: "Hold expired and the dates are no longer available" };
+            }
+            logger.error(`Error confirming venue hold ${holdId}: ${error instanceof Error ? error.message : error}`);
+            return { success: false, error: "Error confirming hold" };
+        }
+    },
+
+    /**
+     * Move the end of an active hold, e.g. while a booking request waits for an answer.
+     * @param holdId - Hold ID
+     * @param expiresAt - New end of the hold
+     * @returns Whether the hold was still active and unexpired
+     */
+    extendHold: async (holdId: string, expiresAt: Date): Promise<boolean> => {
+        return await prisma.$transaction(async (tx) => {
+            const { count } = await tx.venueHold.updateMany({
+                // Days of an expired hold may already belong to someone else
+                where: { id: holdId, status: "ACTIVE", expiresAt: { gt: new Date() } },
+                data: { expiresAt },
+            });
+            if (count === 0) {
+                return false;
+            }
+
+            await tx.venueReservedDay.updateMany({ where: { holdId }, data: { expiresAt } });
+            return true;
+        });
+    },
+
+    /**
+     * Release a hold, active or confirmed, and free its days.
+     * @param holdId - Hold ID
+     * @returns Whether the hold was released by this call
+     */
+    releaseHold: async (holdId: string): Promise<boolean> => {
+        return await releaseHoldWhere(holdId, { status: { in: ["ACTIVE", "CONFIRMED"] } });
+    },
+
+    /**
+     * Release every active hold whose time limit has passed.
+     * @returns Number of released holds
+     */
+    releaseExpiredHolds: async (): Promise<number> => {
+        const expiredHolds = await prisma.venueHold.findMany({
+            where: { status: "ACTIVE", expiresAt: { lt: new Date() } },
+            select: { id: true },
+        });
+
+        let released = 0;
+        for (const hold of expiredHolds) {
+            // Skips holds that were paid or extended since they were listed
+            if (await releaseHoldWhere(hold.id, { status: "ACTIVE", expiresAt: { lt: new Date() } })) {
+                released++;
+            }
+        }
+
+        if (released > 0) {
+            logger.info(`Released ${released} expired venue holds`);
+        }
+        return released;
+    },
+};
@@ -0,0 +1,336 @@
+import { BookingRequest, BookingRequestStatus, Prisma, VenueBooking } from "@prisma/client";
+import logger from "../config/logger.config";
+import paymentProvider from "../config/payment.config";
+import prisma from "../config/prisma.config";
+import { ProviderOrder } from "../providers/payment.provider";
+import { EventService } from "./event.service";
+import { NotificationService } from "./notification.service";
+import { VenueHoldService } from "./venue-hold.service";
+
+const DEFAULT_REQUEST_TTL_HOURS = 48;
+
+// Requests still waiting for the owner or the guest
+const OPEN_STATUSES: BookingRequestStatus[] = ["REQUESTED", "COUNTERED", "APPROVED"];
+
+const requestInclude = {
+    user: { select: { id: true, name: true, email: true } },
+    event: true,
+} satisfies Prisma.VenueBookingInclude;
+
+export type VenueBookingRequest = Prisma.VenueBookingGetPayload<{ include: typeof requestInclude }>;
+
+type OpenRequest = VenueBooking & { request: BookingRequest };
+
+/**
+ * Deadline for answering a booking request, or for paying one that was answered:
+ * VENUE_REQUEST_TTL_HOURS from now, but never after the booking starts.
+ * @param startDate - Start of the booking
+ * @returns Deadline
+ */
+export const getRequestDeadline = (startDate: Date): Date => {
+    const ttlHours = Number(process.env.VENUE_REQUEST_TTL_HOURS) || DEFAULT_REQUEST_TTL_HOURS;
+    return new Date(Math.min(Date.now() + ttlHours * 60 * 60 * 1000, startDate.getTime()));
+};
+
+/**
+ * Find a pending booking request that is in one of the given states and not past its deadline.
+ * @param bookingId - Venue booking ID
+ * @param statuses - States the request may be in
+ * @returns The booking with its request, or error
+ */
+const findOpenRequest = async (
+    bookingId: string,
+    statuses: BookingRequestStatus[]
+): Promise<OpenRequest | { error: string }> => {
+    const booking = await prisma.venueBooking.findUnique({ where: { id: bookingId } });
+    if (!booking || !booking.request) {
+        return { error: "Booking request not found" };
+    }
+
+    const { request } = booking;
+    if (booking.status !== "PENDING" || !statuses.includes(request.status)) {
+        return { error: "This booking request can't be changed anymore" };
+    }
+    if (request.respondBy <= new Date()) {
+        return { error: "This booking request has expired" };
+    }
+
+    return { ...booking, request };
+};
+
+/**
+ * Move a request to a new state, unless it changed since it was read. A checkout
+ * changes the payment of the booking, so two checkouts can't both go through.
+ * @returns Whether the request was updated
+ */
+const updateRequest = async (
+    booking: OpenRequest,
+    request: Partial<BookingRequest>,
+    data: Prisma.VenueBookingUncheckedUpdateManyInput = {}
+): Promise<boolean> => {
+    const { count } = await prisma.venueBooking.updateMany({
+        where: {
+            id: booking.id,
+            status: "PENDING",
+            paymentId: booking.paymentId,
+            request: { is: { status: booking.request.status } },
+        },
+        data: { ...data, request: { set: { ...booking.request, ...request } } },
+    });
+    return count > 0;
+};
+
+/**
+ * Keep the dates of a request held until its new deadline.
+ */
+const extendHolds = async (bookingId: string, expiresAt: Date): Promise<void> => {
+    const holds = await prisma.venueHold.findMany({ where: { venueBookingId: bookingId, status: "ACTIVE" } });
+    for (const hold of holds) {
+        if (!(await VenueHoldService.extendHold(hold.id, expiresAt))) {
+            logger.error(`Hold ${hold.id} of venue booking ${bookingId} expired before its request was answered`);
+        }
+    }
+};
+
+/**
+ * Free the dates of a request that won't become a booking, unpublish its event
+ * and fail its unpaid payment.
+ */
+const closeRequest = async (booking: Pick<VenueBooking, "id" | "paymentId" | "eventId">, reason: string): Promise<void> => {
+    const holds = await prisma.venueHold.findMany({ where: { venueBookingId: booking.id } });
+    for (const hold of holds) {
+        await VenueHoldService.releaseHold(hold.id);
+    }
+    await EventService.unpublishEvent(booking.eventId);
+
+    if (booking.paymentId) {
+        await prisma.payment.updateMany({
+            where: { id: booking.paymentId, status: { in: ["PENDING", "FAILED"] } },
+            data: { status: "FAILED", failureReason: reason },
+        });
+    }
+};
+
+export const VenueRequestService = {
+    /**
+     * List the booking requests of a venue that are waiting for the owner or the guest.
+     * @param venueId - Venue ID
+     * @returns Requests, oldest first
+     */
+    listRequests: async (venueId: string): Promise<VenueBookingRequest[]> => {
+        return await prisma.venueBooking.findMany({
+            where: { venueId, status: "PENDING", request: { is: { status: { in: OPEN_STATUSES } } } },
+            include: requestInclude,
+            orderBy: { createdAt: "asc" },
+        });
+    },
+
+    /**
+     * Approve a booking request. The guest then has until the new deadline to pay it.
+     * @param bookingId - Venue booking ID
+     * @param ownerId - User answering the request
+     * @param message - Message to the guest (optional)
+     * @returns The approved booking or error
+     */
+    approve: async (bookingId: string, ownerId: string, message?: string): Promise<VenueBooking | { error: string }> => {
+        const booking = await findOpenRequest(bookingId, ["REQUESTED"]);
+        if ("error" in booking) {
+            return booking;
+        }
+
+        const respondBy = getRequestDeadline(booking.startDate);
+        const updated = await updateRequest(booking, {
+            status: "APPROVED",
+            ownerMessage: message || null,
+            respondBy,
+            respondedAt: new Date(),
+            respondedById: ownerId,
+        });
+        if (!updated) {
+            return { error: "This booking request can't be changed anymore" };
+        }
+
+        await extendHolds(bookingId, respondBy);
+        await NotificationService.bookingRequestUpdated(bookingId);
+
+        logger.info(`Venue booking request ${bookingId} approved`);
+        return (await prisma.venueBooking.findUnique({ where: { id: bookingId } }))!;
+    },
+
+    /**
+     * Decline a booking request, or withdraw a counter-offer the guest hasn't accepted.
+     * The dates are freed right away.
+     * @param bookingId - Venue booking ID
+     * @param ownerId - User answering the request
+     * @param message - Message to the guest (optional)
+     * @returns The canceled booking or error
+     */
+    reject: async (bookingId: string, ownerId: string, message?: string): Promise<VenueBooking | { error: string }> => {
+        const booking = await findOpenRequest(bookingId, ["REQUESTED", "COUNTERED"]);
+        if ("error" in booking) {
+            return booking;
+        }
+
+        const updated = await updateRequest(
+            booking,
+            { status: "REJECTED", ownerMessage: message || null, respondedAt: new Date(), respondedById: ownerId },
+            { status: "CANCELED" }
+        );
+        if (!updated) {
+            return { error: "This booking request can't be changed anymore" };
+        }
+
+        await closeRequest(booking, "Booking request declined");
+        await NotificationService.bookingRequestUpdated(bookingId);
+
+        logger.info(`Venue booking request ${bookingId} rejected`);
+        return (await prisma.venueBooking.findUnique({ where: { id: bookingId } }))!;
+    },
+
+    /**
+     * Offer the guest a different total for their request. The guest accepts it by paying it.
+     * @param bookingId - Venue booking ID
+     * @param ownerId - User answering the request
+     * @param amount - Total proposed to the guest
+     * @param message - Message to the guest (optional)
+     * @returns The booking with the offer or error
+     */
+    counterOffer: async (
+        bookingId: string,
+        ownerId: string,
+        amount: number,
+        message?: string
+    ): Promise<VenueBooking | { error: string }> => {
+        if (!Number.isFinite(amount) || amount <= 0) {
+            return { error: "Offer must be a positive amount" };
+        }
+
+        const booking = await findOpenRequest(bookingId, ["REQUESTED"]);
+        if ("error" in booking) {
+            return booking;
+        }
+
+        const respondBy = getRequestDeadline(booking.startDate);
+        const updated = await updateRequest(booking, {
+            status: "COUNTERED",
+            ownerMessage: message || null,
+            counterOffer: Math.round(amount * 100) / 100,
+            respondBy,
+            respondedAt: new Date(),
+            respondedById: ownerId,
+        });
+        if (!updated) {
+            return { error: "This booking request can't be changed anymore" };
+        }
+
+        await extendHolds(bookingId, respondBy);
+        await NotificationService.bookingRequestUpdated(bookingId);
+
+        logger.info(`Counter-offer of ${amount} made on venue booking request ${bookingId}`);
+        return (await prisma.venueBooking.findUnique({ where: { id: bookingId } }))!;
+    },
+
+    /**
+     * Start the payment of an approved request, or accept a counter-offer by paying it.
+     * A new checkout replaces the order of an earlier unfinished one; a late payment
+     * of the replaced order is refunded when it is captured.
+     * @param bookingId - Venue booking ID
+     * @param userId - Guest who made the request
+     * @returns The booking and the order to pay, or error
+     */
+    checkout: async (
+        bookingId: string,
+        userId: string
+    ): Promise<{ booking: VenueBooking; order: ProviderOrder } | { error: string }> => {
+        const booking = await findOpenRequest(bookingId, ["APPROVED", "COUNTERED"]);
+        if ("error" in booking) {
+            return booking;
+        }
+        if (booking.userId !== userId) {
+            return { error: "Booking request not found" };
+        }
+
+        const { request } = booking;
+        const accepted = request.status === "COUNTERED" && request.counterOffer !== null;
+        const totalCost = accepted ? request.counterOffer! : booking.totalCost;
+        // Keeps the invoice adding up to what was paid
+        const priceLines = accepted
+            ? [...booking.priceLines, {
+                label: "Adjustment agreed with the venue",
+                amount: Math.round((totalCost - booking.totalCost) * 100) / 100,
+            }]
+            : booking.priceLines;
+
+        const order = await paymentProvider.createOrder({
+            amount: totalCost,
+            currency: "INR",
+            receipt: `venue_${Date.now()}`,
+            notes: { venueId: booking.venueId },
+        });
+        logger.info(`${order.provider} order ${order.orderId} created for venue booking request ${bookingId}`);
+
+        const payment = await prisma.payment.create({
+            data: {
+                userId,
+                amount: totalCost,
+                status: "PENDING",
+                paymentMethod: order.provider,
+                providerOrderId: order.orderId,
+            },
+        });
+
+        const updated = await updateRequest(booking, { status: "APPROVED" }, { totalCost, priceLines, paymentId: payment.id });
+        if (!updated) {
+            await prisma.payment.update({
+                where: { id: payment.id },
+                data: { status: "FAILED", failureReason: "Booking request changed during checkout" },
+            });
+            return { error: "This booking request can't be changed anymore" };
+        }
+
+        if (booking.paymentId) {
+            await prisma.payment.updateMany({
+                where: { id: booking.paymentId, status: { in: ["PENDING", "FAILED"] } },
+                data: { status: "FAILED", failureReason: "Replaced by a new checkout" },
+            });
+        }
+
+        const checkedOut = await prisma.venueBooking.findUnique({ where: { id: bookingId } });
+        return { booking: checkedOut!, order };
+    },
+
+    /**
+     * Cancel the requests whose owner didn't answer, or whose guest didn't pay, in time.
+     * @returns Number of expired requests
+     */
+    expireRequests: async (): Promise<number> => {
+        const requests = await prisma.venueBooking.findMany({
+            where: {
+                status: "PENDING",
+                request: { is: { status: { in: OPEN_STATUSES }, respondBy: { lt: new Date() } } },
+            },
+        });
+
+        let expired = 0;
+        for (const booking of requests) {
+            const { request } = booking;
+            if (!request) {
+                continue;
+            }
+
+            const updated = await updateRequest({ ...booking, request }, { status: "EXPIRED" }, { status: "CANCELED" });
+            if (!updated) {
+                continue;
+            }
+
+            await closeRequest(booking, "Booking request expired");
+            await NotificationService.bookingRequestUpdated(booking.id);
+            expired++;
+        }
+
+        if (expired > 0) {
+            logger.info(`Expired ${expired} venue booking requests`);
+        }
+        return expired;
+    },
+};
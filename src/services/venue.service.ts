@@ -1,16 +1,20 @@
-import { PaymentStatus, Prisma, Venue, VenueBooking } from "@prisma/client";
+import { BookedAddOn, CancellationPolicy, Prisma, Venue, VenueBooking, VenuePricing } from "@prisma/client";
 import axios from "axios";
 import cloudinary from "../config/cloudinary.config";
+import logger from "../config/logger.config";
+import paymentProvider from "../config/payment.config";
 import prisma from "../config/prisma.config";
-import { isValidDate } from "../utils/date.util";
+import { PaymentConfirmation, ProviderOrder } from "../providers/payment.provider";
+import { parseCancellationPolicy } from "../utils/cancellation.util";
+import { countBookingDays, isValidDate, MAX_BOOKING_DAYS } from "../utils/date.util";
+import { calculateVenuePrice, parseVenuePricing, PriceLine, VenueQuote } from "../utils/pricing.util";
 import { calculateDistance } from "../utils/other.util";
-import { mapServiceToValue } from "../utils/service-tier.util";
-
-const simulatePayment = async (amount: number): Promise<boolean> => {
-    console.log(`Processing payment of $${amount}...`);
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    return true;
-};
+import { AddOnService } from "./add-on.service";
+import { AvailabilityService } from "./availability.service";
+import { NotificationService } from "./notification.service";
+import { PaymentService } from "./payment.service";
+import { VenueHoldService } from "./venue-hold.service";
+import { getRequestDeadline } from "./venue-request.service";
 
 /**
  * Geocode a location string into latitude and longitude using OpenCage.
@@ -51,6 +55,9 @@ export const VenueService = {
      * @param rules - List of rules (optional)
      * @param termsAndConditions - Terms and conditions (optional)
      * @param contactInfo - Contact information (optional)
+     * @param cancellationPolicy - Refund rules for canceled bookings (optional)
+     * @param ownerId - User who owns and manages the venue (optional)
+     * @param pricing - Surcharges, seasonal rates, discounts and minimum stay (optional)
      * @returns Object with the created venue or error
      */
     createVenue: async (
@@ -64,9 +71,30 @@ export const VenueService = {
         rules?: string[],
         termsAndConditions?: string,
         contactInfo?: { phone?: string; email?: string; contactPerson?: string },
+        cancellationPolicy?: unknown,
+        ownerId?: string,
+        pricing?: unknown,
     ): Promise<Venue | { error: string }> => {
         try {
             let uploadedImageUrl = "";
+            let parsedCancellationPolicy: CancellationPolicy | null = null;
+            let parsedPricing: VenuePricing | null = null;
+
+            if (cancellationPolicy) {
+                const policy = parseCancellationPolicy(cancellationPolicy);
+                if ("error" in policy) {
+                    return policy;
+                }
+                parsedCancellationPolicy = policy;
+            }
+
+            if (pricing) {
+                const rules = parseVenuePricing(pricing);
+                if ("error" in rules) {
+                    return rules;
+                }
+                parsedPricing = rules;
+            }
 
             if (imageUrl) {
                 const uploadResponse = await cloudinary.uploader.upload(imageUrl, {
@@ -96,8 +124,10 @@ export const VenueService = {
                     rules: rules || [],
                     termsAndConditions: termsAndConditions || null,
                     contactInfo: contactInfo || null,
-                    availability: [],
+                    cancellationPolicy: parsedCancellationPolicy,
+                    pricing: parsedPricing,
                     gallery: [],
+                    ownerId,
                 },
             });
 
@@ -135,6 +165,55 @@ export const VenueService = {
         }
     },
 
+    /**
+     * Price a booking of a venue with the venue's pricing rules and the add-ons chosen
+     * from its catalog. This is exactly what createBooking charges.
+     * @param venue - Venue to book
+     * @param startDate - First day of the booking
+     * @param endDate - Last day of the booking
+     * @param guests - Number of guests
+     * @param addOnSelections - Chosen add-ons, e.g. [{ addOnId: "...", tier: "Premium" }]
+     * @returns Itemized quote and the add-ons as they are booked, or error
+     */
+    getQuote: async (
+        venue: Venue,
+        startDate: Date,
+        endDate: Date,
+        guests: number,
+        addOnSelections: unknown
+    ): Promise<{ quote: VenueQuote; addOns: BookedAddOn[] } | { error: string }> => {
+        if (!isValidDate(startDate) || !isValidDate(endDate)) {
+            return { error: "Invalid booking dates" };
+        }
+        if (endDate < startDate) {
+            return { error: "Start date must be before end date" };
+        }
+        if (countBookingDays(startDate, endDate) > MAX_BOOKING_DAYS) {
+            return { error: `Bookings can cover at most ${MAX_BOOKING_DAYS} days` };
+        }
+        if (startDate < new Date()) {
+            return { error: "Bookings must start in the future" };
+        }
+        if (!Number.isInteger(guests) || guests < 1) {
+            return { error: "Number of guests must be a positive integer" };
+        }
+        if (guests > venue.capacity) {
+            return { error: `This venue holds at most ${venue.capacity} guests` };
+        }
+
+        const addOns = await AddOnService.priceAddOns(venue.id, addOnSelections, guests);
+        if ("error" in addOns) {
+            return addOns;
+        }
+
+        const quote = calculateVenuePrice(venue, startDate, endDate, guests, addOns.lines);
+        if ("error" in quote) {
+            return quote;
+        }
+
+        return { quote, addOns: addOns.addOns };
+    },
+
     /**
      * Update venue details.
      * @param id - Venue ID
@@ -143,6 +222,41 @@ export const VenueService = {
      */
     updateVenue: async (id: string, data: Partial<Venue>): Promise<Venue | { error: string }> => {
         try {
+            let parsedCancellationPolicy: CancellationPolicy | undefined;
+            if (data.cancellationPolicy) {
+                const policy = parseCancellationPolicy(data.cancellationPolicy);
+                if ("error" in policy) {
+                    return policy;
+                }
+                parsedCancellationPolicy = policy;
+            }
+
+            let parsedPricing: VenuePricing | undefined;
+            if (data.pricing) {
+                const rules = parseVenuePricing(data.pricing);
+                if ("error" in rules) {
+                    return rules;
+                }
+                parsedPricing = rules;
+            }
+
+            const { closedWeekdays, bookingBufferHours, requiresApproval } = data;
+            if (
+                closedWeekdays !== undefined &&
+                (!Array.isArray(closedWeekdays) || !closedWeekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+            ) {
+                return { error: "Closed weekdays must be numbers from 0 (Sunday) to 6 (Saturday)" };
+            }
+            if (
+                bookingBufferHours !== undefined &&
+                !(Number.isInteger(bookingBufferHours) && bookingBufferHours >= 0 && bookingBufferHours <= 168)
+            ) {
+                return { error: "Booking buffer must be a whole number of hours between 0 and 168" };
+            }
+            if (requiresApproval !== undefined && typeof requiresApproval !== "boolean") {
+                return { error: "Requires approval must be true or false" };
+            }
+
             return await prisma.venue.update({
                 where: { id },
                 data: {
@@ -152,6 +266,11 @@ export const VenueService = {
                     description: data.description,
                     image: data.image,
                     pricePerDay: data.pricePerDay,
+                    cancellationPolicy: parsedCancellationPolicy,
+                    pricing: parsedPricing,
+                    closedWeekdays: closedWeekdays ? [...new Set(closedWeekdays)].sort((a, b) => a - b) : undefined,
+                    bookingBufferHours,
+                    requiresApproval,
                 },
             });
         } catch (error) {
@@ -176,7 +295,8 @@ export const VenueService = {
     },
 
     /**
- * Check if a venue is available for a given date range.
+ * Check if a venue is available for a given date range: not closed, and not booked
+ * including the buffer time the venue keeps between bookings.
  * @param venueId - Venue ID
  * @param startDate - Start date of the booking
  * @param endDate - End date of the booking
@@ -192,22 +312,12 @@ export const VenueService = {
                 throw new Error("Invalid date format");
             }
 
-            const overlappingBookings = await prisma.venueBooking.findMany({
-                where: {
-                    venueId,
-                    OR: [
-                        {
-                            startDate: { lte: endDate }, // Changed from lt to lte
-                            endDate: { gte: startDate }, // Changed from gt to gte
-                        },
-                    ],
-                },
-            });
-
-            console.log(`Checking availability for venue ${venueId} from ${startDate} to ${endDate}`);
-            console.log(`Found ${overlappingBookings.length} overlapping bookings:`, overlappingBookings);
+            const venue = await prisma.venue.findUnique({ where: { id: venueId } });
+            if (!venue) {
+                return false;
+            }
 
-            return overlappingBookings.length === 0;
+            return (await AvailabilityService.getConflict(venue, startDate, endDate)) === null;
         } catch (error) {
             throw new Error("Error checking venue availability: " + error);
         }
@@ -329,8 +439,10 @@ export const VenueService = {
 
     /**
  * Create a new booking for a venue.
+ * The booking and its payment stay PENDING until the payment is confirmed. On venues that
+ * require approval the booking is a request instead: it has no order until the owner approves it.
  * @param params - Booking parameters including event details
- * @returns Object with the created booking or error
+ * @returns Object with the created booking and the order to pay, or error
  */
     createBooking: async (params: {
         venueId: string;
@@ -338,8 +450,10 @@ export const VenueService = {
         startDate: Date;
         endDate: Date;
         guests: number;
-        services: { catering: number; decoration: number; photography: number; music: number };
+        addOns: BookedAddOn[];
         totalCost: number;
+        priceLines: PriceLine[];
+        requestMessage?: string;
         eventDetails: {
             name: string;
             description?: string;
@@ -347,7 +461,7 @@ export const VenueService = {
             isPublic: boolean;
             imageUrl?: string;
         };
-    }): Promise<VenueBooking | { error: string }> => {
+    }): Promise<{ booking: VenueBooking; order: ProviderOrder | null; holdExpiresAt: Date } | { error: string }> => {
         try {
             const {
                 venueId,
@@ -355,8 +469,10 @@ export const VenueService = {
                 startDate,
                 endDate,
                 guests,
-                services,
+                addOns,
                 totalCost,
+                priceLines,
+                requestMessage,
                 eventDetails
             } = params;
 
@@ -375,78 +491,151 @@ export const VenueService = {
                 return { error: "Invalid totalCost provided. It must be a valid number." };
             }
 
-            if (!services || typeof services !== "object" || !("catering" in services) || !("decoration" in services) || !("photography" in services) || !("music" in services)) {
-                return { error: "Services must include catering, decoration, photography, and music" };
-            }
-
-            // Check venue availability
-            const isAvailable = await VenueService.checkAvailability(venueId, startDate, endDate);
-            if (!isAvailable) {
-                return { error: "Venue is not available for the selected time slot" };
-            }
-
             // Get venue details
             const venue = await prisma.venue.findUnique({ where: { id: venueId } });
             if (!venue) {
                 return { error: "Venue not found" };
             }
 
-            // Simulate payment
-            const paymentSuccessful = await simulatePayment(parsedTotalCost);
-            if (!paymentSuccessful) {
-                return { error: "Payment failed. Booking not created." };
+            // Check venue availability
+            const conflict = await AvailabilityService.getConflict(venue, startDate, endDate);
+            if (conflict) {
+                return { error: conflict };
             }
 
-            // Create the event
-            const event = await prisma.event.create({
-                data: {
-                    title: eventDetails.name,
-                    description: eventDetails.description || `Event hosted at ${venue.name}`,
-                    category: eventDetails.category,
-                    date: startDate,
-                    isPublic: eventDetails.isPublic,
-                    organizerId: userId,
-                    venueId: venueId,
-                    image: uploadedImageUrl || null
-                }
-            });
+            // Requests keep their dates until the owner has to answer
+            const respondBy = venue.requiresApproval ? getRequestDeadline(startDate) : undefined;
 
-            // Create the booking
-            const booking = await prisma.venueBooking.create({
-                data: {
-                    userId,
-                    venueId,
-                    eventId: event.id,
-                    startDate,
-                    endDate,
-                    services,
-                    guests,
-                    totalCost: parsedTotalCost,
-                    status: "CONFIRMED"
-                },
-                include: {
-                    event: true,
-                    venue: true
-                }
-            });
+            // Reserve the dates before talking to the payment provider. The availability check
+            // above gives a helpful error, the hold is what stops two requests taking the same dates
+            const hold = await VenueHoldService.createHold(venueId, userId, startDate, endDate, respondBy);
+            if ("error" in hold) {
+                return hold;
+            }
 
-            // Create payment record
-            await prisma.payment.create({
-                data: {
-                    userId,
-                    amount: parsedTotalCost,
-                    status: PaymentStatus.COMPLETED,
-                    paymentMethod: "CREDIT_CARD",
-                    bookingId: booking.id
+            let order: ProviderOrder | null = null;
+            if (!respondBy) {
+                try {
+                    order = await paymentProvider.createOrder({
+                        amount: parsedTotalCost,
+                        currency: "INR",
+                        receipt: `venue_${Date.now()}`,
+                        notes: { venueId },
+                    });
+                    logger.info(`${order.provider} order ${order.orderId} created for venue ${venueId}`);
+                } catch (error) {
+                    await VenueHoldService.releaseHold(hold.id);
+                    throw error;
                 }
+            }
+
+            const booking = await prisma.$transaction(async (tx) => {
+                const payment = order ? await tx.payment.create({
+                    data: {
+                        userId,
+                        amount: parsedTotalCost,
+                        status: "PENDING",
+                        paymentMethod: order.provider,
+                        providerOrderId: order.orderId,
+                    }
+                }) : null;
+
+                const event = await tx.event.create({
+                    data: {
+                        title: eventDetails.name,
+                        description: eventDetails.description || `Event hosted at ${venue.name}`,
+                        category: eventDetails.category,
+                        date: startDate,
+                        isPublic: eventDetails.isPublic,
+                        organizerId: userId,
+                        venueId: venueId,
+                        image: uploadedImageUrl || null
+                    }
+                });
+
+                const venueBooking = await tx.venueBooking.create({
+                    data: {
+                        userId,
+                        venueId,
+                        eventId: event.id,
+                        startDate,
+                        endDate,
+                        addOns,
+                        guests,
+                        totalCost: parsedTotalCost,
+                        priceLines,
+                        status: "PENDING",
+                        paymentId: payment?.id ?? null,
+                        request: respondBy ? { status: "REQUESTED", message: requestMessage || null, respondBy } : undefined
+                    },
+                    include: {
+                        event: true,
+                        venue: true
+                    }
+                });
+
+                // Attach the hold to the booking so it can be confirmed on payment
+                await tx.venueHold.update({
+                    where: { id: hold.id },
+                    data: { venueBookingId: venueBooking.id },
+                });
+
+                return venueBooking;
+            }).catch(async (error) => {
+                await VenueHoldService.releaseHold(hold.id);
+                throw error;
             });
 
-            return booking;
+            if (respondBy) {
+                await NotificationService.bookingRequested(booking.id);
+            }
+
+            return { booking, order, holdExpiresAt: hold.expiresAt };
         } catch (error) {
             console.error("Error creating booking:", error);
             return { error: `Error creating booking.` };
         }
-    }
+    },
+
+    /**
+     * Confirm the payment of a pending venue booking.
+     * @param bookingId - Venue booking ID
+     * @param userId - User confirming the payment
+     * @param confirmation - Order id, payment id and signature sent by the client
+     * @returns The confirmed booking or error
+     */
+    confirmBookingPayment: async (
+        bookingId: string,
+        userId: string,
+        confirmation: PaymentConfirmation
+    ): Promise<VenueBooking | { error: string }> => {
+        try {
+            const booking = await prisma.venueBooking.findUnique({
+                where: { id: bookingId },
+                include: { payment: true },
+            });
+
+            if (!booking || booking.userId !== userId) {
+                return { error: "Booking not found" };
+            }
 
+            if (booking.payment?.providerOrderId !== confirmation.orderId) {
+                return { error: "Order does not belong to this booking" };
+            }
+
+            const result = await PaymentService.confirmPayment(userId, confirmation);
+            if (result.error) {
+                return { error: result.error };
+            }
 
-};
\ No newline at end of file
+            const confirmedBooking = await prisma.venueBooking.findUnique({
+                where: { id: bookingId },
+                include: { event: true, venue: true },
+            });
+            return confirmedBooking!;
+        } catch (error) {
+            console.error("Error confirming booking payment:", error);
+            return { error: "Error confirming booking payment" };
+        }
+    },
+};
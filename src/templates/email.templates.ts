@@ -0,0 +1,257 @@
+export type RenderedEmail = {
+    subject: string;
+    text: string;
+    html: string;
+};
+
+export type EmailTemplateData = {
+    welcome: {
+        name: string;
+    };
+    emailVerification: {
+        name: string;
+        verifyLink: string;
+        expiresInHours: number;
+    };
+    passwordReset: {
+        name: string;
+        resetLink: string;
+        expiresInMinutes: number;
+    };
+    accountLocked: {
+        name: string;
+        unlockLink: string;
+        lockedMinutes: number;
+        ipAddress: string;
+    };
+    bookingConfirmation: {
+        name: string;
+        bookingId: string;
+        title: string;
+        date: string;
+        details: string[];
+        total: string;
+    };
+    paymentFailed: {
+        name: string;
+        title: string;
+        amount: string;
+        reason: string;
+    };
+    bookingCanceled: {
+        name: string;
+        bookingId: string;
+        title: string;
+        refundAmount: string;
+        refundPercent: number;
+    };
+    bookingRequest: {
+        name: string;
+        bookingId: string;
+        title: string;
+        guestName: string;
+        details: string[];
+        total: string;
+        message: string | null;
+        respondBy: string;
+    };
+    bookingRequestUpdate: {
+        name: string;
+        bookingId: string;
+        title: string;
+        status: "APPROVED" | "COUNTERED" | "REJECTED" | "EXPIRED";
+        ownerMessage: string | null;
+        amount: string;
+        respondBy: string;
+    };
+    eventReminder: {
+        name: string;
+        eventTitle: string;
+        date: string;
+        venue: string;
+        ticketCount: number;
+    };
+    eventUpdated: {
+        name: string;
+        eventTitle: string;
+        date: string;
+        venue: string;
+        changes: string[];
+    };
+};
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+/**
+ * Wrap the body of an email in the shared HTML layout.
+ * @param title - Heading of the email
+ * @param body - HTML body, already escaped
+ * @returns Complete HTML document
+ */
+const layout = (title: string, body: string): string => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+<h2 style="margin-top:0;">${escapeHtml(title)}</h2>
+${body}
+<p style="margin-top:32px;font-size:12px;color:#71717a;">Eventia</p>
+</div>
+</body>
+</html>`;
+
+const list = (items: string[]): string =>
+    `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+
+const requestOutcomes: Record<EmailTemplateData["bookingRequestUpdate"]["status"], { subject: string; text: string }> = {
+    APPROVED: {
+        subject: "Booking request approved",
+        text: "The venue approved your booking request. Pay {amount} by {respondBy} to confirm it.",
+    },
+    COUNTERED: {
+        subject: "New offer for your booking request",
+        text: "The venue offered to host your booking for {amount}. Pay by {respondBy} to accept the offer, or cancel the request to decline it.",
+    },
+    REJECTED: {
+        subject: "Booking request declined",
+        text: "The venue declined your booking request. The dates are free again for other bookings.",
+    },
+    EXPIRED: {
+        subject: "Booking request expired",
+        text: "Your booking request expired before it was confirmed, so the dates were released.",
+    },
+};
+
+const templates: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+    welcome: ({ name }) => ({
+        subject: "Welcome to Eventia",
+        text: `Hi ${name},\n\nYour Eventia account is ready. Discover events near you and book tickets or venues in a few clicks.\n`,
+        html: layout(
+            "Welcome to Eventia",
+            `<p>Hi ${escapeHtml(name)},</p><p>Your Eventia account is ready. Discover events near you and book tickets or venues in a few clicks.</p>`
+        ),
+    }),
+
+    emailVerification: ({ name, verifyLink, expiresInHours }) => ({
+        subject: "Verify your email address",
+        text: `Hi ${name},\n\nConfirm your email address to start booking on Eventia: ${verifyLink}\n\nThe link expires in ${expiresInHours} hours. If you didn't create an account, you can ignore this email.\n`,
+        html: layout(
+            "Verify your email address",
+            `<p>Hi ${escapeHtml(name)},</p><p>Confirm your email address to start booking on Eventia: <a href="${escapeHtml(verifyLink)}">Verify Email</a></p>` +
+            `<p>The link expires in ${expiresInHours} hours. If you didn't create an account, you can ignore this email.</p>`
+        ),
+    }),
+
+    passwordReset: ({ name, resetLink, expiresInMinutes }) => ({
+        subject: "Password Reset Request",
+        text: `Hi ${name},\n\nClick the link to reset your password: ${resetLink}\n\nThe link expires in ${expiresInMinutes} minutes. If you didn't request a reset, you can ignore this email.\n`,
+        html: layout(
+            "Password Reset Request",
+            `<p>Hi ${escapeHtml(name)},</p><p>Click the link to reset your password: <a href="${escapeHtml(resetLink)}">Reset Password</a></p>` +
+            `<p>The link expires in ${expiresInMinutes} minutes. If you didn't request a reset, you can ignore this email.</p>`
+        ),
+    }),
+
+    accountLocked: ({ name, unlockLink, lockedMinutes, ipAddress }) => ({
+        subject: "Your account was temporarily locked",
+        text: `Hi ${name},\n\nWe locked your Eventia account for ${lockedMinutes} minutes after several failed login attempts (last from ${ipAddress}).\n\nIf this was you, unlock your account now: ${unlockLink}\n\nIf it wasn't, we recommend resetting your password.\n`,
+        html: layout(
+            "Your account was temporarily locked",
+            `<p>Hi ${escapeHtml(name)},</p><p>We locked your Eventia account for ${lockedMinutes} minutes after several failed login attempts (last from ${escapeHtml(ipAddress)}).</p>` +
+            `<p>If this was you, unlock your account now: <a href="${escapeHtml(unlockLink)}">Unlock Account</a></p><p>If it wasn't, we recommend resetting your password.</p>`
+        ),
+    }),
+
+    bookingConfirmation: ({ name, bookingId, title, date, details, total }) => ({
+        subject: `Booking confirmed: ${title}`,
+        text: `Hi ${name},\n\nYour booking for ${title} on ${date} is confirmed.\n\n${details.map((line) => `- ${line}`).join("\n")}\n\nTotal paid: ${total}\nBooking ID: ${bookingId}\n`,
+        html: layout(
+            "Booking confirmed",
+            `<p>Hi ${escapeHtml(name)},</p><p>Your booking for <strong>${escapeHtml(title)}</strong> on ${escapeHtml(date)} is confirmed.</p>` +
+            `${list(details)}<p><strong>Total paid:</strong> ${escapeHtml(total)}<br>Booking ID: ${escapeHtml(bookingId)}</p>`
+        ),
+    }),
+
+    paymentFailed: ({ name, title, amount, reason }) => ({
+        subject: `Payment failed: ${title}`,
+        text: `Hi ${name},\n\nYour payment of ${amount} for ${title} didn't go through (${reason}).\nYour booking is still reserved for a short while, so you can try again.\n`,
+        html: layout(
+            "Payment failed",
+            `<p>Hi ${escapeHtml(name)},</p><p>Your payment of ${escapeHtml(amount)} for <strong>${escapeHtml(title)}</strong> didn't go through (${escapeHtml(reason)}).</p>` +
+            `<p>Your booking is still reserved for a short while, so you can try again.</p>`
+        ),
+    }),
+
+    bookingCanceled: ({ name, bookingId, title, refundAmount, refundPercent }) => ({
+        subject: `Booking canceled: ${title}`,
+        text: `Hi ${name},\n\nYour booking ${bookingId} for ${title} has been canceled.\n${refundPercent > 0 ? `A refund of ${refundAmount} (${refundPercent}%) is on its way.` : "This booking isn't eligible for a refund."}\n`,
+        html: layout(
+            "Booking canceled",
+            `<p>Hi ${escapeHtml(name)},</p><p>Your booking ${escapeHtml(bookingId)} for <strong>${escapeHtml(title)}</strong> has been canceled.</p>` +
+            `<p>${refundPercent > 0 ? `A refund of ${escapeHtml(refundAmount)} (${refundPercent}%) is on its way.` : "This booking isn't eligible for a refund."}</p>`
+        ),
+    }),
+
+    bookingRequest: ({ name, bookingId, title, guestName, details, total, message, respondBy }) => ({
+        subject: `New booking request: ${title}`,
+        text: `Hi ${name},\n\n${guestName} would like to book ${title}.\n\n${details.map((line) => `- ${line}`).join("\n")}\n\nTotal: ${total}\n` +
+            `${message ? `Message: ${message}\n` : ""}Booking ID: ${bookingId}\n\nApprove, decline or make an offer by ${respondBy}, or the request expires.\n`,
+        html: layout(
+            "New booking request",
+            `<p>Hi ${escapeHtml(name)},</p><p>${escapeHtml(guestName)} would like to book <strong>${escapeHtml(title)}</strong>.</p>` +
+            `${list(details)}<p><strong>Total:</strong> ${escapeHtml(total)}<br>Booking ID: ${escapeHtml(bookingId)}</p>` +
+            `${message ? `<p><em>${escapeHtml(message)}</em></p>` : ""}<p>Approve, decline or make an offer by ${escapeHtml(respondBy)}, or the request expires.</p>`
+        ),
+    }),
+
+    bookingRequestUpdate: ({ name, bookingId, title, status, ownerMessage, amount, respondBy }) => {
+        const outcome = requestOutcomes[status];
+        const text = outcome.text.replace("{amount}", amount).replace("{respondBy}", respondBy);
+        return {
+            subject: `${outcome.subject}: ${title}`,
+            text: `Hi ${name},\n\n${text}\n${ownerMessage ? `\nMessage from the venue: ${ownerMessage}\n` : ""}\nBooking ID: ${bookingId}\n`,
+            html: layout(
+                outcome.subject,
+                `<p>Hi ${escapeHtml(name)},</p><p><strong>${escapeHtml(title)}</strong>: ${escapeHtml(text)}</p>` +
+                `${ownerMessage ? `<p>Message from the venue: <em>${escapeHtml(ownerMessage)}</em></p>` : ""}<p>Booking ID: ${escapeHtml(bookingId)}</p>`
+            ),
+        };
+    },
+
+    eventReminder: ({ name, eventTitle, date, venue, ticketCount }) => ({
+        subject: `Reminder: ${eventTitle} is coming up`,
+        text: `Hi ${name},\n\n${eventTitle} starts on ${date} at ${venue}.\nYou have ${ticketCount} ticket${ticketCount === 1 ? "" : "s"}. Keep the QR codes handy for the entrance.\n`,
+        html: layout(
+            `${eventTitle} is coming up`,
+            `<p>Hi ${escapeHtml(name)},</p><p><strong>${escapeHtml(eventTitle)}</strong> starts on ${escapeHtml(date)} at ${escapeHtml(venue)}.</p>` +
+            `<p>You have ${ticketCount} ticket${ticketCount === 1 ? "" : "s"}. Keep the QR codes handy for the entrance.</p>`
+        ),
+    }),
+
+    eventUpdated: ({ name, eventTitle, date, venue, changes }) => ({
+        subject: `Update: ${eventTitle}`,
+        text: `Hi ${name},\n\nThe organizer updated ${eventTitle}:\n${changes.map((change) => `- ${change}`).join("\n")}\n\nThe event now takes place on ${date} at ${venue}. Your tickets remain valid.\n`,
+        html: layout(
+            `${eventTitle} was updated`,
+            `<p>Hi ${escapeHtml(name)},</p><p>The organizer updated <strong>${escapeHtml(eventTitle)}</strong>:</p>${list(changes)}` +
+            `<p>The event now takes place on ${escapeHtml(date)} at ${escapeHtml(venue)}. Your tickets remain valid.</p>`
+        ),
+    }),
+};
+
+/**
+ * Render the subject, text and HTML of a transactional email.
+ * @param template - Template name
+ * @param data - Values used by the template
+ * @returns Rendered email
+ */
+export const renderEmail = <K extends EmailTemplateName>(template: K, data: EmailTemplateData[K]): RenderedEmail => {
+    return templates[template](data);
+};
@@ -0,0 +1,83 @@
+import { CancellationPolicy } from "@prisma/client";
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+    fullRefundDays: 7,
+    partialRefundDays: 2,
+    partialRefundPercent: 50,
+};
+
+export type RefundQuote = {
+    percent: number;
+    amount: number;
+    rule: "FULL" | "PARTIAL" | "NONE";
+};
+
+/**
+ * Validate and normalize a cancellation policy coming from a request body.
+ * @param policy - Raw policy (JSON string or object)
+ * @returns Normalized policy or error
+ */
+export const parseCancellationPolicy = (policy: unknown): CancellationPolicy | { error: string } => {
+    let parsed: unknown = policy;
+
+    if (typeof policy === "string") {
+        try {
+            parsed = JSON.parse(policy);
+        } catch (parseError) {
+            return { error: "Invalid cancellation policy JSON format" };
+        }
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return { error: "Cancellation policy must be an object" };
+    }
+
+    const fields = parsed as Record<string, unknown>;
+    const fullRefundDays = Number(fields.fullRefundDays);
+    const partialRefundDays = Number(fields.partialRefundDays);
+    const partialRefundPercent = Number(fields.partialRefundPercent);
+
+    if (!Number.isInteger(fullRefundDays) || !Number.isInteger(partialRefundDays) || partialRefundDays < 0) {
+        return { error: "Refund days must be whole numbers" };
+    }
+    if (partialRefundDays > fullRefundDays) {
+        return { error: "Partial refund days can't exceed full refund days" };
+    }
+    if (!Number.isFinite(partialRefundPercent) || partialRefundPercent < 0 || partialRefundPercent > 100) {
+        return { error: "Partial refund percent must be between 0 and 100" };
+    }
+
+    return { fullRefundDays, partialRefundDays, partialRefundPercent };
+};
+
+/**
+ * Work out how much of a payment is refunded when a booking is canceled.
+ * @param policy - Cancellation policy (the default policy is used when missing)
+ * @param startDate - When the event or venue booking starts
+ * @param amount - Amount that was paid
+ * @param now - Time of the cancellation
+ * @returns Refund percent, amount and the rule that applied
+ */
+export const calculateRefund = (
+    policy: CancellationPolicy | null | undefined,
+    startDate: Date,
+    amount: number,
+    now: Date = new Date()
+): RefundQuote => {
+    const { fullRefundDays, partialRefundDays, partialRefundPercent } = policy || DEFAULT_CANCELLATION_POLICY;
+    const daysBeforeStart = (startDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
+
+    if (daysBeforeStart >= fullRefundDays) {
+        return { percent: 100, amount, rule: "FULL" };
+    }
+
+    if (daysBeforeStart >= partialRefundDays) {
+        return {
+            percent: partialRefundPercent,
+            amount: Math.round(amount * partialRefundPercent) / 100,
+            rule: "PARTIAL",
+        };
+    }
+
+    return { percent: 0, amount: 0, rule: "NONE" };
+};
@@ -0,0 +1,73 @@
+import crypto from "crypto";
+
+/**
+ * Compute a hex encoded HMAC-SHA256 signature.
+ * @param secret - Signing secret
+ * @param data - Data to sign
+ * @returns Hex encoded signature
+ */
+export const hmacSha256 = (secret: string, data: string | Buffer): string => {
+    return crypto.createHmac("sha256", secret).update(data).digest("hex");
+};
+
+/**
+ * Compare two signatures in constant time.
+ * @param expected - Signature computed by the server
+ * @param received - Signature sent by the client or provider
+ * @returns Whether the signatures match
+ */
+export const safeCompareSignature = (expected: string, received: string): boolean => {
+    const expectedBuffer = Buffer.from(expected);
+    const receivedBuffer = Buffer.from(received || "");
+    return expectedBuffer.length === receivedBuffer.length &&
+        crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+};
+
+/**
+ * Generate an opaque random token, e.g. a refresh token.
+ * @param bytes - Amount of randomness
+ * @returns Base64url encoded token
+ */
+export const generateOpaqueToken = (bytes = 48): string => {
+    return crypto.randomBytes(bytes).toString("base64url");
+};
+
+/**
+ * Hash a token before storing it so that a database leak doesn't expose usable tokens.
+ * @param token - Token to hash
+ * @returns Hex encoded SHA-256 hash
+ */
+export const hashToken = (token: string): string => {
+    return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Derive the key used to encrypt secrets at rest, e.g. TOTP secrets.
+ */
+const getEncryptionKey = (): Buffer => {
+    return crypto.createHash("sha256").update(process.env.ENCRYPTION_KEY || process.env.JWT_SECRET || "").digest();
+};
+
+/**
+ * Encrypt a secret before storing it (AES-256-GCM).
+ * @param plaintext - Secret to encrypt
+ * @returns Base64url encoded iv, auth tag and ciphertext, separated by dots
+ */
+export const encryptSecret = (plaintext: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+};
+
+/**
+ * Decrypt a secret encrypted with encryptSecret.
+ * @param encrypted - Value returned by encryptSecret
+ * @returns The secret
+ */
+export const decryptSecret = (encrypted: string): string => {
+    const [iv, authTag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+};
@@ -1,3 +1,44 @@
 export const isValidDate = (date: any): boolean => {
     return !isNaN(new Date(date).getTime());
-};
\ No newline at end of file
+};
+
+/**
+ * Count the days a venue booking is charged for. Both the start and end day are included.
+ * @param startDate - First day of the booking
+ * @param endDate - Last day of the booking
+ * @returns Number of days
+ */
+export const countBookingDays = (startDate: Date, endDate: Date): number => {
+    return Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest period a venue can be quoted or held for
+export const MAX_BOOKING_DAYS = 366;
+
+/**
+ * Get midnight UTC of the day a date falls on.
+ * @param date - Any time of the day
+ * @returns Start of the day
+ */
+export const startOfUtcDay = (date: Date): Date => {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+/**
+ * Format a date as YYYY-MM-DD in UTC, the format date pickers use.
+ */
+export const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * List the UTC days a period touches, from the day it starts to the day it ends.
+ * @returns Start of each day
+ */
+export const listUtcDays = (startDate: Date, endDate: Date): Date[] => {
+    const days: Date[] = [];
+    for (let day = startOfUtcDay(startDate); day <= endDate; day = new Date(day.getTime() + DAY_MS)) {
+        days.push(day);
+    }
+    return days;
+};
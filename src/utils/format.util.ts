@@ -0,0 +1,8 @@
+export const formatAmount = (amount: number): string =>
+    `INR ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatDate = (date: Date): string =>
+    date.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+
+export const formatDateTime = (date: Date): string =>
+    date.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short", timeZone: "Asia/Kolkata" });
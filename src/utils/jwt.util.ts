@@ -10,10 +10,45 @@ if (!secretKey) {
     logger.error("Jwt secret must be set in environment variables.");
 }
 
-export const generateToken = (payload: object) => {
-    return jwt.sign(payload, secretKey, { expiresIn: "1d" });
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+const tokenExpiration = (process.env.TOKEN_EXPIRATION || "15m") as jwt.SignOptions["expiresIn"];
+
+export type AccessTokenPayload = {
+    id: string;
+    role: string;
+    sid: string; // Session the token was issued for
+};
+
+export const generateToken = (payload: AccessTokenPayload) => {
+    return jwt.sign(payload, secretKey, { expiresIn: tokenExpiration });
 };
 
 export const verifyToken = (token: string) => {
     return jwt.verify(token, secretKey);
-};
\ No newline at end of file
+};
+// Time a user has to enter their second factor after a correct password
+const CHALLENGE_TOKEN_EXPIRATION = "5m";
+
+/**
+ * Create the token returned by the first login step of users with two-factor authentication.
+ * It only identifies the user to the second step and can't be used as an access token.
+ * @param userId - User who passed the first step
+ * @returns Signed challenge token
+ */
+export const generateChallengeToken = (userId: string) => {
+    return jwt.sign({ id: userId, purpose: "2fa" }, secretKey, { expiresIn: CHALLENGE_TOKEN_EXPIRATION });
+};
+
+/**
+ * Verify a challenge token.
+ * @param token - Challenge token from the first login step
+ * @returns ID of the user, or null if the token is invalid or expired
+ */
+export const verifyChallengeToken = (token: string): string | null => {
+    try {
+        const payload = jwt.verify(token, secretKey) as { id?: string; purpose?: string };
+        return payload.purpose === "2fa" && payload.id ? payload.id : null;
+    } catch {
+        return null;
+    }
+};
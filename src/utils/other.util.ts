@@ -1,3 +1,6 @@
+import { Request } from "express";
+import { ClientInfo } from "../services/session.service";
+
 export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
     const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
 
@@ -11,4 +14,15 @@ export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2
 
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     return R * c; // Distance in kilometers
-};
\ No newline at end of file
+};
+export const isValidObjectId = (id: string): boolean => {
+    return /^[0-9a-fA-F]{24}$/.test(id);
+};
+
+/**
+ * Get the device and IP a request comes from.
+ */
+export const getClientInfo = (req: Request): ClientInfo => ({
+    userAgent: req.get("user-agent"),
+    ipAddress: req.ip,
+});
@@ -0,0 +1,338 @@
+import { DurationDiscount, SeasonalRate, TicketFees, TicketTier, Venue, VenuePricing } from "@prisma/client";
+import { listUtcDays, startOfUtcDay, toDateKey } from "./date.util";
+import { formatAmount } from "./format.util";
+
+export type PriceLine = {
+    label: string;
+    amount: number;
+};
+
+export type PriceBreakdown = {
+    seatType: string;
+    unitPrice: number;
+    quantity: number;
+    subtotal: number;
+    fees: PriceLine[];
+    taxes: PriceLine[];
+    total: number;
+    currency: string;
+};
+
+export type VenueQuote = {
+    days: number;
+    guests: number;
+    lines: PriceLine[]; // Rental, surcharges, extra guests and discounts
+    services: PriceLine[];
+    total: number;
+    currency: string;
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Validate and normalize the fee configuration of an event.
+ * @param ticketFees - Raw fee configuration (JSON string or object)
+ * @returns Normalized fees or error
+ */
+export const parseTicketFees = (ticketFees: unknown): TicketFees | { error: string } => {
+    let parsed: unknown = ticketFees;
+
+    if (typeof ticketFees === "string") {
+        try {
+            parsed = JSON.parse(ticketFees);
+        } catch (parseError) {
+            return { error: "Invalid ticket fees JSON format" };
+        }
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return { error: "Ticket fees must be an object" };
+    }
+
+    const fields = parsed as Record<string, unknown>;
+    const fees: TicketFees = {
+        taxPercent: Number(fields.taxPercent ?? 0),
+        serviceFeePercent: Number(fields.serviceFeePercent ?? 0),
+        serviceFeePerTicket: Number(fields.serviceFeePerTicket ?? 0),
+    };
+
+    for (const [key, value] of Object.entries(fees)) {
+        if (!Number.isFinite(value) || value < 0) {
+            return { error: `Invalid ticket fee ${key}` };
+        }
+    }
+
+    return fees;
+};
+
+/**
+ * Calculate the itemized price of a ticket order.
+ * Service fees are charged on the ticket subtotal and taxes on the subtotal plus fees.
+ * @param tier - Ticket tier being bought
+ * @param quantity - Number of tickets
+ * @param ticketFees - Fee configuration of the event (optional)
+ * @returns Itemized price breakdown
+ */
+export const calculateTicketPrice = (
+    tier: Pick<TicketTier, "seatType" | "price">,
+    quantity: number,
+    ticketFees?: TicketFees | null
+): PriceBreakdown => {
+    const subtotal = roundCurrency(tier.price * quantity);
+    const fees: PriceLine[] = [];
+    const taxes: PriceLine[] = [];
+
+    if (ticketFees?.serviceFeePercent) {
+        fees.push({
+            label: `Service fee (${ticketFees.serviceFeePercent}%)`,
+            amount: roundCurrency((subtotal * ticketFees.serviceFeePercent) / 100),
+        });
+    }
+
+    if (ticketFees?.serviceFeePerTicket) {
+        fees.push({
+            label: `Convenience fee (${quantity} x ${ticketFees.serviceFeePerTicket})`,
+            amount: roundCurrency(ticketFees.serviceFeePerTicket * quantity),
+        });
+    }
+
+    const feesTotal = fees.reduce((sum, line) => sum + line.amount, 0);
+
+    if (ticketFees?.taxPercent) {
+        taxes.push({
+            label: `Tax (${ticketFees.taxPercent}%)`,
+            amount: roundCurrency(((subtotal + feesTotal) * ticketFees.taxPercent) / 100),
+        });
+    }
+
+    const taxesTotal = taxes.reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+        seatType: tier.seatType,
+        unitPrice: tier.price,
+        quantity,
+        subtotal,
+        fees,
+        taxes,
+        total: roundCurrency(subtotal + feesTotal + taxesTotal),
+        currency: "INR",
+    };
+};
+
+/**
+ * Validate and normalize the pricing rules of a venue coming from a request body.
+ * @param pricing - Raw pricing rules (JSON string or object)
+ * @returns Normalized pricing rules or error
+ */
+export const parseVenuePricing = (pricing: unknown): VenuePricing | { error: string } => {
+    let parsed: unknown = pricing;
+
+    if (typeof pricing === "string") {
+        try {
+            parsed = JSON.parse(pricing);
+        } catch (parseError) {
+            return { error: "Invalid pricing JSON format" };
+        }
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return { error: "Pricing must be an object" };
+    }
+
+    const rules = parsed as Record<string, unknown>;
+    const weekendSurchargePercent = Number(rules.weekendSurchargePercent ?? 0);
+    const holidaySurchargePercent = Number(rules.holidaySurchargePercent ?? 0);
+    const pricePerExtraGuest = Number(rules.pricePerExtraGuest ?? 0);
+    const minimumDays = Number(rules.minimumDays ?? 1);
+    const includedGuests = rules.includedGuests === undefined || rules.includedGuests === null
+        ? null
+        : Number(rules.includedGuests);
+
+    for (const [key, value] of Object.entries({ weekendSurchargePercent, holidaySurchargePercent, pricePerExtraGuest })) {
+        if (!Number.isFinite(value) || value < 0) {
+            return { error: `Invalid pricing ${key}` };
+        }
+    }
+    if (!Number.isInteger(minimumDays) || minimumDays < 1) {
+        return { error: "Minimum days must be a whole number of at least 1" };
+    }
+    if (includedGuests !== null && (!Number.isInteger(includedGuests) || includedGuests < 0)) {
+        return { error: "Included guests must be a whole number" };
+    }
+
+    const holidayEntries = rules.holidays ?? [];
+    const seasonalRateEntries = rules.seasonalRates ?? [];
+    const durationDiscountEntries = rules.durationDiscounts ?? [];
+    if (!Array.isArray(holidayEntries)) {
+        return { error: "Holidays must be a list of dates" };
+    }
+    if (!Array.isArray(seasonalRateEntries)) {
+        return { error: "Seasonal rates must be a list" };
+    }
+    if (!Array.isArray(durationDiscountEntries)) {
+        return { error: "Duration discounts must be a list" };
+    }
+
+    const holidays: Date[] = [];
+    for (const value of holidayEntries) {
+        const holiday = new Date(value);
+        if (isNaN(holiday.getTime())) {
+            return { error: `Invalid holiday ${value}` };
+        }
+        holidays.push(startOfUtcDay(holiday));
+    }
+
+    const seasonalRates: SeasonalRate[] = [];
+    for (const entry of seasonalRateEntries) {
+        const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+        const startDate = new Date(entry?.startDate);
+        const endDate = new Date(entry?.endDate);
+        const pricePerDay = Number(entry?.pricePerDay);
+
+        if (!name) {
+            return { error: "Each seasonal rate must have a name" };
+        }
+        if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate < startDate) {
+            return { error: `Invalid dates for seasonal rate ${name}` };
+        }
+        if (!Number.isInteger(pricePerDay) || pricePerDay < 0) {
+            return { error: `Invalid price for seasonal rate ${name}` };
+        }
+        if (seasonalRates.some((rate) => rate.startDate <= endDate && rate.endDate >= startDate)) {
+            return { error: `Seasonal rate ${name} overlaps another season` };
+        }
+
+        seasonalRates.push({ name, startDate: startOfUtcDay(startDate), endDate: startOfUtcDay(endDate), pricePerDay });
+    }
+
+    const durationDiscounts: DurationDiscount[] = [];
+    for (const entry of durationDiscountEntries) {
+        const discountDays = Number(entry?.minimumDays);
+        const percent = Number(entry?.percent);
+
+        if (!Number.isInteger(discountDays) || discountDays < 2) {
+            return { error: "Duration discounts must start at 2 days or more" };
+        }
+        if (!Number.isFinite(percent) || percent <= 0 || percent >= 100) {
+            return { error: "Duration discount percent must be between 0 and 100" };
+        }
+        if (durationDiscounts.some((discount) => discount.minimumDays === discountDays)) {
+            return { error: `Duplicate duration discount for ${discountDays} days` };
+        }
+
+        durationDiscounts.push({ minimumDays: discountDays, percent });
+    }
+
+    return {
+        weekendSurchargePercent,
+        holidaySurchargePercent,
+        holidays,
+        seasonalRates,
+        durationDiscounts: durationDiscounts.sort((a, b) => a.minimumDays - b.minimumDays),
+        includedGuests,
+        pricePerExtraGuest,
+        minimumDays,
+    };
+};
+
+/**
+ * Calculate the itemized price of renting a venue. Every day is charged at the venue's
+ * day rate, or the rate of the season it falls in, plus the holiday or weekend surcharge.
+ * Guests above the included headcount are charged per day, and the best duration
+ * discount is taken off the rental, surcharges and extra guests. Services are added last.
+ * @param venue - Venue with its day rate and pricing rules
+ * @param startDate - First day of the booking
+ * @param endDate - Last day of the booking
+ * @param guests - Number of guests
+ * @param services - Price lines of the booked services
+ * @returns Itemized quote or error if the booking is shorter than the venue allows
+ */
+export const calculateVenuePrice = (
+    venue: Pick<Venue, "pricePerDay" | "pricing">,
+    startDate: Date,
+    endDate: Date,
+    guests: number,
+    services: PriceLine[] = []
+): VenueQuote | { error: string } => {
+    const pricing = venue.pricing;
+    const days = listUtcDays(startDate, endDate);
+
+    const minimumDays = pricing?.minimumDays ?? 1;
+    if (days.length < minimumDays) {
+        return { error: `This venue must be booked for at least ${minimumDays} days` };
+    }
+
+    const holidays = new Set((pricing?.holidays ?? []).map(toDateKey));
+    const rentals = new Map<string, { days: number; rate: number }>();
+    let weekendDays = 0;
+    let weekendSurcharge = 0;
+    let holidayDays = 0;
+    let holidaySurcharge = 0;
+
+    for (const day of days) {
+        const season = pricing?.seasonalRates.find((rate) => rate.startDate <= day && rate.endDate >= day);
+        const rate = season ? season.pricePerDay : venue.pricePerDay;
+        const label = season ? season.name : "Venue rental";
+
+        const rental = rentals.get(label) || { days: 0, rate };
+        rentals.set(label, { days: rental.days + 1, rate });
+
+        if (holidays.has(toDateKey(day)) && pricing?.holidaySurchargePercent) {
+            holidayDays++;
+            holidaySurcharge += (rate * pricing.holidaySurchargePercent) / 100;
+        } else if ((day.getUTCDay() === 0 || day.getUTCDay() === 6) && pricing?.weekendSurchargePercent) {
+            weekendDays++;
+            weekendSurcharge += (rate * pricing.weekendSurchargePercent) / 100;
+        }
+    }
+
+    const lines: PriceLine[] = [];
+    for (const [label, rental] of rentals) {
+        lines.push({
+            label: `${label} (${rental.days} day${rental.days === 1 ? "" : "s"} x ${formatAmount(rental.rate)})`,
+            amount: roundCurrency(rental.days * rental.rate),
+        });
+    }
+    if (weekendDays > 0) {
+        lines.push({
+            label: `Weekend surcharge (${pricing!.weekendSurchargePercent}% on ${weekendDays} day${weekendDays === 1 ? "" : "s"})`,
+            amount: roundCurrency(weekendSurcharge),
+        });
+    }
+    if (holidayDays > 0) {
+        lines.push({
+            label: `Holiday surcharge (${pricing!.holidaySurchargePercent}% on ${holidayDays} day${holidayDays === 1 ? "" : "s"})`,
+            amount: roundCurrency(holidaySurcharge),
+        });
+    }
+
+    const extraGuests = pricing?.includedGuests != null ? Math.max(0, guests - pricing.includedGuests) : 0;
+    if (extraGuests > 0 && pricing?.pricePerExtraGuest) {
+        lines.push({
+            label: `Extra guests (${extraGuests} x ${formatAmount(pricing.pricePerExtraGuest)} x ${days.length} day${days.length === 1 ? "" : "s"})`,
+            amount: roundCurrency(extraGuests * pricing.pricePerExtraGuest * days.length),
+        });
+    }
+
+    const discount = [...(pricing?.durationDiscounts ?? [])]
+        .filter((entry) => days.length >= entry.minimumDays)
+        .sort((a, b) => b.percent - a.percent)[0];
+    if (discount) {
+        const discountable = lines.reduce((sum, line) => sum + line.amount, 0);
+        lines.push({
+            label: `Multi-day discount (${discount.percent}% for ${discount.minimumDays}+ days)`,
+            amount: -roundCurrency((discountable * discount.percent) / 100),
+        });
+    }
+
+    const total = [...lines, ...services].reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+        days: days.length,
+        guests,
+        lines,
+        services,
+        total: roundCurrency(total),
+        currency: "INR",
+    };
+};
@@ -0,0 +1,44 @@
+import dotenv from "dotenv";
+import { hmacSha256, safeCompareSignature } from "./crypto.util";
+
+dotenv.config();
+
+const signingSecret = process.env.TICKET_SIGNING_SECRET || process.env.JWT_SECRET!;
+
+export type TicketTokenPayload = {
+    tid: string; // Ticket ID
+    eid: string; // Event ID
+};
+
+/**
+ * Create the tamper-evident token encoded in a ticket's QR code.
+ * @param payload - Ticket and event IDs
+ * @returns Token of the form <base64url payload>.<signature>
+ */
+export const signTicketToken = (payload: TicketTokenPayload): string => {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${encodedPayload}.${hmacSha256(signingSecret, encodedPayload)}`;
+};
+
+/**
+ * Verify a ticket token and read its payload.
+ * @param token - Token scanned from a QR code
+ * @returns Payload or null if the token was tampered with
+ */
+export const verifyTicketToken = (token: string): TicketTokenPayload | null => {
+    const [encodedPayload, signature] = (token || "").split(".");
+    if (!encodedPayload || !signature) {
+        return null;
+    }
+
+    if (!safeCompareSignature(hmacSha256(signingSecret, encodedPayload), signature)) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+        return typeof payload?.tid === "string" && typeof payload?.eid === "string" ? payload : null;
+    } catch (error) {
+        return null;
+    }
+};
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding, the format authenticator apps expect.
+ */
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of input.replace(/=+$/, "").toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error("Invalid base32 character");
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+/**
+ * Compute the HOTP code of a counter (RFC 4226).
+ * @param key - Shared secret
+ * @param counter - Counter, the time step for TOTP
+ * @returns Zero-padded code
+ */
+export const hotp = (key: Buffer, counter: number): string => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const digest = crypto.createHmac("sha1", key).update(message).digest();
+    const offset = digest[digest.length - 1] & 15;
+    const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+    return code.toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Generate a new TOTP secret.
+ * @returns Base32 encoded 160-bit secret
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from a QR code.
+ * @param secret - Base32 encoded secret
+ * @param accountName - Account shown in the app, e.g. the user's email
+ * @param issuer - Service shown in the app
+ * @returns otpauth URI
+ */
+export const buildOtpAuthUrl = (secret: string, accountName: string, issuer = "Eventia"): string => {
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_PERIOD_SECONDS.toString(),
+    });
+    return `otpauth://totp/${encodeURIComponent(`${issuer}:${accountName}`)}?${params.toString()}`;
+};
+
+/**
+ * Check a TOTP code (RFC 6238), allowing one period of clock drift either way.
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param at - Time to check the code at
+ * @returns Time step the code belongs to, or null if it is wrong
+ */
+export const verifyTotp = (secret: string, code: string, at: Date = new Date()): number | null => {
+    const normalized = (code || "").replace(/\s/g, "");
+    if (!/^\d{6}$/.test(normalized)) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(at.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+
+    for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+        const expected = hotp(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+    return null;
+};
@@ -8,7 +8,10 @@ export const registerSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters long").max(50, "Name can't exceed 50 characters"),
   email: z.string().email("Invalid email address"),
   password: z.string().min(8, "Password must be at least 8 characters long").max(128, "Password can't exceed 128 characters"),
-  role: z.enum(["ADMIN", "USER"]).default("USER"),
+});
+
+export const updateRoleSchema = z.object({
+  role: z.enum(["ADMIN", "USER", "ORGANIZER", "VENUE_OWNER"]),
 });
 
 export const loginSchema = z.object({
@@ -16,6 +19,19 @@ export const loginSchema = z.object({
   password: z.string().min(8, "Password must be at least 8 characters long"),
 });
 
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(6, "Invalid verification code").max(20, "Invalid verification code"),
+});
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().min(6, "Invalid verification code").max(20, "Invalid verification code"),
+});
+
+export const unlockAccountSchema = z.object({
+  token: z.string().min(1, "Unlock token is required"),
+});
+
 export const forgotPasswordSchema = z.object({
   email: z.string().email(),
 });
@@ -24,3 +40,11 @@ export const resetPasswordSchema = z.object({
   token: z.string().optional(),
   newPassword: z.string().optional(),
 });
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export const resendVerificationSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+export const searchEventsSchema = z
+  .object({
+    q: z.string().trim().max(100, "Search can't exceed 100 characters").optional(),
+    category: z.string().trim().min(1).optional(),
+    from: z.coerce.date({ invalid_type_error: "Invalid start date" }).optional(),
+    to: z.coerce.date({ invalid_type_error: "Invalid end date" }).optional(),
+    minPrice: z.coerce.number().int().nonnegative("Minimum price can't be negative").optional(),
+    maxPrice: z.coerce.number().int().nonnegative("Maximum price can't be negative").optional(),
+    available: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+    venueId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid venue ID").optional(),
+    latitude: z.coerce.number().min(-90).max(90).optional(),
+    longitude: z.coerce.number().min(-180).max(180).optional(),
+    radius: z.coerce.number().positive("Radius must be positive").optional(),
+    sort: z.enum(["date", "price", "popularity", "distance"]).default("date"),
+    order: z.enum(["asc", "desc"]).optional(),
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().positive().max(50, "You can fetch at most 50 events at once").default(20),
+  })
+  .refine((query) => (query.latitude === undefined) === (query.longitude === undefined), {
+    message: "Latitude and longitude must be given together",
+  })
+  .refine((query) => query.radius === undefined || query.latitude !== undefined, {
+    message: "A radius needs a latitude and longitude",
+  })
+  .refine((query) => query.sort !== "distance" || query.radius !== undefined, {
+    message: "Sorting by distance needs a latitude, longitude and radius",
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "Start date must be before end date",
+  })
+  .refine((query) => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice, {
+    message: "Minimum price must be less than maximum price",
+  });
+
+export type SearchEventsQuery = z.infer<typeof searchEventsSchema>;
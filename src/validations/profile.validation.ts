@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const updateProfileSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters long").max(50, "Name can't exceed 50 characters").optional(),
+  email: z.string().email("Invalid email address").optional(),
+  preferences: z
+    .object({
+      categories: z.array(z.string().min(1)).max(20, "You can't pick more than 20 categories").optional(),
+      budgetRange: z.number().int().nonnegative("Budget can't be negative").nullable().optional(),
+    })
+    .optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(8, "Password must be at least 8 characters long").max(128, "Password can't exceed 128 characters"),
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+  code: z.string().optional(),
+});
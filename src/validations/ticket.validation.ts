@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+export const createOrderSchema = z.object({
+  eventId: z.string().min(1, "Event ID is required"),
+  seatType: z.string().min(1, "Seat type is required"),
+  quantity: z.coerce.number().int("Quantity must be a whole number").positive("Quantity must be at least 1").max(20, "You can book at most 20 tickets at once"),
+  amount: z.coerce.number().nonnegative("Amount must be a positive number").optional(),
+});
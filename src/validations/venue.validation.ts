@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+export const venueCalendarSchema = z
+  .object({
+    from: z.coerce.date({ invalid_type_error: "Invalid start date" }).optional(),
+    to: z.coerce.date({ invalid_type_error: "Invalid end date" }).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "Start date must be before end date",
+  });
+
+export const createClosureSchema = z
+  .object({
+    type: z.enum(["BLACKOUT", "MAINTENANCE"]),
+    startDate: z.coerce.date({ invalid_type_error: "Invalid start date" }),
+    endDate: z.coerce.date({ invalid_type_error: "Invalid end date" }),
+    reason: z.string().trim().max(200, "Reason can't exceed 200 characters").optional(),
+  })
+  .refine((closure) => closure.startDate <= closure.endDate, {
+    message: "Start date must be before end date",
+  });
+
+const addOnTierSchema = z.object({
+  name: z.string().trim().min(1, "Tier name is required").max(50, "Tier name can't exceed 50 characters"),
+  description: z.string().trim().max(200, "Tier description can't exceed 200 characters").optional(),
+  price: z.number({ invalid_type_error: "Tier price must be a number" }).min(0, "Tier price can't be negative"),
+});
+
+const addOnTiersSchema = z
+  .array(addOnTierSchema)
+  .min(1, "An add-on needs at least one tier")
+  .max(10, "An add-on can have at most 10 tiers")
+  .refine((tiers) => new Set(tiers.map((tier) => tier.name.toLowerCase())).size === tiers.length, {
+    message: "Tier names must be unique",
+  });
+
+export const createAddOnSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name can't exceed 100 characters"),
+  description: z.string().trim().max(500, "Description can't exceed 500 characters").optional(),
+  pricing: z.enum(["FLAT", "PER_GUEST"]).optional(),
+  tiers: addOnTiersSchema,
+  isAvailable: z.boolean().optional(),
+});
+
+export const updateAddOnSchema = createAddOnSchema.partial();
+
+export const answerBookingRequestSchema = z.object({
+  message: z.string().trim().max(1000, "Message can't exceed 1000 characters").optional(),
+});
+
+export const counterOfferSchema = answerBookingRequestSchema.extend({
+  amount: z.number({ required_error: "Amount is required", invalid_type_error: "Amount must be a number" }).positive("Amount must be positive"),
+});
@@ -9,11 +9,11 @@ export type ApiResponse<T> = {
 export type Event = {
     id: string;
     title: string;
-    description: string;
+    description: string | null;
     category: string;
     date: Date;
     isPublic: boolean;
-    image: string;
+    image: string | null;
     organizerId: string;
     venueId: string | null;
     createdAt: Date;